@@ -1,5 +1,5 @@
 // src/config/database.ts
-import { Pool } from 'pg';
+import { Pool, PoolClient, QueryResult } from 'pg';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -33,81 +33,23 @@ export const query = async (text: string, params?: any[]) => {
   }
 };
 
-export const initializeDatabase = async () => {
-  try {
-    console.log('🔄 Initializing database schema...');
-
-    // Users table
-    await query(`
-      CREATE TABLE IF NOT EXISTS users (
-        id SERIAL PRIMARY KEY,
-        email VARCHAR(255) UNIQUE NOT NULL,
-        password VARCHAR(255) NOT NULL,
-        name VARCHAR(255) NOT NULL,
-        is_verified BOOLEAN DEFAULT FALSE,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
-
-    // Meetings table
-    await query(`
-      CREATE TABLE IF NOT EXISTS meetings (
-        id VARCHAR(36) PRIMARY KEY,
-        host_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
-        title VARCHAR(255) NOT NULL,
-        status VARCHAR(20) DEFAULT 'active',
-        max_participants INTEGER DEFAULT 10,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        ended_at TIMESTAMP
-      );
-    `);
-
-    // Meeting participants
-    await query(`
-      CREATE TABLE IF NOT EXISTS meeting_participants (
-        id SERIAL PRIMARY KEY,
-        meeting_id VARCHAR(36) REFERENCES meetings(id) ON DELETE CASCADE,
-        user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
-        socket_id VARCHAR(255),
-        joined_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        left_at TIMESTAMP,
-        UNIQUE(meeting_id, user_id)
-      );
-    `);
-
-    // Email verification tokens
-    await query(`
-      CREATE TABLE IF NOT EXISTS verification_tokens (
-        id SERIAL PRIMARY KEY,
-        user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
-        token VARCHAR(255) UNIQUE NOT NULL,
-        expires_at TIMESTAMP NOT NULL,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
+// Anything that runs a query: the pool-backed query() above or a transaction's client
+export interface Queryable {
+  query: (text: string, params?: unknown[]) => Promise<QueryResult>;
+}
 
-    // Password reset tokens
-    await query(`
-      CREATE TABLE IF NOT EXISTS password_reset_tokens (
-        id SERIAL PRIMARY KEY,
-        user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
-        token VARCHAR(255) UNIQUE NOT NULL,
-        expires_at TIMESTAMP NOT NULL,
-        used BOOLEAN DEFAULT FALSE,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
-
-    // Create indexes
-    await query('CREATE INDEX IF NOT EXISTS idx_meetings_host ON meetings(host_id);');
-    await query('CREATE INDEX IF NOT EXISTS idx_participants_meeting ON meeting_participants(meeting_id);');
-    await query('CREATE INDEX IF NOT EXISTS idx_verification_token ON verification_tokens(token);');
-    await query('CREATE INDEX IF NOT EXISTS idx_reset_token ON password_reset_tokens(token);');
-
-    console.log('✅ Database schema initialized successfully');
+// Runs fn on one connection inside a transaction. Throwing rolls everything back.
+export const transaction = async <T>(fn: (client: PoolClient) => Promise<T>) => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
   } catch (error) {
-    console.error('❌ Error initializing database:', error);
+    await client.query('ROLLBACK');
     throw error;
+  } finally {
+    client.release();
   }
-};
\ No newline at end of file
+};
@@ -1,49 +1,100 @@
 // src/config/email.ts
+// Transports that deliver rendered emails. Routes never send directly; they render a message with
+// utils/emailTemplates.ts, queue it in the outbox (utils/emailOutbox.ts) and the worker sends it.
+import fs from 'fs';
+import path from 'path';
 import nodemailer from 'nodemailer';
 import dotenv from 'dotenv';
+import { positiveInt } from '../utils/numbers';
 
 dotenv.config();
 
-export const transporter = nodemailer.createTransport({
-  host: process.env.SMTP_HOST,
-  port: parseInt(process.env.SMTP_PORT || '587'),
-  secure: false,
-  auth: process.env.SMTP_USER ? {
-    user: process.env.SMTP_USER,
-    pass: process.env.SMTP_PASSWORD,
-  } : undefined,
-});
+export interface EmailMessage {
+  // Which template produced it, kept in the outbox for filtering and debugging
+  template: string;
+  to: string;
+  subject: string;
+  html: string;
+  // Plain-text alternative; emails queued before it existed have none
+  text?: string | undefined;
+  icalEvent?: { method: string; filename: string; content: string } | undefined;
+}
+
+export interface EmailTransport {
+  name: string;
+  send: (message: EmailMessage) => Promise<void>;
+}
 
-export const sendVerificationEmail = async (email: string, token: string) => {
-  const verificationUrl = `${process.env.FRONTEND_URL}/verify-email?token=${token}`;
-  
-  await transporter.sendMail({
-    from: process.env.EMAIL_FROM,
-    to: email,
-    subject: 'Verify Your Email - WebRTC App',
-    html: `
-      <h1>Email Verification</h1>
-      <p>Thank you for registering! Please verify your email by clicking the link below:</p>
-      <a href="${verificationUrl}">Verify Email</a>
-      <p>This link will expire in 24 hours.</p>
-      <p>If you didn't create an account, please ignore this email.</p>
-    `,
+const smtpTransport = (): EmailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: positiveInt(process.env.SMTP_PORT, 587),
+    secure: false,
+    auth: process.env.SMTP_USER ? {
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASSWORD,
+    } : undefined,
   });
+
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      await transporter.sendMail({
+        from: process.env.EMAIL_FROM,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        ...(message.text && { text: message.text }),
+        ...(message.icalEvent && { icalEvent: message.icalEvent }),
+      });
+    },
+  };
 };
 
-export const sendPasswordResetEmail = async (email: string, token: string) => {
-  const resetUrl = `${process.env.FRONTEND_URL}/reset-password?token=${token}`;
-  
-  await transporter.sendMail({
-    from: process.env.EMAIL_FROM,
-    to: email,
-    subject: 'Password Reset - WebRTC App',
-    html: `
-      <h1>Password Reset Request</h1>
-      <p>You requested to reset your password. Click the link below to proceed:</p>
-      <a href="${resetUrl}">Reset Password</a>
-      <p>This link will expire in 1 hour.</p>
-      <p>If you didn't request this, please ignore this email.</p>
-    `,
-  });
-};
\ No newline at end of file
+// Appends one JSON line per email, so local setups can read the links without a mail server
+const jsonFileTransport = (filePath: string): EmailTransport => ({
+  name: 'json-file',
+  send: async (message) => {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.appendFile(filePath, `${JSON.stringify({ sentAt: new Date().toISOString(), ...message })}\n`);
+  },
+});
+
+// Emails delivered by the memory transport, newest last
+export const sentEmails: EmailMessage[] = [];
+
+const memoryTransport = (): EmailTransport => ({
+  name: 'memory',
+  send: async (message) => {
+    sentEmails.push(message);
+  },
+});
+
+const createTransport = (): EmailTransport => {
+  const name = process.env.EMAIL_TRANSPORT || 'smtp';
+
+  switch (name) {
+    case 'smtp':
+      return smtpTransport();
+    case 'json-file':
+      return jsonFileTransport(process.env.EMAIL_SINK_PATH || 'logs/emails.jsonl');
+    case 'memory':
+      return memoryTransport();
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${name}" (expected smtp, json-file or memory)`);
+  }
+};
+
+let transport: EmailTransport | null = null;
+
+export const getEmailTransport = () => {
+  if (!transport) {
+    transport = createTransport();
+  }
+  return transport;
+};
+
+// Replaces the configured transport, e.g. with the memory one in scripts
+export const setEmailTransport = (next: EmailTransport) => {
+  transport = next;
+};
@@ -0,0 +1,161 @@
+// src/config/migrator.ts
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { pool } from './database';
+import { migrations } from '../migrations';
+import { Migration } from '../migrations/types';
+
+// Arbitrary but fixed key shared by every instance that runs migrations
+const MIGRATION_LOCK_KEY = 7423019;
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: Date | null;
+  state: 'applied' | 'pending' | 'checksum_mismatch';
+}
+
+export const checksumOf = (migration: Migration) =>
+  crypto.createHash('sha256').update(`${migration.up}\n--down--\n${migration.down}`).digest('hex');
+
+const sortedMigrations = () => {
+  const sorted = [...migrations].sort((a, b) => a.version - b.version);
+
+  sorted.forEach((migration, index) => {
+    if (index > 0 && sorted[index - 1]!.version === migration.version) {
+      throw new Error(`Duplicate migration version ${migration.version}`);
+    }
+  });
+
+  return sorted;
+};
+
+const ensureMigrationsTable = async (client: PoolClient) => {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      checksum VARCHAR(64) NOT NULL,
+      execution_ms INTEGER,
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+};
+
+const getAppliedMigrations = async (client: PoolClient) => {
+  const result = await client.query(
+    'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+  );
+  return new Map<number, { name: string; checksum: string; applied_at: Date }>(
+    result.rows.map((row) => [row.version, row])
+  );
+};
+
+// Holds a session-level advisory lock for the duration of fn so that
+// concurrent server instances (or a CLI run) never migrate at the same time.
+const withMigrationLock = async <T>(fn: (client: PoolClient) => Promise<T>): Promise<T> => {
+  const client = await pool.connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+    try {
+      await ensureMigrationsTable(client);
+      return await fn(client);
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+    }
+  } finally {
+    client.release();
+  }
+};
+
+const runInTransaction = async (client: PoolClient, fn: () => Promise<void>) => {
+  await client.query('BEGIN');
+  try {
+    await fn();
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+};
+
+const assertNoDrift = (applied: Map<number, { name: string; checksum: string }>) => {
+  const known = new Map(sortedMigrations().map((m) => [m.version, m]));
+
+  for (const [version, row] of applied) {
+    const migration = known.get(version);
+    if (!migration) {
+      throw new Error(`Database has migration ${version} (${row.name}) which is not known to this build`);
+    }
+    if (checksumOf(migration) !== row.checksum) {
+      throw new Error(`Checksum mismatch for migration ${version} (${row.name}); applied migrations must not be edited`);
+    }
+  }
+};
+
+export const migrateUp = async () =>
+  withMigrationLock(async (client) => {
+    const applied = await getAppliedMigrations(client);
+    assertNoDrift(applied);
+
+    const pending = sortedMigrations().filter((m) => !applied.has(m.version));
+
+    for (const migration of pending) {
+      const start = Date.now();
+      console.log(`🔄 Applying migration ${migration.version}_${migration.name}...`);
+
+      await runInTransaction(client, async () => {
+        await client.query(migration.up);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name, checksum, execution_ms) VALUES ($1, $2, $3, $4)',
+          [migration.version, migration.name, checksumOf(migration), Date.now() - start]
+        );
+      });
+
+      console.log(`✅ Applied migration ${migration.version}_${migration.name} (${Date.now() - start}ms)`);
+    }
+
+    return pending;
+  });
+
+export const migrateDown = async (steps = 1) =>
+  withMigrationLock(async (client) => {
+    const applied = await getAppliedMigrations(client);
+    assertNoDrift(applied);
+
+    const toRevert = sortedMigrations()
+      .filter((m) => applied.has(m.version))
+      .reverse()
+      .slice(0, steps);
+
+    for (const migration of toRevert) {
+      console.log(`🔄 Reverting migration ${migration.version}_${migration.name}...`);
+
+      await runInTransaction(client, async () => {
+        await client.query(migration.down);
+        await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+      });
+
+      console.log(`✅ Reverted migration ${migration.version}_${migration.name}`);
+    }
+
+    return toRevert;
+  });
+
+export const getMigrationStatus = async (): Promise<MigrationStatus[]> =>
+  withMigrationLock(async (client) => {
+    const applied = await getAppliedMigrations(client);
+
+    return sortedMigrations().map((migration) => {
+      const row = applied.get(migration.version);
+      const checksum = checksumOf(migration);
+      return {
+        version: migration.version,
+        name: migration.name,
+        checksum,
+        appliedAt: row ? row.applied_at : null,
+        state: !row ? 'pending' : row.checksum === checksum ? 'applied' : 'checksum_mismatch',
+      };
+    });
+  });
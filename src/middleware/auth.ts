@@ -1,11 +1,15 @@
 // src/middleware/auth.ts
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import { query } from '../config/database';
+import { isSessionActive, verifyAccessToken } from '../utils/sessions';
+import { accountBlockMessage, getAuthUser } from '../utils/accounts';
+import { MeetingRole } from '../utils/permissions';
 
 export interface AuthRequest extends Request {
   userId?: number;
   userEmail?: string;
+  sessionId?: string;
+  isAdmin?: boolean;
+  meetingRole?: MeetingRole;
 }
 
 export const authenticateToken = async (
@@ -21,29 +25,49 @@ export const authenticateToken = async (
       return res.status(401).json({ error: 'Access token required' });
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as {
-      userId: number;
-      email: string;
-    };
+    const decoded = verifyAccessToken(token);
 
-    const result = await query('SELECT id, email, is_verified FROM users WHERE id = $1', [
-      decoded.userId,
-    ]);
+    const user = await getAuthUser(decoded.userId);
 
-    if (result.rows.length === 0) {
+    if (!user) {
       return res.status(401).json({ error: 'User not found' });
     }
 
-    const user = result.rows[0];
+    if (user.block) {
+      return res.status(403).json({ error: accountBlockMessage(user.block) });
+    }
 
-    if (!user.is_verified) {
+    if (!user.isVerified) {
       return res.status(403).json({ error: 'Email not verified' });
     }
 
+    if (!(await isSessionActive(decoded.sessionId, decoded.userId))) {
+      return res.status(401).json({ error: 'Session has been revoked' });
+    }
+
     req.userId = decoded.userId;
-    req.userEmail = decoded.email;
+    // The account email, which may have changed since the token was issued
+    req.userEmail = user.email;
+    req.sessionId = decoded.sessionId;
+    req.isAdmin = user.isAdmin;
     next();
   } catch (error) {
     return res.status(403).json({ error: 'Invalid or expired token' });
   }
-};
\ No newline at end of file
+};
+
+// For routes that also serve anonymous callers: a token, when sent, must still be valid
+export const optionalAuthenticateToken = (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.headers['authorization']) {
+    return next();
+  }
+  return authenticateToken(req, res, next);
+};
+
+// Must run after authenticateToken
+export const requireAdmin = (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.isAdmin) {
+    return res.status(403).json({ error: 'Administrator access required' });
+  }
+  next();
+};
@@ -0,0 +1,25 @@
+// src/middleware/permissions.ts
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth';
+import { checkMeetingPermission, MeetingPermission } from '../utils/permissions';
+
+// Must run after authenticateToken on routes with a :meetingId param
+export const requireMeetingPermission =
+  (permission: MeetingPermission, deniedMessage: string) =>
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const check = await checkMeetingPermission(req.params.meetingId as string, req.userId!, permission);
+
+      if (!check.allowed) {
+        return check.reason === 'not_found'
+          ? res.status(404).json({ error: 'Meeting not found' })
+          : res.status(403).json({ error: deniedMessage });
+      }
+
+      req.meetingRole = check.role;
+      next();
+    } catch (error) {
+      console.error('Permission check error:', error);
+      res.status(500).json({ error: 'Failed to check permissions' });
+    }
+  };
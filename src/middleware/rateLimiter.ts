@@ -1,5 +1,6 @@
 // src/middleware/rateLimiter.ts
 import rateLimit from 'express-rate-limit';
+import { isMeetingId } from '../utils/meetingCodes';
 
 export const authLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
@@ -9,10 +10,58 @@ export const authLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+// Logins get their own, more generous per-IP budget: people behind one NAT share it, and guessing
+// the password of a single account is stopped by the per-account lockout in utils/loginProtection.ts
+export const loginLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 30,
+  message: 'Too many login attempts, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Clients refresh every few minutes per device, so this only stops guessing and replaying tokens
+export const refreshLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 60,
+  message: 'Too many token refreshes, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Guests of one organisation often join from behind the same NAT
+export const guestJoinLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 30,
+  message: 'Too many guest joins, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Each OIDC sign-in takes two requests (authorize and callback); the code exchange with the
+// provider is what actually authenticates, so this only stops state and code floods
+export const oidcLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 30,
+  message: 'Too many sign-in attempts, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 export const generalLimiter = rateLimit({
   windowMs: 15 * 60 * 1000,
   max: 100,
   message: 'Too many requests, please try again later',
   standardHeaders: true,
   legacyHeaders: false,
-});
\ No newline at end of file
+});
+// Meeting codes are short enough to guess, so requests that name a meeting by code
+// (rather than by its ID) are limited per IP
+export const meetingCodeLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 30,
+  skip: (req) => isMeetingId(String(req.params.meetingId)),
+  message: 'Too many meeting code lookups, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
@@ -1,6 +1,11 @@
 // src/middleware/validator.ts
-import { body, validationResult } from 'express-validator';
+import { body, param, validationResult } from 'express-validator';
 import { Request, Response, NextFunction } from 'express';
+import { isValidTimeZone, parseRecurrenceRule, parseScheduledStart } from '../utils/schedule';
+import { WEBHOOK_EVENT_TYPES } from '../utils/webhooks';
+import { webhookUrlError } from '../utils/webhookTargets';
+import { MAX_GUEST_NAME_LENGTH } from '../utils/guests';
+import { LOCALE_PATTERN } from '../utils/emailTemplates';
 
 export const validateRequest = (req: Request, res: Response, next: NextFunction) => {
   const errors = validationResult(req);
@@ -18,6 +23,12 @@ export const registerValidation = [
     .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
     .withMessage('Password must contain uppercase, lowercase, and number'),
   body('name').trim().isLength({ min: 2 }).withMessage('Name must be at least 2 characters'),
+  body('locale')
+    .optional()
+    .isString()
+    .isLength({ max: 35 })
+    .matches(LOCALE_PATTERN)
+    .withMessage('locale must be a language tag such as "en" or "pt-BR"'),
 ];
 
 export const loginValidation = [
@@ -29,6 +40,10 @@ export const passwordResetRequestValidation = [
   body('email').isEmail().normalizeEmail(),
 ];
 
+export const resendVerificationValidation = [
+  body('email').isEmail().normalizeEmail(),
+];
+
 export const passwordResetValidation = [
   body('token').notEmpty(),
   body('newPassword')
@@ -36,6 +51,208 @@ export const passwordResetValidation = [
     .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/),
 ];
 
+export const refreshTokenValidation = [
+  body('refreshToken').isString().notEmpty(),
+];
+
 export const createMeetingValidation = [
   body('title').trim().isLength({ min: 3, max: 100 }),
-];
\ No newline at end of file
+  body('lobbyEnabled').optional().isBoolean().toBoolean(),
+  body('allowGuests').optional().isBoolean().toBoolean(),
+  body('accessMode').optional().isIn(['open', 'passcode', 'invite']),
+  body('passcode').optional().isString().isLength({ min: 4, max: 64 }),
+  // Without an offset, scheduledStart is a wall-clock time in timeZone (default UTC)
+  body('scheduledStart')
+    .optional()
+    .custom((value, { req }) => {
+      const timeZone = req.body.timeZone ?? 'UTC';
+      return (
+        typeof value === 'string' &&
+        (typeof timeZone !== 'string' || !isValidTimeZone(timeZone) || parseScheduledStart(value, timeZone) !== null)
+      );
+    })
+    .withMessage('scheduledStart must be an ISO 8601 date'),
+  body('durationMinutes').optional().isInt({ min: 5, max: 1440 }).toInt(),
+  body('timeZone')
+    .optional()
+    .custom((value) => typeof value === 'string' && isValidTimeZone(value))
+    .withMessage('Unknown time zone'),
+  body('recurrence')
+    .optional()
+    .custom((value, { req }) => {
+      if (!req.body.scheduledStart) {
+        throw new Error('recurrence requires scheduledStart');
+      }
+      parseRecurrenceRule(String(value));
+      return true;
+    }),
+];
+
+export const joinMeetingValidation = [
+  body('passcode').optional().isString(),
+  body('inviteToken').optional().isString(),
+];
+
+export const accessSettingsValidation = [
+  body('accessMode').isIn(['open', 'passcode', 'invite']),
+  body('passcode').optional().isString().isLength({ min: 4, max: 64 }),
+];
+
+export const rotatePasscodeValidation = [
+  body('passcode').optional().isString().isLength({ min: 4, max: 64 }),
+];
+
+export const participantParamValidation = [
+  param('userId').isInt({ min: 1 }).withMessage('Invalid user ID'),
+];
+
+export const changeRoleValidation = [
+  ...participantParamValidation,
+  body('role').isIn(['co-host', 'presenter', 'attendee', 'viewer']),
+];
+
+export const transferHostValidation = [
+  body('userId').isInt({ min: 1 }).toInt(),
+];
+
+export const invitationValidation = [
+  body('emails').isArray({ min: 1, max: 50 }).withMessage('Provide between 1 and 50 emails'),
+  body('emails.*').isEmail().normalizeEmail(),
+];
+
+export const lobbySettingsValidation = [
+  body('enabled').isBoolean().toBoolean(),
+];
+
+export const guestSettingsValidation = [
+  body('enabled').isBoolean().toBoolean(),
+];
+
+export const guestJoinValidation = [
+  body('displayName')
+    .isString()
+    .trim()
+    .isLength({ min: 2, max: MAX_GUEST_NAME_LENGTH })
+    .withMessage(`Display name must be between 2 and ${MAX_GUEST_NAME_LENGTH} characters`),
+  body('passcode').optional().isString(),
+];
+const allowedWebhookUrl = (url: string) => {
+  const error = webhookUrlError(url);
+  if (error) {
+    throw new Error(error);
+  }
+  return true;
+};
+
+export const createWebhookValidation = [
+  body('url')
+    .isURL({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+    .withMessage('Valid http(s) URL required')
+    .bail()
+    .custom(allowedWebhookUrl),
+  body('eventTypes').isArray({ min: 1 }).withMessage('Subscribe to at least one event type'),
+  body('eventTypes.*').isIn(WEBHOOK_EVENT_TYPES),
+  body('description').optional().isString().trim().isLength({ max: 255 }),
+];
+
+export const updateWebhookValidation = [
+  body('url')
+    .optional()
+    .isURL({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+    .bail()
+    .custom(allowedWebhookUrl),
+  body('eventTypes').optional().isArray({ min: 1 }),
+  body('eventTypes.*').isIn(WEBHOOK_EVENT_TYPES),
+  body('description').optional().isString().trim().isLength({ max: 255 }),
+  body('isActive').optional().isBoolean().toBoolean(),
+];
+
+export const disableUserValidation = [
+  body('reason').optional().isString().trim().isLength({ max: 500 }),
+];
+
+export const createBanValidation = [
+  body('userId').optional().isInt({ min: 1 }).toInt(),
+  body('email').optional().isEmail().normalizeEmail(),
+  body('reason').isString().trim().isLength({ min: 1, max: 500 }).withMessage('A reason is required'),
+  body('expiresAt')
+    .optional()
+    .isISO8601()
+    .withMessage('expiresAt must be an ISO 8601 date')
+    .custom((value) => new Date(value).getTime() > Date.now())
+    .withMessage('expiresAt must be in the future'),
+  body().custom((value) => {
+    if (!value?.userId && !value?.email) {
+      throw new Error('Provide a userId or an email to ban');
+    }
+    return true;
+  }),
+];
+
+export const twoFactorCodeValidation = [
+  body('code').isString().trim().matches(/^\d{6}$/).withMessage('Enter the 6-digit code from your authenticator app'),
+];
+
+export const passwordConfirmationValidation = [
+  body('password').isString().notEmpty().withMessage('Password is required'),
+];
+
+export const loginTwoFactorValidation = [
+  body('challengeToken').isString().notEmpty(),
+  body('code').optional().isString().trim(),
+  body('recoveryCode').optional().isString().trim(),
+  body().custom((value) => {
+    if (!value?.code && !value?.recoveryCode) {
+      throw new Error('Provide a code or a recovery code');
+    }
+    return true;
+  }),
+];
+
+export const oidcCallbackValidation = [
+  body('code').isString().notEmpty().isLength({ max: 2048 }),
+  body('state').isString().notEmpty().isLength({ max: 256 }),
+];
+
+export const updateProfileValidation = [
+  body('name').optional().trim().isLength({ min: 2, max: 255 }).withMessage('Name must be at least 2 characters'),
+  // null clears the preference
+  body('locale')
+    .optional({ values: 'null' })
+    .isString()
+    .isLength({ max: 35 })
+    .matches(LOCALE_PATTERN)
+    .withMessage('locale must be a language tag such as "en" or "pt-BR"'),
+  body().custom((value) => {
+    if (value?.name === undefined && value?.locale === undefined) {
+      throw new Error('Provide a name or a locale to update');
+    }
+    return true;
+  }),
+];
+
+export const changePasswordValidation = [
+  body('currentPassword').optional().isString(),
+  body('newPassword')
+    .isLength({ min: 8 })
+    .withMessage('Password must be at least 8 characters')
+    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
+    .withMessage('Password must contain uppercase, lowercase, and number'),
+];
+
+export const changeEmailValidation = [
+  body('newEmail').isEmail().normalizeEmail().withMessage('Valid email required'),
+  body('password').isString().notEmpty().withMessage('Password is required'),
+];
+
+// Accounts without a password confirm by typing their email instead
+export const deleteAccountValidation = [
+  body('password').optional().isString(),
+  body('confirmEmail').optional().isEmail().normalizeEmail(),
+  body().custom((value) => {
+    if (!value?.password && !value?.confirmEmail) {
+      throw new Error('Provide your password or confirm your email');
+    }
+    return true;
+  }),
+];
@@ -0,0 +1,85 @@
+// src/migrations/001_initial_schema.ts
+import { Migration } from './types';
+
+// Uses IF NOT EXISTS so databases created by the old initializeDatabase()
+// can adopt the migration history without manual steps.
+const migration: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  up: `
+    CREATE TABLE IF NOT EXISTS users (
+      id SERIAL PRIMARY KEY,
+      email VARCHAR(255) UNIQUE NOT NULL,
+      password VARCHAR(255) NOT NULL,
+      name VARCHAR(255) NOT NULL,
+      is_verified BOOLEAN DEFAULT FALSE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS meetings (
+      id VARCHAR(36) PRIMARY KEY,
+      host_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+      title VARCHAR(255) NOT NULL,
+      status VARCHAR(20) DEFAULT 'active',
+      max_participants INTEGER DEFAULT 10,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      ended_at TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS meeting_participants (
+      id SERIAL PRIMARY KEY,
+      meeting_id VARCHAR(36) REFERENCES meetings(id) ON DELETE CASCADE,
+      user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+      socket_id VARCHAR(255),
+      joined_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      left_at TIMESTAMP,
+      UNIQUE(meeting_id, user_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS verification_tokens (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+      token VARCHAR(255) UNIQUE NOT NULL,
+      expires_at TIMESTAMP NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS password_reset_tokens (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+      token VARCHAR(255) UNIQUE NOT NULL,
+      expires_at TIMESTAMP NOT NULL,
+      used BOOLEAN DEFAULT FALSE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS user_sessions (
+      id VARCHAR(36) PRIMARY KEY,
+      user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+      refresh_token_hash VARCHAR(64) NOT NULL,
+      user_agent TEXT,
+      ip_address VARCHAR(64),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      last_used_at TIMESTAMP,
+      expires_at TIMESTAMP NOT NULL,
+      revoked_at TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_meetings_host ON meetings(host_id);
+    CREATE INDEX IF NOT EXISTS idx_participants_meeting ON meeting_participants(meeting_id);
+    CREATE INDEX IF NOT EXISTS idx_verification_token ON verification_tokens(token);
+    CREATE INDEX IF NOT EXISTS idx_reset_token ON password_reset_tokens(token);
+    CREATE INDEX IF NOT EXISTS idx_sessions_user ON user_sessions(user_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS user_sessions;
+    DROP TABLE IF EXISTS password_reset_tokens;
+    DROP TABLE IF EXISTS verification_tokens;
+    DROP TABLE IF EXISTS meeting_participants;
+    DROP TABLE IF EXISTS meetings;
+    DROP TABLE IF EXISTS users;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,19 @@
+// src/migrations/002_meeting_lobby.ts
+import { Migration } from './types';
+
+const migration: Migration = {
+  version: 2,
+  name: 'meeting_lobby',
+  up: `
+    ALTER TABLE meetings ADD COLUMN lobby_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+    ALTER TABLE meeting_participants ADD COLUMN status VARCHAR(20) NOT NULL DEFAULT 'admitted';
+    CREATE INDEX idx_participants_status ON meeting_participants(meeting_id, status);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_participants_status;
+    ALTER TABLE meeting_participants DROP COLUMN status;
+    ALTER TABLE meetings DROP COLUMN lobby_enabled;
+  `,
+};
+
+export default migration;
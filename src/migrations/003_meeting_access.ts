@@ -0,0 +1,32 @@
+// src/migrations/003_meeting_access.ts
+import { Migration } from './types';
+
+const migration: Migration = {
+  version: 3,
+  name: 'meeting_access',
+  up: `
+    ALTER TABLE meetings ADD COLUMN access_mode VARCHAR(20) NOT NULL DEFAULT 'open';
+    ALTER TABLE meetings ADD COLUMN passcode_hash VARCHAR(255);
+
+    CREATE TABLE meeting_invitations (
+      id VARCHAR(36) PRIMARY KEY,
+      meeting_id VARCHAR(36) REFERENCES meetings(id) ON DELETE CASCADE,
+      email VARCHAR(255) NOT NULL,
+      invited_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      expires_at TIMESTAMP NOT NULL,
+      accepted_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      accepted_at TIMESTAMP,
+      revoked_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX idx_invitations_meeting ON meeting_invitations(meeting_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS meeting_invitations;
+    ALTER TABLE meetings DROP COLUMN passcode_hash;
+    ALTER TABLE meetings DROP COLUMN access_mode;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,23 @@
+// src/migrations/004_meeting_schedule.ts
+import { Migration } from './types';
+
+const migration: Migration = {
+  version: 4,
+  name: 'meeting_schedule',
+  up: `
+    ALTER TABLE meetings ADD COLUMN scheduled_start TIMESTAMPTZ;
+    ALTER TABLE meetings ADD COLUMN duration_minutes INTEGER;
+    ALTER TABLE meetings ADD COLUMN time_zone VARCHAR(64);
+    ALTER TABLE meetings ADD COLUMN recurrence_rule VARCHAR(255);
+    CREATE INDEX idx_meetings_scheduled_start ON meetings(scheduled_start);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_meetings_scheduled_start;
+    ALTER TABLE meetings DROP COLUMN recurrence_rule;
+    ALTER TABLE meetings DROP COLUMN time_zone;
+    ALTER TABLE meetings DROP COLUMN duration_minutes;
+    ALTER TABLE meetings DROP COLUMN scheduled_start;
+  `,
+};
+
+export default migration;
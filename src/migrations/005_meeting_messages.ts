@@ -0,0 +1,27 @@
+// src/migrations/005_meeting_messages.ts
+import { Migration } from './types';
+
+const migration: Migration = {
+  version: 5,
+  name: 'meeting_messages',
+  up: `
+    CREATE TABLE meeting_messages (
+      id SERIAL PRIMARY KEY,
+      meeting_id VARCHAR(36) REFERENCES meetings(id) ON DELETE CASCADE,
+      sender_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      recipient_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      content TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      edited_at TIMESTAMP,
+      deleted_at TIMESTAMP,
+      deleted_by INTEGER REFERENCES users(id) ON DELETE SET NULL
+    );
+
+    CREATE INDEX idx_messages_meeting ON meeting_messages(meeting_id, id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS meeting_messages;
+  `,
+};
+
+export default migration;
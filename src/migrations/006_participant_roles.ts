@@ -0,0 +1,19 @@
+// src/migrations/006_participant_roles.ts
+import { Migration } from './types';
+
+const migration: Migration = {
+  version: 6,
+  name: 'participant_roles',
+  up: `
+    ALTER TABLE meeting_participants ADD COLUMN role VARCHAR(20) NOT NULL DEFAULT 'attendee';
+
+    UPDATE meeting_participants mp SET role = 'host'
+    FROM meetings m
+    WHERE mp.meeting_id = m.id AND mp.user_id = m.host_id;
+  `,
+  down: `
+    ALTER TABLE meeting_participants DROP COLUMN role;
+  `,
+};
+
+export default migration;
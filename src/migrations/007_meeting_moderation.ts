@@ -0,0 +1,25 @@
+// src/migrations/007_meeting_moderation.ts
+import { Migration } from './types';
+
+const migration: Migration = {
+  version: 7,
+  name: 'meeting_moderation',
+  up: `
+    ALTER TABLE meetings ADD COLUMN is_locked BOOLEAN NOT NULL DEFAULT FALSE;
+    ALTER TABLE meetings ADD COLUMN screen_share_blocked BOOLEAN NOT NULL DEFAULT FALSE;
+
+    ALTER TABLE meeting_participants ADD COLUMN audio_muted BOOLEAN NOT NULL DEFAULT FALSE;
+    ALTER TABLE meeting_participants ADD COLUMN video_off BOOLEAN NOT NULL DEFAULT FALSE;
+    ALTER TABLE meeting_participants ADD COLUMN screen_sharing BOOLEAN NOT NULL DEFAULT FALSE;
+  `,
+  down: `
+    ALTER TABLE meeting_participants DROP COLUMN screen_sharing;
+    ALTER TABLE meeting_participants DROP COLUMN video_off;
+    ALTER TABLE meeting_participants DROP COLUMN audio_muted;
+
+    ALTER TABLE meetings DROP COLUMN screen_share_blocked;
+    ALTER TABLE meetings DROP COLUMN is_locked;
+  `,
+};
+
+export default migration;
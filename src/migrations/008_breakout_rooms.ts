@@ -0,0 +1,30 @@
+// src/migrations/008_breakout_rooms.ts
+import { Migration } from './types';
+
+const migration: Migration = {
+  version: 8,
+  name: 'breakout_rooms',
+  up: `
+    CREATE TABLE breakout_rooms (
+      id SERIAL PRIMARY KEY,
+      meeting_id VARCHAR(36) REFERENCES meetings(id) ON DELETE CASCADE,
+      name VARCHAR(100) NOT NULL,
+      position INTEGER NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX idx_breakout_rooms_meeting ON breakout_rooms(meeting_id);
+
+    ALTER TABLE meeting_participants
+      ADD COLUMN breakout_room_id INTEGER REFERENCES breakout_rooms(id) ON DELETE SET NULL;
+
+    ALTER TABLE meetings ADD COLUMN breakout_status VARCHAR(20) NOT NULL DEFAULT 'none';
+  `,
+  down: `
+    ALTER TABLE meetings DROP COLUMN breakout_status;
+    ALTER TABLE meeting_participants DROP COLUMN breakout_room_id;
+    DROP TABLE IF EXISTS breakout_rooms;
+  `,
+};
+
+export default migration;
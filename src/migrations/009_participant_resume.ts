@@ -0,0 +1,21 @@
+// src/migrations/009_participant_resume.ts
+import { Migration } from './types';
+
+const migration: Migration = {
+  version: 9,
+  name: 'participant_resume',
+  up: `
+    ALTER TABLE meeting_participants ADD COLUMN resume_token_hash VARCHAR(64);
+    ALTER TABLE meeting_participants ADD COLUMN disconnected_at TIMESTAMP;
+
+    CREATE INDEX idx_participants_resume_token ON meeting_participants(resume_token_hash);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_participants_resume_token;
+
+    ALTER TABLE meeting_participants DROP COLUMN disconnected_at;
+    ALTER TABLE meeting_participants DROP COLUMN resume_token_hash;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,75 @@
+// src/migrations/010_participant_devices.ts
+import { Migration } from './types';
+
+// Connections move from meeting_participants (one row per user) to one row per
+// device, so a user can be in the same meeting from several tabs or devices.
+const migration: Migration = {
+  version: 10,
+  name: 'participant_devices',
+  up: `
+    CREATE TABLE participant_devices (
+      id SERIAL PRIMARY KEY,
+      participant_id INTEGER NOT NULL REFERENCES meeting_participants(id) ON DELETE CASCADE,
+      meeting_id VARCHAR(36) NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      socket_id VARCHAR(255) NOT NULL,
+      device_label VARCHAR(100),
+      audio_muted BOOLEAN NOT NULL DEFAULT FALSE,
+      video_off BOOLEAN NOT NULL DEFAULT FALSE,
+      screen_sharing BOOLEAN NOT NULL DEFAULT FALSE,
+      resume_token_hash VARCHAR(64),
+      joined_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      disconnected_at TIMESTAMP,
+      left_at TIMESTAMP
+    );
+
+    CREATE INDEX idx_devices_socket ON participant_devices(socket_id);
+    CREATE INDEX idx_devices_meeting_active ON participant_devices(meeting_id) WHERE left_at IS NULL;
+    CREATE INDEX idx_devices_resume_token ON participant_devices(resume_token_hash);
+
+    INSERT INTO participant_devices
+      (participant_id, meeting_id, user_id, socket_id, audio_muted, video_off, screen_sharing,
+       resume_token_hash, joined_at, disconnected_at)
+    SELECT id, meeting_id, user_id, socket_id, audio_muted, video_off, screen_sharing,
+       resume_token_hash, joined_at, disconnected_at
+    FROM meeting_participants
+    WHERE socket_id IS NOT NULL AND left_at IS NULL;
+
+    DROP INDEX IF EXISTS idx_participants_resume_token;
+    ALTER TABLE meeting_participants
+      DROP COLUMN socket_id,
+      DROP COLUMN audio_muted,
+      DROP COLUMN video_off,
+      DROP COLUMN screen_sharing,
+      DROP COLUMN resume_token_hash,
+      DROP COLUMN disconnected_at;
+  `,
+  down: `
+    ALTER TABLE meeting_participants
+      ADD COLUMN socket_id VARCHAR(255),
+      ADD COLUMN audio_muted BOOLEAN NOT NULL DEFAULT FALSE,
+      ADD COLUMN video_off BOOLEAN NOT NULL DEFAULT FALSE,
+      ADD COLUMN screen_sharing BOOLEAN NOT NULL DEFAULT FALSE,
+      ADD COLUMN resume_token_hash VARCHAR(64),
+      ADD COLUMN disconnected_at TIMESTAMP;
+    CREATE INDEX idx_participants_resume_token ON meeting_participants(resume_token_hash);
+
+    UPDATE meeting_participants mp SET
+      socket_id = d.socket_id,
+      audio_muted = d.audio_muted,
+      video_off = d.video_off,
+      screen_sharing = d.screen_sharing,
+      resume_token_hash = d.resume_token_hash,
+      disconnected_at = d.disconnected_at
+    FROM (
+      SELECT DISTINCT ON (participant_id) * FROM participant_devices
+      WHERE left_at IS NULL
+      ORDER BY participant_id, joined_at DESC
+    ) d
+    WHERE d.participant_id = mp.id;
+
+    DROP TABLE IF EXISTS participant_devices;
+  `,
+};
+
+export default migration;
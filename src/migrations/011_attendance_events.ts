@@ -0,0 +1,26 @@
+// src/migrations/011_attendance_events.ts
+import { Migration } from './types';
+
+// Append-only: rows are never updated, so rejoining keeps the earlier sessions
+const migration: Migration = {
+  version: 11,
+  name: 'attendance_events',
+  up: `
+    CREATE TABLE attendance_events (
+      id BIGSERIAL PRIMARY KEY,
+      meeting_id VARCHAR(36) NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      device_id INTEGER REFERENCES participant_devices(id) ON DELETE SET NULL,
+      event_type VARCHAR(20) NOT NULL
+        CHECK (event_type IN ('join', 'leave', 'kick', 'disconnect', 'reconnect')),
+      occurred_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX idx_attendance_meeting ON attendance_events(meeting_id, occurred_at);
+  `,
+  down: `
+    DROP TABLE IF EXISTS attendance_events;
+  `,
+};
+
+export default migration;
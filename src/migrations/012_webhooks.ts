@@ -0,0 +1,48 @@
+// src/migrations/012_webhooks.ts
+import { Migration } from './types';
+
+const migration: Migration = {
+  version: 12,
+  name: 'webhooks',
+  up: `
+    CREATE TABLE webhook_endpoints (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      url TEXT NOT NULL,
+      secret VARCHAR(64) NOT NULL,
+      event_types TEXT[] NOT NULL,
+      description VARCHAR(255),
+      is_active BOOLEAN NOT NULL DEFAULT TRUE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Doubles as the delivery queue: pending rows with next_attempt_at in the past are due
+    CREATE TABLE webhook_deliveries (
+      id BIGSERIAL PRIMARY KEY,
+      endpoint_id INTEGER NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+      event_id VARCHAR(36) NOT NULL,
+      event_type VARCHAR(50) NOT NULL,
+      payload JSONB NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'succeeded', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      last_attempt_at TIMESTAMP,
+      response_status INTEGER,
+      last_error TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      delivered_at TIMESTAMP
+    );
+
+    CREATE INDEX idx_webhook_endpoints_user ON webhook_endpoints(user_id);
+    CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+    CREATE INDEX idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id, created_at);
+  `,
+  down: `
+    DROP TABLE IF EXISTS webhook_deliveries;
+    DROP TABLE IF EXISTS webhook_endpoints;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,38 @@
+// src/migrations/013_admin_and_bans.ts
+import { Migration } from './types';
+
+const migration: Migration = {
+  version: 13,
+  name: 'admin_and_bans',
+  up: `
+    ALTER TABLE users ADD COLUMN is_admin BOOLEAN NOT NULL DEFAULT FALSE;
+    ALTER TABLE users ADD COLUMN disabled_at TIMESTAMP;
+    ALTER TABLE users ADD COLUMN disabled_reason TEXT;
+
+    -- Bans match by user and by email, so a banned person cannot simply register again
+    CREATE TABLE platform_bans (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      email VARCHAR(255),
+      reason TEXT NOT NULL,
+      created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      expires_at TIMESTAMP,
+      lifted_at TIMESTAMP,
+      lifted_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      CHECK (user_id IS NOT NULL OR email IS NOT NULL)
+    );
+
+    CREATE INDEX idx_bans_user ON platform_bans(user_id) WHERE lifted_at IS NULL;
+    CREATE INDEX idx_bans_email ON platform_bans(LOWER(email)) WHERE lifted_at IS NULL;
+  `,
+  down: `
+    DROP TABLE IF EXISTS platform_bans;
+
+    ALTER TABLE users DROP COLUMN disabled_reason;
+    ALTER TABLE users DROP COLUMN disabled_at;
+    ALTER TABLE users DROP COLUMN is_admin;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,32 @@
+// src/migrations/014_two_factor.ts
+import { Migration } from './types';
+
+// totp_secret is set on enrolment; 2FA is only on once totp_enabled_at is set too
+const migration: Migration = {
+  version: 14,
+  name: 'two_factor',
+  up: `
+    ALTER TABLE users ADD COLUMN totp_secret VARCHAR(64);
+    ALTER TABLE users ADD COLUMN totp_enabled_at TIMESTAMP;
+    ALTER TABLE users ADD COLUMN totp_last_step BIGINT;
+
+    CREATE TABLE two_factor_recovery_codes (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      code_hash VARCHAR(64) NOT NULL,
+      used_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX idx_recovery_codes_user ON two_factor_recovery_codes(user_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS two_factor_recovery_codes;
+
+    ALTER TABLE users DROP COLUMN totp_last_step;
+    ALTER TABLE users DROP COLUMN totp_enabled_at;
+    ALTER TABLE users DROP COLUMN totp_secret;
+  `,
+};
+
+export default migration;
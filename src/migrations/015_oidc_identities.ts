@@ -0,0 +1,44 @@
+// src/migrations/015_oidc_identities.ts
+import { Migration } from './types';
+
+// Accounts created through an OIDC provider have no password until the user sets one
+const migration: Migration = {
+  version: 15,
+  name: 'oidc_identities',
+  up: `
+    ALTER TABLE users ALTER COLUMN password DROP NOT NULL;
+
+    CREATE TABLE user_identities (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      provider VARCHAR(50) NOT NULL,
+      issuer TEXT NOT NULL,
+      subject VARCHAR(255) NOT NULL,
+      email VARCHAR(255),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      last_login_at TIMESTAMP,
+      UNIQUE(issuer, subject)
+    );
+
+    -- One row per authorization request, consumed by the callback
+    CREATE TABLE oidc_login_states (
+      state_hash VARCHAR(64) PRIMARY KEY,
+      provider VARCHAR(50) NOT NULL,
+      code_verifier VARCHAR(128) NOT NULL,
+      nonce VARCHAR(64) NOT NULL,
+      link_user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      expires_at TIMESTAMP NOT NULL
+    );
+
+    CREATE INDEX idx_identities_user ON user_identities(user_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS oidc_login_states;
+    DROP TABLE IF EXISTS user_identities;
+
+    ALTER TABLE users ALTER COLUMN password SET NOT NULL;
+  `,
+};
+
+export default migration;
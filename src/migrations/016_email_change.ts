@@ -0,0 +1,20 @@
+// src/migrations/016_email_change.ts
+import { Migration } from './types';
+
+// A verification token with an email confirms a change to that address instead of the registration
+const migration: Migration = {
+  version: 16,
+  name: 'email_change',
+  up: `
+    ALTER TABLE verification_tokens ADD COLUMN email VARCHAR(255);
+
+    CREATE INDEX idx_verification_user ON verification_tokens(user_id);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_verification_user;
+
+    ALTER TABLE verification_tokens DROP COLUMN email;
+  `,
+};
+
+export default migration;
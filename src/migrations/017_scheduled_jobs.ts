@@ -0,0 +1,23 @@
+// src/migrations/017_scheduled_jobs.ts
+import { Migration } from './types';
+
+// One row per background job. The lease columns make sure only one server instance runs it at a time.
+const migration: Migration = {
+  version: 17,
+  name: 'scheduled_jobs',
+  up: `
+    CREATE TABLE scheduled_jobs (
+      name VARCHAR(100) PRIMARY KEY,
+      locked_by VARCHAR(100),
+      locked_until TIMESTAMP,
+      last_started_at TIMESTAMP,
+      last_finished_at TIMESTAMP,
+      last_error TEXT
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS scheduled_jobs;
+  `,
+};
+
+export default migration;
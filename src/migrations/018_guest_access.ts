@@ -0,0 +1,30 @@
+// src/migrations/018_guest_access.ts
+import { Migration } from './types';
+
+// Guests are users without credentials that belong to a single meeting, so participants,
+// devices, chat and attendance work for them unchanged. They go away with their meeting.
+const migration: Migration = {
+  version: 18,
+  name: 'guest_access',
+  up: `
+    ALTER TABLE meetings ADD COLUMN allow_guests BOOLEAN NOT NULL DEFAULT FALSE;
+
+    ALTER TABLE users ALTER COLUMN email DROP NOT NULL;
+    ALTER TABLE users ADD COLUMN guest_meeting_id VARCHAR(36) REFERENCES meetings(id) ON DELETE CASCADE;
+    ALTER TABLE users ADD CONSTRAINT users_email_or_guest CHECK (email IS NOT NULL OR guest_meeting_id IS NOT NULL);
+
+    CREATE INDEX idx_users_guest_meeting ON users(guest_meeting_id) WHERE guest_meeting_id IS NOT NULL;
+  `,
+  down: `
+    DELETE FROM users WHERE guest_meeting_id IS NOT NULL;
+
+    DROP INDEX IF EXISTS idx_users_guest_meeting;
+    ALTER TABLE users DROP CONSTRAINT users_email_or_guest;
+    ALTER TABLE users DROP COLUMN guest_meeting_id;
+    ALTER TABLE users ALTER COLUMN email SET NOT NULL;
+
+    ALTER TABLE meetings DROP COLUMN allow_guests;
+  `,
+};
+
+export default migration;
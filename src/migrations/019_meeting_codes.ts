@@ -0,0 +1,37 @@
+// src/migrations/019_meeting_codes.ts
+import { Migration } from './types';
+
+// Existing meetings get a random code in the same abc-defg-hij format the server generates
+const migration: Migration = {
+  version: 19,
+  name: 'meeting_codes',
+  up: `
+    ALTER TABLE meetings ADD COLUMN code VARCHAR(12);
+
+    DO $$
+    DECLARE
+      meeting RECORD;
+      letters TEXT;
+      candidate TEXT;
+    BEGIN
+      FOR meeting IN SELECT id FROM meetings WHERE code IS NULL LOOP
+        LOOP
+          SELECT string_agg(substr('abcdefghijklmnopqrstuvwxyz', 1 + floor(random() * 26)::int, 1), '')
+            INTO letters FROM generate_series(1, 10);
+          candidate := substr(letters, 1, 3) || '-' || substr(letters, 4, 4) || '-' || substr(letters, 8, 3);
+          EXIT WHEN NOT EXISTS (SELECT 1 FROM meetings WHERE code = candidate);
+        END LOOP;
+        UPDATE meetings SET code = candidate WHERE id = meeting.id;
+      END LOOP;
+    END $$;
+
+    ALTER TABLE meetings ALTER COLUMN code SET NOT NULL;
+    CREATE UNIQUE INDEX idx_meetings_code ON meetings(code);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_meetings_code;
+    ALTER TABLE meetings DROP COLUMN code;
+  `,
+};
+
+export default migration;
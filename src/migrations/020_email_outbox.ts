@@ -0,0 +1,35 @@
+// src/migrations/020_email_outbox.ts
+import { Migration } from './types';
+
+// Emails are written here in the same transaction as the change that triggers them
+// and sent by a worker, so a failing mail server never loses or blocks them
+const migration: Migration = {
+  version: 20,
+  name: 'email_outbox',
+  up: `
+    CREATE TABLE email_outbox (
+      id BIGSERIAL PRIMARY KEY,
+      template VARCHAR(50) NOT NULL,
+      to_address VARCHAR(255) NOT NULL,
+      subject TEXT NOT NULL,
+      html TEXT NOT NULL,
+      ical_event JSONB,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'sent', 'dead')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      last_attempt_at TIMESTAMP,
+      last_error TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      sent_at TIMESTAMP
+    );
+
+    CREATE INDEX idx_email_outbox_due ON email_outbox(next_attempt_at) WHERE status = 'pending';
+    CREATE INDEX idx_email_outbox_status ON email_outbox(status, created_at);
+  `,
+  down: `
+    DROP TABLE IF EXISTS email_outbox;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,18 @@
+// src/migrations/021_email_localisation.ts
+import { Migration } from './types';
+
+// Language preference used to pick the email copy, and the plain-text part of queued emails
+const migration: Migration = {
+  version: 21,
+  name: 'email_localisation',
+  up: `
+    ALTER TABLE users ADD COLUMN locale VARCHAR(35);
+    ALTER TABLE email_outbox ADD COLUMN text TEXT;
+  `,
+  down: `
+    ALTER TABLE email_outbox DROP COLUMN IF EXISTS text;
+    ALTER TABLE users DROP COLUMN IF EXISTS locale;
+  `,
+};
+
+export default migration;
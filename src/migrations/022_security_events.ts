@@ -0,0 +1,52 @@
+// src/migrations/022_security_events.ts
+import { Migration } from './types';
+
+// Per-account failed login tracking, and an append-only log of security-relevant account events.
+// Rows can only be removed by deleting the account or by the retention job, which sets
+// app.security_events_purge for its transaction.
+const migration: Migration = {
+  version: 22,
+  name: 'security_events',
+  up: `
+    ALTER TABLE users ADD COLUMN failed_login_count INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE users ADD COLUMN last_failed_login_at TIMESTAMP;
+    ALTER TABLE users ADD COLUMN locked_until TIMESTAMP;
+
+    CREATE TABLE security_events (
+      id BIGSERIAL PRIMARY KEY,
+      user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+      event_type VARCHAR(50) NOT NULL,
+      ip_address VARCHAR(45),
+      user_agent TEXT,
+      details JSONB NOT NULL DEFAULT '{}',
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX idx_security_events_user ON security_events(user_id, created_at DESC);
+    CREATE INDEX idx_security_events_created ON security_events(created_at);
+
+    CREATE FUNCTION security_events_append_only() RETURNS trigger AS $$
+    BEGIN
+      -- Deletes cascading from a deleted user run inside the foreign key trigger
+      IF TG_OP = 'DELETE' AND (pg_trigger_depth() > 1
+          OR current_setting('app.security_events_purge', true) = 'on') THEN
+        RETURN OLD;
+      END IF;
+      RAISE EXCEPTION 'security_events is append-only';
+    END;
+    $$ LANGUAGE plpgsql;
+
+    CREATE TRIGGER security_events_append_only
+      BEFORE UPDATE OR DELETE ON security_events
+      FOR EACH ROW EXECUTE FUNCTION security_events_append_only();
+  `,
+  down: `
+    DROP TABLE IF EXISTS security_events;
+    DROP FUNCTION IF EXISTS security_events_append_only();
+    ALTER TABLE users DROP COLUMN IF EXISTS locked_until;
+    ALTER TABLE users DROP COLUMN IF EXISTS last_failed_login_at;
+    ALTER TABLE users DROP COLUMN IF EXISTS failed_login_count;
+  `,
+};
+
+export default migration;
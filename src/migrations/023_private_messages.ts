@@ -0,0 +1,18 @@
+// src/migrations/023_private_messages.ts
+import { Migration } from './types';
+
+// Private messages were recognised by their recipient_id, which is set to NULL when the recipient's
+// account is deleted, turning their direct messages public. Store the flag explicitly instead.
+const migration: Migration = {
+  version: 23,
+  name: 'private_messages',
+  up: `
+    ALTER TABLE meeting_messages ADD COLUMN is_private BOOLEAN NOT NULL DEFAULT FALSE;
+    UPDATE meeting_messages SET is_private = TRUE WHERE recipient_id IS NOT NULL;
+  `,
+  down: `
+    ALTER TABLE meeting_messages DROP COLUMN IF EXISTS is_private;
+  `,
+};
+
+export default migration;
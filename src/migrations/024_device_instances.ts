@@ -0,0 +1,18 @@
+// src/migrations/024_device_instances.ts
+import { Migration } from './types';
+
+// The server instance holding each device's socket, so an instance only reconciles its own devices
+const migration: Migration = {
+  version: 24,
+  name: 'device_instances',
+  up: `
+    ALTER TABLE participant_devices ADD COLUMN instance_id VARCHAR(255);
+    CREATE INDEX idx_devices_instance_active ON participant_devices(instance_id) WHERE left_at IS NULL;
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_devices_instance_active;
+    ALTER TABLE participant_devices DROP COLUMN IF EXISTS instance_id;
+  `,
+};
+
+export default migration;
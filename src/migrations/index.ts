@@ -0,0 +1,54 @@
+// src/migrations/index.ts
+import { Migration } from './types';
+import initialSchema from './001_initial_schema';
+import meetingLobby from './002_meeting_lobby';
+import meetingAccess from './003_meeting_access';
+import meetingSchedule from './004_meeting_schedule';
+import meetingMessages from './005_meeting_messages';
+import participantRoles from './006_participant_roles';
+import meetingModeration from './007_meeting_moderation';
+import breakoutRooms from './008_breakout_rooms';
+import participantResume from './009_participant_resume';
+import participantDevices from './010_participant_devices';
+import attendanceEvents from './011_attendance_events';
+import webhooks from './012_webhooks';
+import adminAndBans from './013_admin_and_bans';
+import twoFactor from './014_two_factor';
+import oidcIdentities from './015_oidc_identities';
+import emailChange from './016_email_change';
+import scheduledJobs from './017_scheduled_jobs';
+import guestAccess from './018_guest_access';
+import meetingCodes from './019_meeting_codes';
+import emailOutbox from './020_email_outbox';
+import emailLocalisation from './021_email_localisation';
+import securityEvents from './022_security_events';
+import privateMessages from './023_private_messages';
+import deviceInstances from './024_device_instances';
+
+// Register new migrations here, in version order
+export const migrations: Migration[] = [
+  initialSchema,
+  meetingLobby,
+  meetingAccess,
+  meetingSchedule,
+  meetingMessages,
+  participantRoles,
+  meetingModeration,
+  breakoutRooms,
+  participantResume,
+  participantDevices,
+  attendanceEvents,
+  webhooks,
+  adminAndBans,
+  twoFactor,
+  oidcIdentities,
+  emailChange,
+  scheduledJobs,
+  guestAccess,
+  meetingCodes,
+  emailOutbox,
+  emailLocalisation,
+  securityEvents,
+  privateMessages,
+  deviceInstances,
+];
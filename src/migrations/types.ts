@@ -0,0 +1,7 @@
+// src/migrations/types.ts
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+}
@@ -0,0 +1,280 @@
+// src/routes/account.ts
+import express, { Response } from 'express';
+import bcrypt from 'bcryptjs';
+import { v4 as uuidv4 } from 'uuid';
+import { query, transaction } from '../config/database';
+import {
+  changeEmailValidation,
+  changePasswordValidation,
+  deleteAccountValidation,
+  updateProfileValidation,
+  validateRequest,
+} from '../middleware/validator';
+import { authLimiter } from '../middleware/rateLimiter';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { accountBlockMessage, checkPassword, confirmPassword, isEmailBanned } from '../utils/accounts';
+import { buildAccountExport } from '../utils/accountExport';
+import { queueEmail } from '../utils/emailOutbox';
+import { emailChangeEmail } from '../utils/emailTemplates';
+import { revokeAllSessions } from '../utils/sessions';
+import { listSecurityEvents, recordSecurityEvent, requestContext } from '../utils/securityEvents';
+import { endHostedMeetings } from '../utils/meetings';
+import { queryInt } from '../utils/numbers';
+import { disconnectSessions, disconnectUser } from '../sockets/admin';
+import { SignalingServer } from '../types/socket';
+
+const router = express.Router();
+
+router.use(authenticateToken);
+
+interface AccountRow {
+  id: number;
+  email: string;
+  name: string;
+  locale: string | null;
+  is_verified: boolean;
+  has_password: boolean;
+  totp_enabled_at: Date | null;
+  pending_email: string | null;
+  created_at: Date;
+}
+
+const formatAccount = (user: AccountRow) => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  locale: user.locale,
+  isVerified: user.is_verified,
+  hasPassword: user.has_password,
+  twoFactorEnabled: Boolean(user.totp_enabled_at),
+  pendingEmail: user.pending_email,
+  createdAt: user.created_at,
+});
+
+const ACCOUNT_COLUMNS = `u.id, u.email, u.name, u.locale, u.is_verified, u.password IS NOT NULL AS has_password,
+  u.totp_enabled_at, u.created_at,
+  (SELECT email FROM verification_tokens
+   WHERE user_id = u.id AND email IS NOT NULL AND expires_at > NOW()
+   ORDER BY created_at DESC LIMIT 1) AS pending_email`;
+
+// Get My Account
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await query(`SELECT ${ACCOUNT_COLUMNS} FROM users u WHERE u.id = $1`, [req.userId]);
+
+    res.json({ account: formatAccount(result.rows[0]) });
+  } catch (error) {
+    console.error('Get account error:', error);
+    res.status(500).json({ error: 'Failed to get account' });
+  }
+});
+
+// Update Profile
+// locale is the language emails are sent in; null goes back to the default
+router.patch('/', updateProfileValidation, validateRequest, async (req: AuthRequest, res: Response) => {
+  try {
+    const { name, locale } = req.body;
+
+    await query(
+      `UPDATE users SET name = COALESCE($1, name), locale = CASE WHEN $3 THEN $2 ELSE locale END, updated_at = NOW()
+       WHERE id = $4`,
+      [name ?? null, locale ?? null, locale !== undefined, req.userId]
+    );
+    const result = await query(`SELECT ${ACCOUNT_COLUMNS} FROM users u WHERE u.id = $1`, [req.userId]);
+
+    res.json({ message: 'Profile updated successfully', account: formatAccount(result.rows[0]) });
+  } catch (error) {
+    console.error('Update profile error:', error);
+    res.status(500).json({ error: 'Failed to update profile' });
+  }
+});
+
+// Change Password
+// Accounts created through OIDC have no password yet and can set one without currentPassword.
+// Every other session is logged out.
+router.post(
+  '/password',
+  authLimiter,
+  changePasswordValidation,
+  validateRequest,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { currentPassword, newPassword } = req.body;
+
+      const result = await query('SELECT password IS NOT NULL AS has_password FROM users WHERE id = $1', [
+        req.userId,
+      ]);
+
+      if (result.rows[0].has_password && !(currentPassword && (await checkPassword(req.userId!, currentPassword)))) {
+        return res.status(401).json({ error: 'Current password is incorrect' });
+      }
+
+      const hashedPassword = await bcrypt.hash(newPassword, 10);
+
+      await query('UPDATE users SET password = $1, updated_at = NOW() WHERE id = $2', [hashedPassword, req.userId]);
+      const revoked = await revokeAllSessions(req.userId!, req.sessionId);
+      disconnectSessions(req.app.get('io') as SignalingServer, req.userId!, 'Your password was changed', {
+        except: req.sessionId,
+      });
+      await recordSecurityEvent(req.userId!, 'password_changed', requestContext(req));
+
+      res.json({ message: 'Password changed successfully', revokedSessions: revoked });
+    } catch (error) {
+      console.error('Change password error:', error);
+      res.status(500).json({ error: 'Failed to change password' });
+    }
+  }
+);
+
+// Change Email
+// The new address takes over only once its verification link is opened; until then the old one stays
+router.post(
+  '/email',
+  authLimiter,
+  changeEmailValidation,
+  validateRequest,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { newEmail, password } = req.body;
+
+      const confirmation = await confirmPassword(req.userId!, password);
+      if (!confirmation.ok) {
+        return res.status(confirmation.status).json({ error: confirmation.error });
+      }
+
+      if (newEmail === req.userEmail) {
+        return res.status(400).json({ error: 'This is already your email' });
+      }
+
+      const existingUser = await query('SELECT id FROM users WHERE email = $1', [newEmail]);
+      if (existingUser.rows.length > 0) {
+        return res.status(400).json({ error: 'Email already registered' });
+      }
+
+      if (await isEmailBanned(newEmail)) {
+        return res.status(403).json({ error: accountBlockMessage('banned') });
+      }
+
+      const user = await query('SELECT locale FROM users WHERE id = $1', [req.userId]);
+      const verificationToken = uuidv4();
+      const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
+
+      await transaction(async (client) => {
+        // Only the latest requested address can be confirmed
+        await client.query('DELETE FROM verification_tokens WHERE user_id = $1 AND email IS NOT NULL', [req.userId]);
+
+        await client.query(
+          'INSERT INTO verification_tokens (user_id, token, expires_at, email) VALUES ($1, $2, $3, $4)',
+          [req.userId, verificationToken, expiresAt, newEmail]
+        );
+
+        await queueEmail(emailChangeEmail(newEmail, verificationToken, user.rows[0].locale), client);
+      });
+
+      res.json({
+        message: 'Check your new email address to confirm the change.',
+        pendingEmail: newEmail,
+      });
+    } catch (error) {
+      console.error('Change email error:', error);
+      res.status(500).json({ error: 'Failed to change email' });
+    }
+  }
+);
+
+// My Security Events
+// Recent sign-ins, failed attempts, lockouts, password and 2FA changes, newest first
+router.get('/security-events', async (req: AuthRequest, res: Response) => {
+  try {
+    const limit = queryInt(req.query.limit, 50, 200);
+    const events = await listSecurityEvents(req.userId!, limit);
+
+    res.json({
+      events: events.map((event) => ({
+        id: Number(event.id),
+        type: event.event_type,
+        ipAddress: event.ip_address,
+        userAgent: event.user_agent,
+        details: event.details,
+        createdAt: event.created_at,
+      })),
+    });
+  } catch (error) {
+    console.error('Get security events error:', error);
+    res.status(500).json({ error: 'Failed to get security events' });
+  }
+});
+
+// Cancel a Pending Email Change
+router.delete('/email', async (req: AuthRequest, res: Response) => {
+  try {
+    await query('DELETE FROM verification_tokens WHERE user_id = $1 AND email IS NOT NULL', [req.userId]);
+    res.json({ message: 'Email change cancelled' });
+  } catch (error) {
+    console.error('Cancel email change error:', error);
+    res.status(500).json({ error: 'Failed to cancel email change' });
+  }
+});
+
+// Export My Data
+// Profile, sign-in methods, sessions, hosted meetings with their attendance, own attendance and messages
+router.get('/export', authLimiter, async (req: AuthRequest, res: Response) => {
+  try {
+    const data = await buildAccountExport(req.userId!);
+
+    if (!data) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader('Content-Disposition', `attachment; filename="confidex-export-${date}.json"`);
+    res.json(data);
+  } catch (error) {
+    console.error('Export account error:', error);
+    res.status(500).json({ error: 'Failed to export account data' });
+  }
+});
+
+// Delete My Account
+// Meetings the user hosts are deleted with the account. Live ones are ended first, so everyone in
+// them receives meeting-ended instead of a call that silently stops working.
+router.delete(
+  '/',
+  authLimiter,
+  deleteAccountValidation,
+  validateRequest,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { password, confirmEmail } = req.body;
+
+      const result = await query('SELECT email, password IS NOT NULL AS has_password FROM users WHERE id = $1', [
+        req.userId,
+      ]);
+      const user = result.rows[0];
+
+      const confirmed = user.has_password
+        ? Boolean(password) && (await checkPassword(req.userId!, password))
+        : Boolean(confirmEmail) && confirmEmail === user.email;
+      if (!confirmed) {
+        return res.status(401).json({
+          error: user.has_password ? 'Incorrect password' : 'Confirm with the email address of your account',
+        });
+      }
+
+      const io = req.app.get('io') as SignalingServer;
+
+      const endedMeetings = await endHostedMeetings(io, req.userId!, req.userId!, 'The host deleted their account');
+
+      await query('DELETE FROM users WHERE id = $1', [req.userId]);
+
+      disconnectUser(io, req.userId!, 'Account has been deleted');
+
+      res.json({ message: 'Account deleted successfully', endedMeetings });
+    } catch (error) {
+      console.error('Delete account error:', error);
+      res.status(500).json({ error: 'Failed to delete account' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,406 @@
+// src/routes/admin.ts
+import express, { Response } from 'express';
+import { query } from '../config/database';
+import { authenticateToken, AuthRequest, requireAdmin } from '../middleware/auth';
+import { createBanValidation, disableUserValidation, validateRequest } from '../middleware/validator';
+import { accountBlockMessage, createBan, formatBan, liftBan, setUserDisabled } from '../utils/accounts';
+import { endHostedMeetings, endMeeting } from '../utils/meetings';
+import { clearFailedLogins } from '../utils/loginProtection';
+import { EMAIL_STATUSES, listOutboxEmails, OutboxEmailRow, retryEmail } from '../utils/emailOutbox';
+import { getCounters, renderPrometheusMetrics } from '../utils/metrics';
+import { nonNegativeInt, parseId, queryInt } from '../utils/numbers';
+import { disconnectMeeting, disconnectUser, getLiveMeetingCounts } from '../sockets/admin';
+import { SignalingServer } from '../types/socket';
+
+const router = express.Router();
+
+// Every admin route requires a signed-in administrator
+router.use(authenticateToken, requireAdmin);
+
+interface UserRow {
+  id: number;
+  email: string;
+  name: string;
+  is_verified: boolean;
+  is_admin: boolean;
+  disabled_at: Date | null;
+  disabled_reason: string | null;
+  created_at: Date;
+}
+
+const formatUser = (user: UserRow) => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  isVerified: user.is_verified,
+  isAdmin: user.is_admin,
+  disabledAt: user.disabled_at,
+  disabledReason: user.disabled_reason,
+  createdAt: user.created_at,
+});
+
+const formatOutboxEmail = (email: OutboxEmailRow) => ({
+  id: email.id,
+  template: email.template,
+  to: email.to_address,
+  subject: email.subject,
+  status: email.status,
+  attempts: email.attempts,
+  nextAttemptAt: email.status === 'pending' ? email.next_attempt_at : null,
+  lastAttemptAt: email.last_attempt_at,
+  lastError: email.last_error,
+  createdAt: email.created_at,
+  sentAt: email.sent_at,
+});
+
+// List and Search Users
+// ?search= matches email or name, ?limit= and ?offset= page through the results
+router.get('/users', async (req: AuthRequest, res: Response) => {
+  try {
+    const search = typeof req.query.search === 'string' ? req.query.search.trim() : '';
+    const limit = queryInt(req.query.limit, 50, 200);
+    const offset = nonNegativeInt(req.query.offset, 0);
+    const pattern = search ? `%${search.replace(/[\\%_]/g, '\\$&')}%` : null;
+
+    const result = await query(
+      `SELECT id, email, name, is_verified, is_admin, disabled_at, disabled_reason, created_at,
+         COUNT(*) OVER () AS total
+       FROM users
+       WHERE guest_meeting_id IS NULL AND ($1::text IS NULL OR email ILIKE $1 OR name ILIKE $1)
+       ORDER BY created_at DESC, id DESC
+       LIMIT $2 OFFSET $3`,
+      [pattern, limit, offset]
+    );
+
+    res.json({
+      users: result.rows.map(formatUser),
+      total: result.rows.length ? parseInt(result.rows[0].total, 10) : 0,
+    });
+  } catch (error) {
+    console.error('Admin list users error:', error);
+    res.status(500).json({ error: 'Failed to get users' });
+  }
+});
+
+// Get User
+router.get('/users/:userId', async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await query(
+      `SELECT u.*,
+         (SELECT COUNT(*) FROM meetings WHERE host_id = u.id) AS hosted_meetings,
+         (SELECT COUNT(*) FROM user_sessions WHERE user_id = u.id AND revoked_at IS NULL AND expires_at > NOW())
+           AS active_sessions
+       FROM users u WHERE u.id = $1`,
+      [parseId(req.params.userId)]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const user = result.rows[0];
+    const bans = await query(
+      'SELECT * FROM platform_bans WHERE user_id = $1 OR LOWER(email) = LOWER($2) ORDER BY created_at DESC',
+      [user.id, user.email]
+    );
+
+    res.json({
+      user: {
+        ...formatUser(user),
+        hostedMeetings: parseInt(user.hosted_meetings, 10),
+        activeSessions: parseInt(user.active_sessions, 10),
+        failedLoginCount: user.failed_login_count,
+        lockedUntil: user.locked_until,
+      },
+      bans: bans.rows.map(formatBan),
+    });
+  } catch (error) {
+    console.error('Admin get user error:', error);
+    res.status(500).json({ error: 'Failed to get user' });
+  }
+});
+
+// Force-verify Email
+router.post('/users/:userId/verify', async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await query(
+      'UPDATE users SET is_verified = TRUE, updated_at = NOW() WHERE id = $1 RETURNING id',
+      [parseId(req.params.userId)]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    await query('DELETE FROM verification_tokens WHERE user_id = $1', [result.rows[0].id]);
+
+    res.json({ message: 'User verified successfully' });
+  } catch (error) {
+    console.error('Admin verify user error:', error);
+    res.status(500).json({ error: 'Failed to verify user' });
+  }
+});
+
+// Disable User (ends their sessions and connections)
+router.post(
+  '/users/:userId/disable',
+  disableUserValidation,
+  validateRequest,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = parseId(req.params.userId);
+
+      if (userId === req.userId) {
+        return res.status(400).json({ error: 'You cannot disable your own account' });
+      }
+
+      if (!(await setUserDisabled(userId, true, req.body.reason))) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      disconnectUser(req.app.get('io') as SignalingServer, userId, accountBlockMessage('disabled'));
+
+      res.json({ message: 'User disabled successfully' });
+    } catch (error) {
+      console.error('Admin disable user error:', error);
+      res.status(500).json({ error: 'Failed to disable user' });
+    }
+  }
+);
+
+// Re-enable User
+router.post('/users/:userId/enable', async (req: AuthRequest, res: Response) => {
+  try {
+    if (!(await setUserDisabled(parseId(req.params.userId), false))) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json({ message: 'User enabled successfully' });
+  } catch (error) {
+    console.error('Admin enable user error:', error);
+    res.status(500).json({ error: 'Failed to enable user' });
+  }
+});
+
+// Unlock User (clears failed login attempts and any lockout)
+router.post('/users/:userId/unlock', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = parseId(req.params.userId);
+    const result = await query('SELECT id FROM users WHERE id = $1', [userId]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    await clearFailedLogins(userId);
+
+    res.json({ message: 'User unlocked successfully' });
+  } catch (error) {
+    console.error('Admin unlock user error:', error);
+    res.status(500).json({ error: 'Failed to unlock user' });
+  }
+});
+
+// Delete User (their meetings, sessions and webhooks go with them)
+router.delete('/users/:userId', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = parseId(req.params.userId);
+
+    if (userId === req.userId) {
+      return res.status(400).json({ error: 'You cannot delete your own account' });
+    }
+
+    const io = req.app.get('io') as SignalingServer;
+    const endedMeetings = await endHostedMeetings(io, userId, req.userId!, 'The host\'s account was deleted');
+
+    const result = await query('DELETE FROM users WHERE id = $1 RETURNING id', [userId]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    disconnectUser(io, userId, 'Account has been deleted');
+
+    res.json({ message: 'User deleted successfully', endedMeetings });
+  } catch (error) {
+    console.error('Admin delete user error:', error);
+    res.status(500).json({ error: 'Failed to delete user' });
+  }
+});
+
+// List Live Meetings
+// Counts come from the connected sockets, so they reflect who is actually on the call
+router.get('/meetings/live', async (req: AuthRequest, res: Response) => {
+  try {
+    const live = getLiveMeetingCounts(req.app.get('io') as SignalingServer);
+
+    const result = await query(
+      `SELECT m.id, m.title, m.status, m.created_at, m.host_id, u.name AS host_name, u.email AS host_email
+       FROM meetings m
+       JOIN users u ON u.id = m.host_id
+       WHERE m.status = 'active' OR m.id = ANY($1::varchar[])
+       ORDER BY m.created_at DESC`,
+      [[...live.keys()]]
+    );
+
+    res.json({
+      meetings: result.rows.map((m) => ({
+        id: m.id,
+        title: m.title,
+        status: m.status,
+        host: { id: m.host_id, name: m.host_name, email: m.host_email },
+        participants: live.get(m.id)?.users.size ?? 0,
+        connections: live.get(m.id)?.connections ?? 0,
+        createdAt: m.created_at,
+      })),
+    });
+  } catch (error) {
+    console.error('Admin live meetings error:', error);
+    res.status(500).json({ error: 'Failed to get live meetings' });
+  }
+});
+
+// Force-end Meeting (disconnects everyone in it)
+router.post('/meetings/:meetingId/end', async (req: AuthRequest, res: Response) => {
+  try {
+    const meetingId = req.params.meetingId as string;
+
+    if (!(await endMeeting(meetingId, req.userId!))) {
+      return res.status(404).json({ error: 'Meeting not found' });
+    }
+
+    const disconnected = disconnectMeeting(
+      req.app.get('io') as SignalingServer,
+      meetingId,
+      'The meeting was ended by an administrator'
+    );
+
+    res.json({ message: 'Meeting ended successfully', disconnected });
+  } catch (error) {
+    console.error('Admin end meeting error:', error);
+    res.status(500).json({ error: 'Failed to end meeting' });
+  }
+});
+
+// List Bans
+// ?active=true leaves out lifted and expired bans
+router.get('/bans', async (req: AuthRequest, res: Response) => {
+  try {
+    const activeOnly = req.query.active === 'true';
+
+    const result = await query(
+      `SELECT * FROM platform_bans
+       WHERE NOT $1 OR (lifted_at IS NULL AND (expires_at IS NULL OR expires_at > NOW()))
+       ORDER BY created_at DESC
+       LIMIT 500`,
+      [activeOnly]
+    );
+
+    res.json({ bans: result.rows.map(formatBan) });
+  } catch (error) {
+    console.error('Admin list bans error:', error);
+    res.status(500).json({ error: 'Failed to get bans' });
+  }
+});
+
+// Ban a User or Email
+router.post('/bans', createBanValidation, validateRequest, async (req: AuthRequest, res: Response) => {
+  try {
+    const { userId, email, reason, expiresAt } = req.body;
+
+    if (userId === req.userId || (email && email === req.userEmail)) {
+      return res.status(400).json({ error: 'You cannot ban yourself' });
+    }
+
+    if (userId) {
+      const user = await query('SELECT id FROM users WHERE id = $1', [userId]);
+      if (user.rows.length === 0) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+    }
+
+    const { ban, userIds } = await createBan({
+      userId: userId || null,
+      email: email || null,
+      reason,
+      expiresAt: expiresAt ? new Date(expiresAt) : null,
+      createdBy: req.userId!,
+    });
+
+    const io = req.app.get('io') as SignalingServer;
+    for (const bannedUserId of userIds) {
+      disconnectUser(io, bannedUserId, accountBlockMessage('banned'));
+    }
+
+    res.status(201).json({ ban: formatBan(ban) });
+  } catch (error) {
+    console.error('Admin create ban error:', error);
+    res.status(500).json({ error: 'Failed to create ban' });
+  }
+});
+
+// Lift a Ban
+router.delete('/bans/:banId', async (req: AuthRequest, res: Response) => {
+  try {
+    if (!(await liftBan(parseId(req.params.banId), req.userId!))) {
+      return res.status(404).json({ error: 'Ban not found' });
+    }
+
+    res.json({ message: 'Ban lifted successfully' });
+  } catch (error) {
+    console.error('Admin lift ban error:', error);
+    res.status(500).json({ error: 'Failed to lift ban' });
+  }
+});
+
+// Get Metrics
+// Counters of this server instance since it started; ?format=prometheus returns the text format
+router.get('/metrics', async (req: AuthRequest, res: Response) => {
+  try {
+    if (req.query.format === 'prometheus') {
+      return res.type('text/plain; version=0.0.4').send(renderPrometheusMetrics());
+    }
+
+    res.json({ counters: getCounters() });
+  } catch (error) {
+    console.error('Admin metrics error:', error);
+    res.status(500).json({ error: 'Failed to get metrics' });
+  }
+});
+
+// List Outgoing Emails
+// ?status=pending|sent|dead filters the outbox, newest first
+router.get('/emails', async (req: AuthRequest, res: Response) => {
+  try {
+    const status = typeof req.query.status === 'string' ? req.query.status : null;
+    if (status && !(EMAIL_STATUSES as readonly string[]).includes(status)) {
+      return res.status(400).json({ error: `status must be one of: ${EMAIL_STATUSES.join(', ')}` });
+    }
+    const limit = queryInt(req.query.limit, 50, 200);
+
+    const emails = await listOutboxEmails(status, limit);
+
+    res.json({ emails: emails.map(formatOutboxEmail) });
+  } catch (error) {
+    console.error('Admin list emails error:', error);
+    res.status(500).json({ error: 'Failed to get emails' });
+  }
+});
+
+// Retry a Dead Email
+router.post('/emails/:emailId/retry', async (req: AuthRequest, res: Response) => {
+  try {
+    const email = await retryEmail(parseId(req.params.emailId));
+
+    if (!email) {
+      return res.status(404).json({ error: 'No dead email with this ID' });
+    }
+
+    res.json({ message: 'Email queued again', email });
+  } catch (error) {
+    console.error('Admin retry email error:', error);
+    res.status(500).json({ error: 'Failed to retry email' });
+  }
+});
+
+export default router;
@@ -1,21 +1,60 @@
 // src/routes/auth.ts
 import express, { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt, { SignOptions } from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
-import { query } from '../config/database';
-import { sendVerificationEmail, sendPasswordResetEmail } from '../config/email';
+import { query, transaction } from '../config/database';
 import {
   registerValidation,
   loginValidation,
   passwordResetRequestValidation,
+  resendVerificationValidation,
   passwordResetValidation,
+  refreshTokenValidation,
+  loginTwoFactorValidation,
+  passwordConfirmationValidation,
+  twoFactorCodeValidation,
   validateRequest,
 } from '../middleware/validator';
-import { authLimiter } from '../middleware/rateLimiter';
+import { authLimiter, loginLimiter, refreshLimiter } from '../middleware/rateLimiter';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import {
+  createSession,
+  listActiveSessions,
+  revokeAllSessions,
+  revokeSession,
+  rotateRefreshToken,
+  signLoginChallenge,
+  verifyLoginChallenge,
+} from '../utils/sessions';
+import {
+  confirmTwoFactorEnrolment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  startTwoFactorEnrolment,
+  verifySecondFactor,
+} from '../utils/twoFactor';
+import { emitWebhookEvent } from '../utils/webhooks';
+import { queueEmail } from '../utils/emailOutbox';
+import { passwordResetEmail, verificationEmail } from '../utils/emailTemplates';
+import { recordSecurityEvent, requestContext } from '../utils/securityEvents';
+import { checkLoginAllowed, clearFailedLogins, LoginGate, recordFailedLogin } from '../utils/loginProtection';
+import { accountBlockMessage, confirmPassword, getAuthUser, hasPassword, isEmailBanned } from '../utils/accounts';
+import { disconnectSessions } from '../sockets/admin';
+import { SignalingServer } from '../types/socket';
 
 const router = express.Router();
 
+const rejectThrottledLogin = (res: Response, gate: Exclude<LoginGate, { allowed: true }>) => {
+  res.set('Retry-After', String(gate.retryAfterSeconds));
+  return res.status(429).json({
+    error: gate.locked
+      ? 'Account temporarily locked after too many failed login attempts. Try again later or reset your password.'
+      : 'Too many failed login attempts, please wait before trying again',
+    retryAfter: gate.retryAfterSeconds,
+  });
+};
+
 // Register
 router.post(
   '/register',
@@ -24,31 +63,38 @@ router.post(
   validateRequest,
   async (req: Request, res: Response) => {
     try {
-      const { email, password, name } = req.body;
+      const { email, password, name, locale } = req.body;
 
       const existingUser = await query('SELECT id FROM users WHERE email = $1', [email]);
       if (existingUser.rows.length > 0) {
         return res.status(400).json({ error: 'Email already registered' });
       }
 
+      if (await isEmailBanned(email)) {
+        return res.status(403).json({ error: accountBlockMessage('banned') });
+      }
+
       const hashedPassword = await bcrypt.hash(password, 10);
 
-      const result = await query(
-        'INSERT INTO users (email, password, name) VALUES ($1, $2, $3) RETURNING id, email, name',
-        [email, hashedPassword, name]
-      );
+      // The user, its token and the email are stored together or not at all
+      const user = await transaction(async (client) => {
+        const result = await client.query(
+          'INSERT INTO users (email, password, name, locale) VALUES ($1, $2, $3, $4) RETURNING id, email, name',
+          [email, hashedPassword, name, locale || null]
+        );
 
-      const user = result.rows[0];
+        const verificationToken = uuidv4();
+        const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
 
-      const verificationToken = uuidv4();
-      const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
+        await client.query(
+          'INSERT INTO verification_tokens (user_id, token, expires_at) VALUES ($1, $2, $3)',
+          [result.rows[0].id, verificationToken, expiresAt]
+        );
 
-      await query(
-        'INSERT INTO verification_tokens (user_id, token, expires_at) VALUES ($1, $2, $3)',
-        [user.id, verificationToken, expiresAt]
-      );
+        await queueEmail(verificationEmail(email, verificationToken, locale), client);
 
-      await sendVerificationEmail(email, verificationToken);
+        return result.rows[0];
+      });
 
       res.status(201).json({
         message: 'Registration successful! Please check your email to verify your account.',
@@ -67,7 +113,7 @@ router.get('/verify-email/:token', async (req: Request, res: Response) => {
     const { token } = req.params;
 
     const result = await query(
-      'SELECT user_id, expires_at FROM verification_tokens WHERE token = $1',
+      'SELECT user_id, expires_at, email FROM verification_tokens WHERE token = $1',
       [token]
     );
 
@@ -75,25 +121,89 @@ router.get('/verify-email/:token', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid verification token' });
     }
 
-    const { user_id, expires_at } = result.rows[0];
+    const { user_id, expires_at, email } = result.rows[0];
 
     if (new Date() > new Date(expires_at)) {
       return res.status(400).json({ error: 'Verification token expired' });
     }
 
+    // Tokens with an email confirm an address change requested from /api/account/email
+    if (email) {
+      await query('DELETE FROM verification_tokens WHERE token = $1', [token]);
+
+      const changed = await query(
+        `UPDATE users SET email = $1, is_verified = TRUE, updated_at = NOW()
+         WHERE id = $2 AND NOT EXISTS (SELECT 1 FROM users WHERE email = $1 AND id <> $2)
+         RETURNING id`,
+        [email, user_id]
+      );
+
+      if (changed.rows.length === 0) {
+        return res.status(400).json({ error: 'Email already registered' });
+      }
+
+      await recordSecurityEvent(user_id, 'email_changed', requestContext(req), { email });
+
+      return res.json({ message: 'Email changed successfully! Use the new address to login.' });
+    }
+
     await query('UPDATE users SET is_verified = TRUE WHERE id = $1', [user_id]);
     await query('DELETE FROM verification_tokens WHERE token = $1', [token]);
 
+    await recordSecurityEvent(user_id, 'email_verified', requestContext(req));
+    await emitWebhookEvent(user_id, 'user.verified', { userId: user_id });
+
     res.json({ message: 'Email verified successfully! You can now login.' });
   } catch (error) {
     console.error('Verification error:', error);
     res.status(500).json({ error: 'Verification failed' });
   }
 });
+
+// Resend Verification Email
+// The answer is the same whether or not the address belongs to an unverified account. Earlier
+// registration links stop working, so only the latest email can be used.
+router.post(
+  '/resend-verification',
+  authLimiter,
+  resendVerificationValidation,
+  validateRequest,
+  async (req: Request, res: Response) => {
+    try {
+      const { email } = req.body;
+
+      const result = await query('SELECT id, locale FROM users WHERE email = $1 AND is_verified = FALSE', [email]);
+
+      if (result.rows.length > 0) {
+        const { id: userId, locale } = result.rows[0];
+        const verificationToken = uuidv4();
+        const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
+
+        await transaction(async (client) => {
+          await client.query('DELETE FROM verification_tokens WHERE user_id = $1 AND email IS NULL', [userId]);
+          await client.query(
+            'INSERT INTO verification_tokens (user_id, token, expires_at) VALUES ($1, $2, $3)',
+            [userId, verificationToken, expiresAt]
+          );
+
+          await queueEmail(verificationEmail(email, verificationToken, locale), client);
+        });
+      }
+
+      res.json({ message: 'If the account exists and is not verified yet, a new verification link has been sent' });
+    } catch (error) {
+      console.error('Resend verification error:', error);
+      res.status(500).json({ error: 'Request failed' });
+    }
+  }
+);
+
 // Login
+// Wrong passwords count against the account: after a few, each attempt has to wait longer,
+// and LOGIN_MAX_FAILURES of them lock it for LOGIN_LOCKOUT_MINUTES
 router.post(
   '/login',
-  authLimiter,
+  loginLimiter,
   loginValidation,
   validateRequest,
   async (req: Request, res: Response) => {
@@ -101,38 +211,53 @@ router.post(
       const { email, password } = req.body;
 
       const result = await query(
-        'SELECT id, email, password, name, is_verified FROM users WHERE email = $1',
+        'SELECT id, email, password, name, is_verified, totp_enabled_at FROM users WHERE email = $1',
         [email]
       );
 
       if (result.rows.length === 0) {
+        await recordSecurityEvent(null, 'login_failed', requestContext(req), { email, reason: 'unknown_email' });
         return res.status(401).json({ error: 'Invalid credentials' });
       }
 
       const user = result.rows[0];
 
-      const validPassword = await bcrypt.compare(password, user.password);
+      const gate = await checkLoginAllowed(user.id);
+      if (!gate.allowed) {
+        return rejectThrottledLogin(res, gate);
+      }
+
+      // Accounts created through OIDC have no password until one is set with a reset
+      const validPassword = user.password !== null && (await bcrypt.compare(password, user.password));
       if (!validPassword) {
+        const failure = await recordFailedLogin(user.id, requestContext(req), 'invalid_password');
+        if (failure.locked) {
+          return rejectThrottledLogin(res, { allowed: false, ...failure });
+        }
         return res.status(401).json({ error: 'Invalid credentials' });
       }
 
+      const { block } = (await getAuthUser(user.id))!;
+      if (block) {
+        return res.status(403).json({ error: accountBlockMessage(block) });
+      }
+
       if (!user.is_verified) {
         return res.status(403).json({ error: 'Please verify your email before logging in' });
       }
 
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) {
-        throw new Error('JWT_SECRET is not defined');
+      // With 2FA on, the password only earns a challenge to exchange at /login/2fa
+      if (user.totp_enabled_at) {
+        return res.json({ twoFactorRequired: true, challengeToken: signLoginChallenge(user.id) });
       }
 
-      const token = jwt.sign(
-        { userId: user.id, email: user.email },
-        jwtSecret,
-        { expiresIn: process.env.JWT_EXPIRY || '7d' } as any
-      );
+      await clearFailedLogins(user.id);
+      const session = await createSession(user, requestContext(req));
+      await recordSecurityEvent(user.id, 'login_succeeded', requestContext(req), { method: 'password' });
 
       res.json({
-        token,
+        token: session.accessToken,
+        refreshToken: session.refreshToken,
         user: { id: user.id, email: user.email, name: user.name },
       });
     } catch (error) {
@@ -142,6 +267,109 @@ router.post(
   }
 );
 
+// Refresh Access Token (rotates the refresh token)
+router.post(
+  '/refresh',
+  refreshLimiter,
+  refreshTokenValidation,
+  validateRequest,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await rotateRefreshToken(req.body.refreshToken, {
+        userAgent: req.get('user-agent'),
+        ipAddress: req.ip,
+      });
+
+      if (!result.ok) {
+        // A rotated token came back: it leaked, so whoever holds the session is cut off too
+        if (result.reason === 'reused') {
+          console.warn(`Refresh token reuse detected for user ${result.userId}, session revoked`);
+          await recordSecurityEvent(result.userId, 'refresh_token_reused', requestContext(req), {
+            sessionId: result.sessionId,
+          });
+          disconnectSessions(req.app.get('io') as SignalingServer, result.userId, 'Your session was revoked', {
+            only: result.sessionId,
+          });
+        }
+        return res.status(401).json({ error: 'Invalid or expired refresh token' });
+      }
+
+      res.json({ token: result.accessToken, refreshToken: result.refreshToken });
+    } catch (error) {
+      console.error('Token refresh error:', error);
+      res.status(500).json({ error: 'Token refresh failed' });
+    }
+  }
+);
+
+// Logout (current session)
+router.post('/logout', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    await revokeSession(req.sessionId!, req.userId);
+    disconnectSessions(req.app.get('io') as SignalingServer, req.userId!, 'You have been logged out', {
+      only: req.sessionId!,
+    });
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Logout failed' });
+  }
+});
+
+// Logout from all devices
+router.post('/logout-all', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const revoked = await revokeAllSessions(req.userId!);
+    disconnectSessions(req.app.get('io') as SignalingServer, req.userId!, 'You have been logged out');
+    res.json({ message: 'Logged out from all sessions', revoked });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({ error: 'Logout failed' });
+  }
+});
+
+// List Active Sessions
+router.get('/sessions', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const sessions = await listActiveSessions(req.userId!);
+
+    res.json({
+      sessions: sessions.map((s) => ({
+        id: s.id,
+        userAgent: s.user_agent,
+        ipAddress: s.ip_address,
+        createdAt: s.created_at,
+        lastUsedAt: s.last_used_at,
+        expiresAt: s.expires_at,
+        current: s.id === req.sessionId,
+      })),
+    });
+  } catch (error) {
+    console.error('List sessions error:', error);
+    res.status(500).json({ error: 'Failed to get sessions' });
+  }
+});
+
+// Revoke a Single Session
+router.delete('/sessions/:sessionId', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const revoked = await revokeSession(req.params.sessionId as string, req.userId);
+
+    if (!revoked) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    disconnectSessions(req.app.get('io') as SignalingServer, req.userId!, 'Your session was revoked', {
+      only: req.params.sessionId as string,
+    });
+
+    res.json({ message: 'Session revoked successfully' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: 'Failed to revoke session' });
+  }
+});
+
 // Request Password Reset
 router.post(
   '/forgot-password',
@@ -152,22 +380,26 @@ router.post(
     try {
       const { email } = req.body;
 
-      const result = await query('SELECT id FROM users WHERE email = $1', [email]);
+      const result = await query('SELECT id, locale FROM users WHERE email = $1', [email]);
 
       if (result.rows.length === 0) {
         return res.json({ message: 'If the email exists, a reset link has been sent' });
       }
 
-      const userId = result.rows[0].id;
+      const { id: userId, locale } = result.rows[0];
       const resetToken = uuidv4();
       const expiresAt = new Date(Date.now() + 60 * 60 * 1000); // 1 hour
 
-      await query(
-        'INSERT INTO password_reset_tokens (user_id, token, expires_at) VALUES ($1, $2, $3)',
-        [userId, resetToken, expiresAt]
-      );
+      await transaction(async (client) => {
+        await client.query(
+          'INSERT INTO password_reset_tokens (user_id, token, expires_at) VALUES ($1, $2, $3)',
+          [userId, resetToken, expiresAt]
+        );
 
-      await sendPasswordResetEmail(email, resetToken);
+        await queueEmail(passwordResetEmail(email, resetToken, locale), client);
+      });
+
+      await recordSecurityEvent(userId, 'password_reset_requested', requestContext(req));
 
       res.json({ message: 'If the email exists, a reset link has been sent' });
     } catch (error) {
@@ -209,6 +441,11 @@ router.post(
 
       await query('UPDATE users SET password = $1 WHERE id = $2', [hashedPassword, user_id]);
       await query('UPDATE password_reset_tokens SET used = TRUE WHERE token = $1', [token]);
+      await revokeAllSessions(user_id);
+      disconnectSessions(req.app.get('io') as SignalingServer, user_id, 'Your password was reset');
+      // Proving access to the mailbox lifts a lockout
+      await clearFailedLogins(user_id);
+      await recordSecurityEvent(user_id, 'password_reset', requestContext(req));
 
       res.json({ message: 'Password reset successful! You can now login.' });
     } catch (error) {
@@ -218,4 +455,184 @@ router.post(
   }
 );
 
+// Complete a 2FA Login
+// Wrong codes count towards the same lockout as wrong passwords
+router.post(
+  '/login/2fa',
+  loginLimiter,
+  loginTwoFactorValidation,
+  validateRequest,
+  async (req: Request, res: Response) => {
+    try {
+      let userId: number;
+      try {
+        userId = verifyLoginChallenge(req.body.challengeToken);
+      } catch {
+        return res.status(401).json({ error: 'Login challenge is invalid or has expired, log in again' });
+      }
+
+      const authUser = await getAuthUser(userId);
+      if (!authUser) {
+        return res.status(401).json({ error: 'Login challenge is invalid or has expired, log in again' });
+      }
+
+      if (authUser.block) {
+        return res.status(403).json({ error: accountBlockMessage(authUser.block) });
+      }
+
+      const gate = await checkLoginAllowed(userId);
+      if (!gate.allowed) {
+        return rejectThrottledLogin(res, gate);
+      }
+
+      const verified = await verifySecondFactor(userId, {
+        code: req.body.code,
+        recoveryCode: req.body.recoveryCode,
+      });
+      if (!verified) {
+        const failure = await recordFailedLogin(userId, requestContext(req), 'invalid_2fa_code');
+        if (failure.locked) {
+          return rejectThrottledLogin(res, { allowed: false, ...failure });
+        }
+        return res.status(401).json({ error: 'Invalid authentication code' });
+      }
+
+      const result = await query('SELECT id, email, name FROM users WHERE id = $1', [userId]);
+      const user = result.rows[0];
+
+      await clearFailedLogins(userId);
+      const session = await createSession(user, requestContext(req));
+      // The challenge may come from a password or an OIDC sign-in
+      await recordSecurityEvent(userId, 'login_succeeded', requestContext(req), {
+        twoFactor: req.body.recoveryCode ? 'recovery_code' : 'totp',
+      });
+
+      res.json({
+        token: session.accessToken,
+        refreshToken: session.refreshToken,
+        user: { id: user.id, email: user.email, name: user.name },
+      });
+    } catch (error) {
+      console.error('2FA login error:', error);
+      res.status(500).json({ error: 'Login failed' });
+    }
+  }
+);
+
+// Get 2FA Status
+router.get('/2fa', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    res.json(await getTwoFactorStatus(req.userId!));
+  } catch (error) {
+    console.error('2FA status error:', error);
+    res.status(500).json({ error: 'Failed to get two-factor status' });
+  }
+});
+
+// Start 2FA Enrolment (returns the secret and otpauth:// URI for the authenticator app)
+// Needs a password, which turning 2FA off and regenerating recovery codes are confirmed with
+router.post('/2fa/setup', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!(await hasPassword(req.userId!))) {
+      return res.status(400).json({ error: 'Set a password before enabling two-factor authentication' });
+    }
+
+    const enrolment = await startTwoFactorEnrolment(req.userId!, req.userEmail!);
+
+    if (!enrolment) {
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    res.json(enrolment);
+  } catch (error) {
+    console.error('2FA setup error:', error);
+    res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+});
+
+// Confirm 2FA Enrolment with the first code
+router.post(
+  '/2fa/enable',
+  authenticateToken,
+  authLimiter,
+  twoFactorCodeValidation,
+  validateRequest,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await confirmTwoFactorEnrolment(req.userId!, req.body.code);
+
+      if (!result.ok) {
+        if (result.reason === 'already_enabled') {
+          return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+        }
+        if (result.reason === 'not_started') {
+          return res.status(400).json({ error: 'Start two-factor setup first' });
+        }
+        return res.status(400).json({ error: 'Invalid authentication code' });
+      }
+
+      await recordSecurityEvent(req.userId!, 'two_factor_enabled', requestContext(req));
+
+      res.json({
+        message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.',
+        recoveryCodes: result.recoveryCodes,
+      });
+    } catch (error) {
+      console.error('2FA enable error:', error);
+      res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+    }
+  }
+);
+
+// Disable 2FA (requires the password)
+router.post(
+  '/2fa/disable',
+  authenticateToken,
+  authLimiter,
+  passwordConfirmationValidation,
+  validateRequest,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const confirmation = await confirmPassword(req.userId!, req.body.password);
+      if (!confirmation.ok) {
+        return res.status(confirmation.status).json({ error: confirmation.error });
+      }
+
+      await disableTwoFactor(req.userId!);
+      await recordSecurityEvent(req.userId!, 'two_factor_disabled', requestContext(req));
+
+      res.json({ message: 'Two-factor authentication disabled' });
+    } catch (error) {
+      console.error('2FA disable error:', error);
+      res.status(500).json({ error: 'Failed to disable two-factor authentication' });
+    }
+  }
+);
+
+// Regenerate Recovery Codes (requires the password, invalidates the old codes)
+router.post(
+  '/2fa/recovery-codes',
+  authenticateToken,
+  authLimiter,
+  passwordConfirmationValidation,
+  validateRequest,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const confirmation = await confirmPassword(req.userId!, req.body.password);
+      if (!confirmation.ok) {
+        return res.status(confirmation.status).json({ error: confirmation.error });
+      }
+
+      if (!(await getTwoFactorStatus(req.userId!)).enabled) {
+        return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+      }
+
+      res.json({ recoveryCodes: await regenerateRecoveryCodes(req.userId!) });
+    } catch (error) {
+      console.error('Recovery codes error:', error);
+      res.status(500).json({ error: 'Failed to regenerate recovery codes' });
+    }
+  }
+);
+
 export default router;
\ No newline at end of file
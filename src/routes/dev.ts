@@ -0,0 +1,84 @@
+// src/routes/dev.ts
+// Development helpers. Only mounted when NODE_ENV is not "production".
+import express, { Request, Response } from 'express';
+import { EmailMessage } from '../config/email';
+import {
+  accountLockedEmail,
+  EMAIL_LOCALES,
+  EMAIL_TEMPLATES,
+  EmailTemplateName,
+  emailChangeEmail,
+  meetingInvitationEmail,
+  passwordResetEmail,
+  verificationEmail,
+} from '../utils/emailTemplates';
+
+const router = express.Router();
+
+const SAMPLE_EMAIL = 'jane.doe@example.com';
+const SAMPLE_TOKEN = 'sample-token';
+
+const sampleEmail = (template: EmailTemplateName, locale: string): EmailMessage => {
+  switch (template) {
+    case 'verification':
+      return verificationEmail(SAMPLE_EMAIL, SAMPLE_TOKEN, locale);
+    case 'email-change':
+      return emailChangeEmail(SAMPLE_EMAIL, SAMPLE_TOKEN, locale);
+    case 'password-reset':
+      return passwordResetEmail(SAMPLE_EMAIL, SAMPLE_TOKEN, locale);
+    case 'account-locked':
+      return accountLockedEmail(SAMPLE_EMAIL, 15, locale);
+    case 'meeting-invitation':
+      return meetingInvitationEmail(
+        SAMPLE_EMAIL,
+        {
+          meetingTitle: 'Weekly <Planning> & Review',
+          hostName: 'Alex Host',
+          inviteUrl: `${process.env.FRONTEND_URL}/meeting/sample?invite=${SAMPLE_TOKEN}`,
+          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+          startsAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+          timeZone: 'Europe/Berlin',
+        },
+        locale
+      );
+  }
+};
+
+// List Email Previews
+router.get('/emails', (req: Request, res: Response) => {
+  res.json({
+    templates: EMAIL_TEMPLATES,
+    locales: EMAIL_LOCALES,
+    previews: EMAIL_TEMPLATES.flatMap((template) =>
+      EMAIL_LOCALES.map((locale) => `${req.baseUrl}/emails/${template}?locale=${locale}`)
+    ),
+  });
+});
+
+// Preview an Email
+// Renders the template with sample data. ?locale= picks the language, ?format=text shows the
+// plain-text part and ?format=json the whole message.
+router.get('/emails/:template', (req: Request, res: Response) => {
+  try {
+    const template = req.params.template as EmailTemplateName;
+    if (!EMAIL_TEMPLATES.includes(template)) {
+      return res.status(404).json({ error: 'Unknown email template', templates: EMAIL_TEMPLATES });
+    }
+
+    const locale = typeof req.query.locale === 'string' ? req.query.locale : 'en';
+    const message = sampleEmail(template, locale);
+
+    if (req.query.format === 'text') {
+      return res.type('text/plain').send(message.text);
+    }
+    if (req.query.format === 'json') {
+      return res.json({ message });
+    }
+    res.type('html').send(message.html);
+  } catch (error) {
+    console.error('Email preview error:', error);
+    res.status(500).json({ error: 'Failed to render email' });
+  }
+});
+
+export default router;
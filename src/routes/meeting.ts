@@ -1,13 +1,110 @@
 // src/routes/meeting.ts
-import express, { Response } from 'express';
+import express, { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { query } from '../config/database';
+import { query, transaction } from '../config/database';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
-import { createMeetingValidation, validateRequest } from '../middleware/validator';
-import { generalLimiter } from '../middleware/rateLimiter';
+import {
+  accessSettingsValidation,
+  changeRoleValidation,
+  createMeetingValidation,
+  guestJoinValidation,
+  guestSettingsValidation,
+  invitationValidation,
+  joinMeetingValidation,
+  lobbySettingsValidation,
+  participantParamValidation,
+  rotatePasscodeValidation,
+  transferHostValidation,
+  validateRequest,
+} from '../middleware/validator';
+import { generalLimiter, guestJoinLimiter, meetingCodeLimiter } from '../middleware/rateLimiter';
+import { requireMeetingPermission } from '../middleware/permissions';
+import { getPendingParticipants, markParticipantRemoved } from '../utils/lobby';
+import { getBreakoutOverview } from '../utils/breakouts';
+import {
+  canViewMeeting,
+  checkMeetingAccess,
+  checkPasscode,
+  createInvitation,
+  generatePasscode,
+  hashPasscode,
+} from '../utils/meetingAccess';
+import {
+  getJoinWindow,
+  getNextOccurrence,
+  getOccurrences,
+  parseScheduledStart,
+  scheduleFromMeeting,
+  ScheduledMeetingRow,
+} from '../utils/schedule';
+import { buildCalendar } from '../utils/ical';
+import { getIceServers } from '../utils/iceServers';
+import { endMeeting } from '../utils/meetings';
+import { createGuest } from '../utils/guests';
+import {
+  normalizeMeetingCode,
+  regenerateMeetingCode,
+  resolveMeetingId,
+  withUniqueMeetingCode,
+} from '../utils/meetingCodes';
+import { signGuestToken } from '../utils/sessions';
+import { emitMeetingWebhookEvent, emitWebhookEvent } from '../utils/webhooks';
+import { queueEmail } from '../utils/emailOutbox';
+import { meetingInvitationEmail } from '../utils/emailTemplates';
+import {
+  attendanceReportToCsv,
+  getAttendanceReport,
+  getHostAnalytics,
+  recordAttendance,
+} from '../utils/attendance';
+import { getMessageHistory } from '../utils/chat';
+import { getMeetingRole, outranks } from '../utils/permissions';
+import { parseId, positiveInt, queryInt } from '../utils/numbers';
+import { changeHost, changeParticipantRole } from '../sockets/roles';
+import { disconnectMeeting } from '../sockets/admin';
+import { detachDevice } from '../sockets/devices';
+import { SignalingServer } from '../types/socket';
 
 const router = express.Router();
 
+const formatSchedule = (meeting: ScheduledMeetingRow) => {
+  const schedule = scheduleFromMeeting(meeting);
+  if (!schedule) {
+    return null;
+  }
+  const next = getNextOccurrence(schedule);
+  return {
+    scheduledStart: schedule.start,
+    durationMinutes: schedule.durationMinutes,
+    timeZone: schedule.timeZone,
+    recurrence: meeting.recurrence_rule,
+    nextOccurrence: next ? { start: next.start, end: next.end } : null,
+  };
+};
+
+interface CalendarMeetingRow extends ScheduledMeetingRow {
+  id: string;
+  title: string;
+  host_name: string;
+  host_email: string;
+}
+
+const meetingCalendar = (meeting: CalendarMeetingRow, method: 'PUBLISH' | 'REQUEST' = 'PUBLISH') => {
+  const schedule = scheduleFromMeeting(meeting);
+  if (!schedule) {
+    return null;
+  }
+  return buildCalendar({
+    uid: `${meeting.id}@confidex`,
+    title: meeting.title,
+    url: `${process.env.FRONTEND_URL}/meeting/${meeting.id}`,
+    description: `Join the meeting: ${process.env.FRONTEND_URL}/meeting/${meeting.id}`,
+    organizer: { name: meeting.host_name, email: meeting.host_email },
+    schedule,
+    method,
+  });
+};
+
 // Create Meeting
 router.post(
   '/create',
@@ -17,25 +114,71 @@ router.post(
   validateRequest,
   async (req: AuthRequest, res: Response) => {
     try {
-      const { title } = req.body;
+      const {
+        title,
+        lobbyEnabled = false,
+        allowGuests = false,
+        accessMode = 'open',
+        scheduledStart,
+        durationMinutes = 60,
+        timeZone = 'UTC',
+        recurrence,
+      } = req.body;
       const meetingId = uuidv4();
-      const maxParticipantsEnv = process.env.MAX_PARTICIPANTS || '10';
-      const maxParticipants = parseInt(maxParticipantsEnv, 10);
+      const maxParticipants = positiveInt(process.env.MAX_PARTICIPANTS, 10);
 
-      const result = await query(
-        'INSERT INTO meetings (id, host_id, title, max_participants) VALUES ($1, $2, $3, $4) RETURNING *',
-        [meetingId, req.userId, title, maxParticipants]
+      // Generate a passcode when the host asks for a protected meeting without choosing one
+      const passcode =
+        accessMode === 'passcode' ? (req.body.passcode as string | undefined) || generatePasscode() : null;
+      const passcodeHash = passcode ? await hashPasscode(passcode) : null;
+
+      // Scheduled meetings stay 'scheduled' until someone joins inside the join window
+      const result = await withUniqueMeetingCode((code) =>
+        query(
+          `INSERT INTO meetings (id, host_id, title, max_participants, lobby_enabled, access_mode, passcode_hash,
+             status, scheduled_start, duration_minutes, time_zone, recurrence_rule, allow_guests, code)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14) RETURNING *`,
+          [
+            meetingId,
+            req.userId,
+            title,
+            maxParticipants,
+            lobbyEnabled,
+            accessMode,
+            passcodeHash,
+            scheduledStart ? 'scheduled' : 'active',
+            scheduledStart ? parseScheduledStart(scheduledStart, timeZone) : null,
+            scheduledStart ? durationMinutes : null,
+            scheduledStart ? timeZone : null,
+            scheduledStart && recurrence ? String(recurrence).replace(/^RRULE:/i, '').toUpperCase() : null,
+            allowGuests,
+            code,
+          ]
+        )
       );
 
       const meeting = result.rows[0];
 
+      await emitWebhookEvent(req.userId!, 'meeting.created', {
+        meetingId: meeting.id,
+        title: meeting.title,
+        status: meeting.status,
+        scheduledStart: meeting.scheduled_start,
+      });
+
       res.status(201).json({
         meeting: {
           id: meeting.id,
           title: meeting.title,
           joinUrl: `${process.env.FRONTEND_URL}/meeting/${meeting.id}`,
-          code: meeting.id.split('-')[0].toUpperCase(),
+          code: meeting.code,
           maxParticipants: meeting.max_participants,
+          lobbyEnabled: meeting.lobby_enabled,
+          allowGuests: meeting.allow_guests,
+          accessMode: meeting.access_mode,
+          ...(passcode && { passcode }),
+          status: meeting.status,
+          schedule: formatSchedule(meeting),
           createdAt: meeting.created_at,
         },
       });
@@ -46,14 +189,42 @@ router.post(
   }
 );
 
+// Resolve a Join Code
+// Public so that guests can use codes too; rate limited against guessing
+router.get('/resolve/:code', meetingCodeLimiter, async (req: Request, res: Response) => {
+  try {
+    const code = normalizeMeetingCode(req.params.code as string);
+
+    const result = code
+      ? await query('SELECT id, code, title, status FROM meetings WHERE code = $1', [code])
+      : { rows: [] };
+
+    if (result.rows.length === 0 || result.rows[0].status === 'ended') {
+      return res.status(404).json({ error: 'Meeting not found' });
+    }
+
+    const meeting = result.rows[0];
+    res.json({ meeting: { id: meeting.id, code: meeting.code, title: meeting.title } });
+  } catch (error) {
+    console.error('Resolve meeting code error:', error);
+    res.status(500).json({ error: 'Failed to resolve meeting code' });
+  }
+});
+
 // Get Meeting Details
-router.get('/details/:meetingId', authenticateToken, async (req: AuthRequest, res: Response) => {
+// :meetingId may also be the meeting's join code
+router.get('/details/:meetingId', authenticateToken, meetingCodeLimiter, async (req: AuthRequest, res: Response) => {
   try {
-    const { meetingId } = req.params;
+    const meetingId = await resolveMeetingId(req.params.meetingId as string);
+
+    if (!meetingId) {
+      return res.status(404).json({ error: 'Meeting not found' });
+    }
 
     const result = await query(
       `SELECT m.*, u.name as host_name, u.email as host_email,
-       (SELECT COUNT(*) FROM meeting_participants WHERE meeting_id = m.id AND left_at IS NULL) as current_participants
+       (SELECT COUNT(*) FROM participant_devices d JOIN meeting_participants mp ON mp.id = d.participant_id
+        WHERE d.meeting_id = m.id AND d.left_at IS NULL AND mp.status = 'admitted') as current_participants
        FROM meetings m
        JOIN users u ON m.host_id = u.id
        WHERE m.id = $1`,
@@ -73,12 +244,20 @@ router.get('/details/:meetingId', authenticateToken, async (req: AuthRequest, re
     res.json({
       meeting: {
         id: meeting.id,
+        code: meeting.code,
         title: meeting.title,
         hostName: meeting.host_name,
         isHost: meeting.host_id === req.userId,
+        role: (await getMeetingRole(meeting.id, req.userId!)).role,
         currentParticipants: parseInt(meeting.current_participants),
         maxParticipants: meeting.max_participants,
+        lobbyEnabled: meeting.lobby_enabled,
+        allowGuests: meeting.allow_guests,
+        accessMode: meeting.access_mode,
+        isLocked: meeting.is_locked,
+        screenShareBlocked: meeting.screen_share_blocked,
         status: meeting.status,
+        schedule: formatSchedule(meeting),
         createdAt: meeting.created_at,
       },
     });
@@ -89,14 +268,417 @@ router.get('/details/:meetingId', authenticateToken, async (req: AuthRequest, re
 });
 
 // Join Meeting (Validate)
-router.post('/join/:meetingId', authenticateToken, async (req: AuthRequest, res: Response) => {
+// :meetingId may also be the meeting's join code
+router.post(
+  '/join/:meetingId',
+  authenticateToken,
+  meetingCodeLimiter,
+  joinMeetingValidation,
+  validateRequest,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const meetingId = await resolveMeetingId(req.params.meetingId as string);
+
+      if (!meetingId) {
+        return res.status(404).json({ error: 'Meeting not found' });
+      }
+
+      const result = await query(
+        `SELECT m.*, 
+         (SELECT COUNT(*) FROM participant_devices d JOIN meeting_participants mp ON mp.id = d.participant_id
+        WHERE d.meeting_id = m.id AND d.left_at IS NULL AND mp.status = 'admitted') as current_participants
+         FROM meetings m
+         WHERE m.id = $1`,
+        [meetingId]
+      );
+
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Meeting not found' });
+      }
+
+      const meeting = result.rows[0];
+
+      if (meeting.status === 'ended') {
+        return res.status(400).json({ error: 'Meeting has ended' });
+      }
+
+      const isHost = meeting.host_id === req.userId;
+      const joinWindow = getJoinWindow(meeting);
+
+      if (!joinWindow.open && !isHost) {
+        return res.status(403).json({
+          error: joinWindow.opensAt ? 'Meeting has not started yet' : 'Meeting has no upcoming occurrences',
+          opensAt: joinWindow.opensAt,
+        });
+      }
+
+      const existing = await query(
+        'SELECT status FROM meeting_participants WHERE meeting_id = $1 AND user_id = $2',
+        [meetingId, req.userId]
+      );
+      const existingStatus = existing.rows[0]?.status;
+
+      if (existingStatus === 'denied') {
+        return res.status(403).json({ error: 'The host denied your request to join' });
+      }
+
+      const access = await checkMeetingAccess(
+        meeting,
+        { id: req.userId!, email: req.userEmail! },
+        { passcode: req.body.passcode, inviteToken: req.body.inviteToken },
+        existing.rows.length > 0
+      );
+
+      if (!access.allowed) {
+        return res.status(access.status).json({ error: access.error });
+      }
+
+      if (meeting.is_locked && !isHost && existingStatus !== 'admitted') {
+        return res.status(403).json({ error: 'Meeting is locked' });
+      }
+
+      // Joiners wait in the lobby instead of taking a seat until the host admits them
+      const waitsInLobby = meeting.lobby_enabled && !isHost && existingStatus !== 'admitted';
+
+      const currentParticipants = parseInt(meeting.current_participants);
+      if (!waitsInLobby && currentParticipants >= meeting.max_participants) {
+        return res.status(400).json({ error: 'Meeting is full' });
+      }
+
+      // Add participant record (will be updated with socket_id when they actually connect)
+      await query(
+        'INSERT INTO meeting_participants (meeting_id, user_id, status) VALUES ($1, $2, $3) ON CONFLICT (meeting_id, user_id) DO NOTHING',
+        [meetingId, req.userId, waitsInLobby ? 'pending' : 'admitted']
+      );
+
+      res.json({
+        message: waitsInLobby ? 'Waiting for the host to admit you' : 'Authorized to join meeting',
+        status: waitsInLobby ? 'pending' : 'admitted',
+        meeting: {
+          id: meeting.id,
+          code: meeting.code,
+          title: meeting.title,
+          isHost,
+        },
+      });
+    } catch (error) {
+      console.error('Join meeting error:', error);
+      res.status(500).json({ error: 'Failed to join meeting' });
+    }
+  }
+);
+
+// Join Meeting as a Guest
+// No account needed. Returns a guest token for the socket connection to this meeting only
+// and, once admitted, the ICE servers, since guests cannot call the REST API afterwards.
+// :meetingId may be the join code.
+router.post(
+  '/:meetingId/guest-join',
+  guestJoinLimiter,
+  meetingCodeLimiter,
+  guestJoinValidation,
+  validateRequest,
+  async (req: Request, res: Response) => {
+    try {
+      const meetingId = await resolveMeetingId(req.params.meetingId as string);
+      const { displayName, passcode } = req.body;
+
+      if (!meetingId) {
+        return res.status(404).json({ error: 'Meeting not found' });
+      }
+
+      const result = await query(
+        `SELECT m.*,
+         (SELECT COUNT(*) FROM participant_devices d JOIN meeting_participants mp ON mp.id = d.participant_id
+        WHERE d.meeting_id = m.id AND d.left_at IS NULL AND mp.status = 'admitted') as current_participants
+         FROM meetings m
+         WHERE m.id = $1`,
+        [meetingId]
+      );
+
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Meeting not found' });
+      }
+
+      const meeting = result.rows[0];
+
+      if (meeting.status === 'ended') {
+        return res.status(400).json({ error: 'Meeting has ended' });
+      }
+
+      if (!meeting.allow_guests) {
+        return res.status(403).json({ error: 'This meeting does not allow guests' });
+      }
+
+      const joinWindow = getJoinWindow(meeting);
+      if (!joinWindow.open) {
+        return res.status(403).json({
+          error: joinWindow.opensAt ? 'Meeting has not started yet' : 'Meeting has no upcoming occurrences',
+          opensAt: joinWindow.opensAt,
+        });
+      }
+
+      // Invitations are bound to an email address, which guests do not have
+      if (meeting.access_mode === 'invite') {
+        return res.status(403).json({ error: 'This meeting is invite-only' });
+      }
+
+      if (meeting.access_mode === 'passcode') {
+        const access = await checkPasscode(meeting, passcode);
+        if (!access.allowed) {
+          return res.status(access.status).json({ error: access.error });
+        }
+      }
+
+      if (meeting.is_locked) {
+        return res.status(403).json({ error: 'Meeting is locked' });
+      }
+
+      const waitsInLobby = meeting.lobby_enabled;
+
+      if (!waitsInLobby && parseInt(meeting.current_participants) >= meeting.max_participants) {
+        return res.status(400).json({ error: 'Meeting is full' });
+      }
+
+      const guestId = await createGuest(meetingId, displayName);
+      await query('INSERT INTO meeting_participants (meeting_id, user_id, status) VALUES ($1, $2, $3)', [
+        meetingId,
+        guestId,
+        waitsInLobby ? 'pending' : 'admitted',
+      ]);
+
+      res.setHeader('Cache-Control', 'no-store');
+      res.status(201).json({
+        message: waitsInLobby ? 'Waiting for the host to admit you' : 'Authorized to join meeting',
+        status: waitsInLobby ? 'pending' : 'admitted',
+        guestToken: signGuestToken(guestId, meetingId),
+        guest: { id: guestId, name: displayName },
+        meeting: { id: meeting.id, code: meeting.code, title: meeting.title },
+        // Guests waiting in the lobby get them with lobby-admitted instead
+        ...(!waitsInLobby && { ice: getIceServers(guestId) }),
+      });
+    } catch (error) {
+      console.error('Guest join error:', error);
+      res.status(500).json({ error: 'Failed to join meeting' });
+    }
+  }
+);
+
+// End Meeting (Host only)
+router.post(
+  '/end/:meetingId',
+  authenticateToken,
+  requireMeetingPermission('end_meeting', 'Only host can end the meeting'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const meetingId = req.params.meetingId as string;
+
+      await endMeeting(meetingId, req.userId!);
+      disconnectMeeting(req.app.get('io') as SignalingServer, meetingId, 'The host ended the meeting');
+
+      res.json({ message: 'Meeting ended successfully' });
+    } catch (error) {
+      console.error('End meeting error:', error);
+      res.status(500).json({ error: 'Failed to end meeting' });
+    }
+  }
+);
+
+// Get My Meetings
+// ?filter=upcoming lists active meetings and ones with a future occurrence, ?filter=past the rest
+router.get('/my-meetings', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const filter = req.query.filter;
+
+    if (filter !== undefined && filter !== 'upcoming' && filter !== 'past') {
+      return res.status(400).json({ error: 'filter must be "upcoming" or "past"' });
+    }
+
+    // Whether a scheduled meeting is upcoming depends on its recurrence, which is evaluated below,
+    // so every meeting that has not ended is loaded and the limit applies after filtering. Ended
+    // meetings are always past, and only the 50 newest of them can make the page.
+    const result = await query(
+      `SELECT m.*,
+       (SELECT COUNT(*) FROM meeting_participants WHERE meeting_id = m.id) as total_participants
+       FROM (
+         (SELECT * FROM meetings WHERE host_id = $1 AND status <> 'ended')
+         UNION ALL
+         (SELECT * FROM meetings WHERE host_id = $1 AND status = 'ended' AND NOT $2
+          ORDER BY created_at DESC LIMIT 50)
+       ) m
+       ORDER BY m.created_at DESC`,
+      [req.userId, filter === 'upcoming']
+    );
+
+    const meetings = result.rows.map((m) => {
+      const schedule = formatSchedule(m);
+      const isUpcoming =
+        m.status === 'active' || (m.status === 'scheduled' && schedule?.nextOccurrence != null);
+      return {
+        id: m.id,
+        code: m.code,
+        title: m.title,
+        status: m.status,
+        participants: m.total_participants,
+        schedule,
+        isUpcoming,
+        createdAt: m.created_at,
+        endedAt: m.ended_at,
+      };
+    });
+
+    const filtered = filter
+      ? meetings.filter((m) => (filter === 'upcoming' ? m.isUpcoming : !m.isUpcoming))
+      : meetings;
+
+    if (filter === 'upcoming') {
+      const startOf = (m: (typeof meetings)[number]) =>
+        m.schedule?.nextOccurrence ? new Date(m.schedule.nextOccurrence.start).getTime() : 0;
+      filtered.sort((a, b) => startOf(a) - startOf(b));
+    }
+
+    res.json({ meetings: filtered.slice(0, 50) });
+  } catch (error) {
+    console.error('Get my meetings error:', error);
+    res.status(500).json({ error: 'Failed to get meetings' });
+  }
+});
+
+// Get Analytics for the meetings I host
+// ?weeks=N covers the last N weeks (default 12, at most 52)
+router.get('/analytics', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const weeks = queryInt(req.query.weeks, 12, 52);
+    const since = new Date(Date.now() - weeks * 7 * 24 * 60 * 60 * 1000);
+
+    res.json(await getHostAnalytics(req.userId!, since));
+  } catch (error) {
+    console.error('Get analytics error:', error);
+    res.status(500).json({ error: 'Failed to get analytics' });
+  }
+});
+
+// Kick Participant (Host or co-host)
+router.post(
+  '/kick/:meetingId/:userId',
+  authenticateToken,
+  participantParamValidation,
+  validateRequest,
+  requireMeetingPermission('kick_participants', 'Not authorized to kick participants'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const meetingId = req.params.meetingId as string;
+      const userId = parseId(req.params.userId);
+
+      const target = await getMeetingRole(meetingId, userId);
+      if (target.role && !outranks(req.meetingRole!, target.role)) {
+        return res.status(403).json({ error: 'Not authorized to kick this participant' });
+      }
+
+      const devices = await query(
+        `UPDATE participant_devices SET left_at = NOW(), disconnected_at = NULL, resume_token_hash = NULL
+         WHERE meeting_id = $1 AND user_id = $2 AND left_at IS NULL
+         RETURNING socket_id`,
+        [meetingId, userId]
+      );
+      await recordAttendance(devices.rows.map((d) => d.socket_id), 'kick');
+      await markParticipantRemoved(meetingId, userId);
+
+      // Same as a kick from the call: the kicked devices leave the rooms and are told why
+      const io = req.app.get('io') as SignalingServer;
+      for (const device of devices.rows) {
+        detachDevice(io, device.socket_id, meetingId)?.emit('kicked', {
+          message: 'You have been removed from the meeting',
+        });
+      }
+
+      if (devices.rows.length > 0) {
+        await emitMeetingWebhookEvent(meetingId, 'participant.left', { userId, reason: 'kicked' });
+      }
+
+      res.json({ message: 'Participant kicked successfully' });
+    } catch (error) {
+      console.error('Kick participant error:', error);
+      res.status(500).json({ error: 'Failed to kick participant' });
+    }
+  }
+);
+
+// Upcoming Occurrences across hosted, joined and invited meetings
+router.get('/upcoming', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const days = queryInt(req.query.days, 14, 90);
+    const now = new Date();
+    const to = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+    const result = await query(
+      `SELECT DISTINCT m.*
+       FROM meetings m
+       LEFT JOIN meeting_participants mp ON mp.meeting_id = m.id AND mp.user_id = $1 AND mp.status <> 'denied'
+       LEFT JOIN meeting_invitations mi ON mi.meeting_id = m.id AND LOWER(mi.email) = $2 AND mi.revoked_at IS NULL
+       WHERE m.status <> 'ended' AND m.scheduled_start IS NOT NULL
+         AND (m.host_id = $1 OR mp.id IS NOT NULL OR mi.id IS NOT NULL)`,
+      [req.userId, req.userEmail!.toLowerCase()]
+    );
+
+    const occurrences = result.rows
+      .flatMap((m) =>
+        getOccurrences(scheduleFromMeeting(m)!, { from: now, to, limit: 100 }).map((o) => ({
+          meetingId: m.id,
+          title: m.title,
+          isHost: m.host_id === req.userId,
+          start: o.start,
+          end: o.end,
+        }))
+      )
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    res.json({ occurrences });
+  } catch (error) {
+    console.error('Get upcoming occurrences error:', error);
+    res.status(500).json({ error: 'Failed to get upcoming meetings' });
+  }
+});
+
+// Occurrences of a Single Meeting
+router.get('/:meetingId/occurrences', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const { meetingId } = req.params;
+    const limit = queryInt(req.query.limit, 10, 100);
+
+    const result = await query('SELECT * FROM meetings WHERE id = $1', [meetingId]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Meeting not found' });
+    }
+
+    const meeting = result.rows[0];
+
+    if (!(await canViewMeeting(meeting, { id: req.userId!, email: req.userEmail! }))) {
+      return res.status(403).json({ error: 'Not authorized to view this meeting' });
+    }
+
+    const schedule = scheduleFromMeeting(meeting);
+
+    res.json({
+      schedule: formatSchedule(meeting),
+      occurrences: schedule ? getOccurrences(schedule, { from: new Date(), limit }) : [],
+    });
+  } catch (error) {
+    console.error('Get occurrences error:', error);
+    res.status(500).json({ error: 'Failed to get occurrences' });
+  }
+});
+
+// Download iCalendar File
+router.get('/:meetingId/calendar.ics', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
     const { meetingId } = req.params;
 
     const result = await query(
-      `SELECT m.*, 
-       (SELECT COUNT(*) FROM meeting_participants WHERE meeting_id = m.id AND left_at IS NULL) as current_participants
+      `SELECT m.*, u.name as host_name, u.email as host_email
        FROM meetings m
+       JOIN users u ON m.host_id = u.id
        WHERE m.id = $1`,
       [meetingId]
     );
@@ -107,119 +689,567 @@ router.post('/join/:meetingId', authenticateToken, async (req: AuthRequest, res:
 
     const meeting = result.rows[0];
 
-    if (meeting.status === 'ended') {
-      return res.status(400).json({ error: 'Meeting has ended' });
+    if (!(await canViewMeeting(meeting, { id: req.userId!, email: req.userEmail! }))) {
+      return res.status(403).json({ error: 'Not authorized to view this meeting' });
     }
 
-    const currentParticipants = parseInt(meeting.current_participants);
-    if (currentParticipants >= meeting.max_participants) {
-      return res.status(400).json({ error: 'Meeting is full' });
-    }
+    const calendar = meetingCalendar(meeting);
 
-    // Add participant record (will be updated with socket_id when they actually connect)
-    await query(
-      'INSERT INTO meeting_participants (meeting_id, user_id) VALUES ($1, $2) ON CONFLICT (meeting_id, user_id) DO NOTHING',
-      [meetingId, req.userId]
-    );
+    if (!calendar) {
+      return res.status(400).json({ error: 'Meeting is not scheduled' });
+    }
 
-    res.json({
-      message: 'Authorized to join meeting',
-      meeting: {
-        id: meeting.id,
-        title: meeting.title,
-        isHost: meeting.host_id === req.userId,
-      },
-    });
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="meeting-${meeting.id}.ics"`);
+    res.send(calendar);
   } catch (error) {
-    console.error('Join meeting error:', error);
-    res.status(500).json({ error: 'Failed to join meeting' });
+    console.error('Calendar export error:', error);
+    res.status(500).json({ error: 'Failed to export calendar' });
   }
 });
 
-// End Meeting (Host only)
-router.post('/end/:meetingId', authenticateToken, async (req: AuthRequest, res: Response) => {
+// ICE Servers (STUN list plus short-lived TURN credentials)
+router.get('/:meetingId/ice-servers', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
     const { meetingId } = req.params;
 
-    const result = await query('SELECT host_id FROM meetings WHERE id = $1', [meetingId]);
+    const result = await query(
+      `SELECT m.*, mp.status AS participant_status
+       FROM meetings m
+       LEFT JOIN meeting_participants mp ON mp.meeting_id = m.id AND mp.user_id = $2
+       WHERE m.id = $1`,
+      [meetingId, req.userId]
+    );
 
     if (result.rows.length === 0) {
       return res.status(404).json({ error: 'Meeting not found' });
     }
 
-    if (result.rows[0].host_id !== req.userId) {
-      return res.status(403).json({ error: 'Only host can end the meeting' });
+    const meeting = result.rows[0];
+
+    if (meeting.status === 'ended') {
+      return res.status(400).json({ error: 'Meeting has ended' });
     }
 
-    await query('UPDATE meetings SET status = $1, ended_at = NOW() WHERE id = $2', [
-      'ended',
-      meetingId,
-    ]);
-    await query('UPDATE meeting_participants SET left_at = NOW() WHERE meeting_id = $1 AND left_at IS NULL', [
-      meetingId,
-    ]);
+    // The same checks as joining: credentials are for people admitted through /join (not waiting in
+    // the lobby or denied), while the join window is open and their access still holds
+    const isHost = meeting.host_id === req.userId;
+    const joinWindow = getJoinWindow(meeting);
 
-    res.json({ message: 'Meeting ended successfully' });
+    if (!joinWindow.open && !isHost) {
+      return res.status(403).json({
+        error: joinWindow.opensAt ? 'Meeting has not started yet' : 'Meeting has no upcoming occurrences',
+        opensAt: joinWindow.opensAt,
+      });
+    }
+
+    if (!isHost && meeting.participant_status !== 'admitted') {
+      return res.status(403).json({ error: 'Join the meeting first' });
+    }
+
+    const access = await checkMeetingAccess(meeting, { id: req.userId!, email: req.userEmail! }, {}, true);
+    if (!access.allowed) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.json(getIceServers(req.userId!));
   } catch (error) {
-    console.error('End meeting error:', error);
-    res.status(500).json({ error: 'Failed to end meeting' });
+    console.error('Get ICE servers error:', error);
+    res.status(500).json({ error: 'Failed to get ICE servers' });
   }
 });
 
-// Get My Meetings
-router.get('/my-meetings', authenticateToken, async (req: AuthRequest, res: Response) => {
+// List Participants with Roles
+router.get('/:meetingId/participants', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
+    const meetingId = req.params.meetingId as string;
+
+    const { exists, role } = await getMeetingRole(meetingId, req.userId!);
+
+    if (!exists) {
+      return res.status(404).json({ error: 'Meeting not found' });
+    }
+
+    if (!role) {
+      return res.status(403).json({ error: 'Not authorized to view participants' });
+    }
+
     const result = await query(
-      `SELECT m.*, 
-       (SELECT COUNT(*) FROM meeting_participants WHERE meeting_id = m.id) as total_participants
-       FROM meetings m
-       WHERE m.host_id = $1
-       ORDER BY m.created_at DESC
-       LIMIT 50`,
-      [req.userId]
+      `SELECT mp.user_id, mp.role, mp.joined_at, u.name, (m.host_id = mp.user_id) AS is_host,
+       (u.guest_meeting_id IS NOT NULL) AS is_guest,
+       COALESCE(
+         (SELECT json_agg(json_build_object('deviceLabel', d.device_label, 'joinedAt', d.joined_at) ORDER BY d.joined_at)
+          FROM participant_devices d WHERE d.participant_id = mp.id AND d.left_at IS NULL),
+         '[]'
+       ) AS devices
+       FROM meeting_participants mp
+       JOIN users u ON mp.user_id = u.id
+       JOIN meetings m ON mp.meeting_id = m.id
+       WHERE mp.meeting_id = $1 AND mp.status = 'admitted' AND mp.left_at IS NULL
+       ORDER BY mp.joined_at`,
+      [meetingId]
     );
 
     res.json({
-      meetings: result.rows.map((m) => ({
-        id: m.id,
-        title: m.title,
-        status: m.status,
-        participants: m.total_participants,
-        createdAt: m.created_at,
-        endedAt: m.ended_at,
+      participants: result.rows.map((p) => ({
+        userId: p.user_id,
+        name: p.name,
+        role: p.is_host ? 'host' : p.role,
+        isGuest: p.is_guest,
+        joinedAt: p.joined_at,
+        devices: p.devices,
       })),
     });
   } catch (error) {
-    console.error('Get my meetings error:', error);
-    res.status(500).json({ error: 'Failed to get meetings' });
+    console.error('List participants error:', error);
+    res.status(500).json({ error: 'Failed to get participants' });
   }
 });
 
-// Kick Participant (Host only)
-router.post('/kick/:meetingId/:userId', authenticateToken, async (req: AuthRequest, res: Response) => {
+// Attendance Report (Host only)
+// ?format=csv downloads the report, otherwise it is returned as JSON
+router.get(
+  '/:meetingId/attendance',
+  authenticateToken,
+  requireMeetingPermission('view_reports', 'Not authorized to view the attendance report'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const meetingId = req.params.meetingId as string;
+      const format = req.query.format || 'json';
+
+      if (format !== 'json' && format !== 'csv') {
+        return res.status(400).json({ error: 'format must be "json" or "csv"' });
+      }
+
+      const report = await getAttendanceReport(meetingId);
+
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="attendance-${meetingId}.csv"`);
+        return res.send(attendanceReportToCsv(report));
+      }
+
+      res.json({ meetingId, participants: report });
+    } catch (error) {
+      console.error('Attendance report error:', error);
+      res.status(500).json({ error: 'Failed to get attendance report' });
+    }
+  }
+);
+
+// Change Participant Role (Host or co-host)
+router.post(
+  '/:meetingId/participants/:userId/role',
+  authenticateToken,
+  changeRoleValidation,
+  validateRequest,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await changeParticipantRole(
+        req.app.get('io') as SignalingServer,
+        req.params.meetingId as string,
+        req.userId!,
+        parseId(req.params.userId),
+        req.body.role
+      );
+
+      if (!result.ok) {
+        return res.status(result.status).json({ error: result.error });
+      }
+
+      res.json({ message: 'Role updated successfully', role: req.body.role });
+    } catch (error) {
+      console.error('Change role error:', error);
+      res.status(500).json({ error: 'Failed to change role' });
+    }
+  }
+);
+
+// Transfer Host (Host only)
+router.post(
+  '/:meetingId/transfer-host',
+  authenticateToken,
+  transferHostValidation,
+  validateRequest,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const meetingId = req.params.meetingId as string;
+
+      const { exists, role } = await getMeetingRole(meetingId, req.userId!);
+
+      if (!exists) {
+        return res.status(404).json({ error: 'Meeting not found' });
+      }
+
+      if (role !== 'host') {
+        return res.status(403).json({ error: 'Only host can transfer host' });
+      }
+
+      const result = await changeHost(req.app.get('io') as SignalingServer, meetingId, req.body.userId);
+
+      if (!result.ok) {
+        return res.status(result.status).json({ error: result.error });
+      }
+
+      res.json({ message: 'Host transferred successfully' });
+    } catch (error) {
+      console.error('Transfer host error:', error);
+      res.status(500).json({ error: 'Failed to transfer host' });
+    }
+  }
+);
+
+// Chat History (?before=<messageId>&limit=50)
+router.get('/:meetingId/messages', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
-    const { meetingId, userId } = req.params;
+    const meetingId = req.params.meetingId as string;
 
-    const result = await query('SELECT host_id FROM meetings WHERE id = $1', [meetingId]);
+    const result = await query(
+      `SELECT m.host_id, mp.status
+       FROM meetings m
+       LEFT JOIN meeting_participants mp ON mp.meeting_id = m.id AND mp.user_id = $2
+       WHERE m.id = $1`,
+      [meetingId, req.userId]
+    );
 
     if (result.rows.length === 0) {
       return res.status(404).json({ error: 'Meeting not found' });
     }
 
-    if (result.rows[0].host_id !== req.userId) {
-      return res.status(403).json({ error: 'Only host can kick participants' });
+    const { host_id, status } = result.rows[0];
+
+    if (host_id !== req.userId && status !== 'admitted') {
+      return res.status(403).json({ error: 'Not authorized to view messages' });
     }
 
-    await query('UPDATE meeting_participants SET left_at = NOW() WHERE meeting_id = $1 AND user_id = $2', [
-      meetingId,
-      userId,
-    ]);
+    const before = req.query.before ? parseInt(String(req.query.before), 10) : undefined;
+    const limit = req.query.limit ? parseInt(String(req.query.limit), 10) : undefined;
+
+    if ((before !== undefined && Number.isNaN(before)) || (limit !== undefined && Number.isNaN(limit))) {
+      return res.status(400).json({ error: 'before and limit must be numbers' });
+    }
 
-    res.json({ message: 'Participant kicked successfully' });
+    res.json(await getMessageHistory(meetingId, req.userId!, { before, limit }));
   } catch (error) {
-    console.error('Kick participant error:', error);
-    res.status(500).json({ error: 'Failed to kick participant' });
+    console.error('Get messages error:', error);
+    res.status(500).json({ error: 'Failed to get messages' });
   }
 });
 
+// Update Lobby Settings (Host only)
+router.patch(
+  '/:meetingId/lobby',
+  authenticateToken,
+  requireMeetingPermission('manage_settings', 'Not authorized to change lobby settings'),
+  lobbySettingsValidation,
+  validateRequest,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { meetingId } = req.params;
+
+      // Disabling the lobby only affects new joiners; people already waiting still need admitting
+      await query('UPDATE meetings SET lobby_enabled = $1 WHERE id = $2', [req.body.enabled, meetingId]);
+
+      res.json({ message: 'Lobby settings updated', lobbyEnabled: req.body.enabled });
+    } catch (error) {
+      console.error('Update lobby error:', error);
+      res.status(500).json({ error: 'Failed to update lobby settings' });
+    }
+  }
+);
+
+// Update Guest Settings (Host only)
+router.patch(
+  '/:meetingId/guests',
+  authenticateToken,
+  requireMeetingPermission('manage_settings', 'Not authorized to change guest settings'),
+  guestSettingsValidation,
+  validateRequest,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { meetingId } = req.params;
+
+      // Guests already in the meeting stay; they cannot join or reconnect once this is off
+      await query('UPDATE meetings SET allow_guests = $1 WHERE id = $2', [req.body.enabled, meetingId]);
+
+      res.json({ message: 'Guest settings updated', allowGuests: req.body.enabled });
+    } catch (error) {
+      console.error('Update guest settings error:', error);
+      res.status(500).json({ error: 'Failed to update guest settings' });
+    }
+  }
+);
+
+// Get Lobby (Host or co-host)
+router.get(
+  '/:meetingId/lobby',
+  authenticateToken,
+  requireMeetingPermission('manage_lobby', 'Not authorized to view the lobby'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const meetingId = req.params.meetingId as string;
+
+      const pending = await getPendingParticipants(meetingId);
+
+      res.json({
+        pending: pending.map(({ userId, name, isGuest, requestedAt }) => ({ userId, name, isGuest, requestedAt })),
+      });
+    } catch (error) {
+      console.error('Get lobby error:', error);
+      res.status(500).json({ error: 'Failed to get lobby' });
+    }
+  }
+);
+
+// Get Breakout Rooms (Host or co-host)
+router.get(
+  '/:meetingId/breakouts',
+  authenticateToken,
+  requireMeetingPermission('manage_breakouts', 'Not authorized to manage breakout rooms'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await getBreakoutOverview(req.params.meetingId as string));
+    } catch (error) {
+      console.error('Get breakouts error:', error);
+      res.status(500).json({ error: 'Failed to get breakout rooms' });
+    }
+  }
+);
+
+// Change Access Mode (Host only)
+router.patch(
+  '/:meetingId/access',
+  authenticateToken,
+  requireMeetingPermission('manage_settings', 'Not authorized to change access settings'),
+  accessSettingsValidation,
+  validateRequest,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { meetingId } = req.params;
+      const { accessMode } = req.body;
+
+      const result = await query('SELECT passcode_hash FROM meetings WHERE id = $1', [meetingId]);
+
+      let passcode: string | null = null;
+      let passcodeHash: string | null = result.rows[0].passcode_hash;
+
+      if (accessMode === 'passcode' && (req.body.passcode || !passcodeHash)) {
+        passcode = req.body.passcode || generatePasscode();
+        passcodeHash = await hashPasscode(passcode!);
+      }
+
+      await query('UPDATE meetings SET access_mode = $1, passcode_hash = $2 WHERE id = $3', [
+        accessMode,
+        accessMode === 'passcode' ? passcodeHash : null,
+        meetingId,
+      ]);
+
+      res.json({
+        message: 'Access settings updated',
+        accessMode,
+        ...(passcode && { passcode }),
+      });
+    } catch (error) {
+      console.error('Update access error:', error);
+      res.status(500).json({ error: 'Failed to update access settings' });
+    }
+  }
+);
+
+// Regenerate Join Code (Host only)
+// The old code stops working right away; links with the meeting ID keep working
+router.post(
+  '/:meetingId/code/regenerate',
+  authenticateToken,
+  requireMeetingPermission('manage_settings', 'Not authorized to change the join code'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const code = await regenerateMeetingCode(req.params.meetingId as string);
+
+      res.json({ message: 'Join code regenerated', code });
+    } catch (error) {
+      console.error('Regenerate code error:', error);
+      res.status(500).json({ error: 'Failed to regenerate join code' });
+    }
+  }
+);
+
+// Rotate Passcode (Host only)
+router.post(
+  '/:meetingId/passcode/rotate',
+  authenticateToken,
+  requireMeetingPermission('manage_settings', 'Not authorized to rotate the passcode'),
+  rotatePasscodeValidation,
+  validateRequest,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { meetingId } = req.params;
+
+      const result = await query('SELECT access_mode FROM meetings WHERE id = $1', [meetingId]);
+
+      if (result.rows[0].access_mode !== 'passcode') {
+        return res.status(400).json({ error: 'Meeting is not passcode-protected' });
+      }
+
+      // Participants who already joined keep their seat; only new joiners need the new passcode
+      const passcode: string = req.body.passcode || generatePasscode();
+      await query('UPDATE meetings SET passcode_hash = $1 WHERE id = $2', [
+        await hashPasscode(passcode),
+        meetingId,
+      ]);
+
+      res.json({ message: 'Passcode rotated', passcode });
+    } catch (error) {
+      console.error('Rotate passcode error:', error);
+      res.status(500).json({ error: 'Failed to rotate passcode' });
+    }
+  }
+);
+
+// Invite Participants (Host or co-host)
+router.post(
+  '/:meetingId/invitations',
+  authenticateToken,
+  requireMeetingPermission('invite_participants', 'Not authorized to invite participants'),
+  invitationValidation,
+  validateRequest,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const meetingId = req.params.meetingId as string;
+      const emails: string[] = [...new Set<string>(req.body.emails)];
+
+      const result = await query(
+        `SELECT m.*, u.name as host_name, u.email as host_email, u.locale as host_locale
+         FROM meetings m
+         JOIN users u ON m.host_id = u.id
+         WHERE m.id = $1`,
+        [meetingId]
+      );
+
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Meeting not found' });
+      }
+
+      const meeting = result.rows[0];
+
+      if (meeting.status === 'ended') {
+        return res.status(400).json({ error: 'Meeting has ended' });
+      }
+
+      // Invitees with an account get the email in their language, everyone else in the host's
+      const invitees = await query('SELECT LOWER(email) AS email, locale FROM users WHERE LOWER(email) = ANY($1)', [
+        emails.map((email) => email.toLowerCase()),
+      ]);
+      const inviteeLocales = new Map<string, string | null>(invitees.rows.map((u) => [u.email, u.locale]));
+
+      // Scheduled meetings get a calendar invitation attached
+      const calendar = meetingCalendar(meeting, 'REQUEST');
+      const nextOccurrence = formatSchedule(meeting)?.nextOccurrence;
+
+      // Invitations and their emails are stored together, so nobody holds an invitation they were never sent
+      const invitations = await transaction(async (client) => {
+        const created = [];
+        for (const email of emails) {
+          const invitation = await createInvitation(meetingId, email, req.userId!, client);
+          const inviteUrl = `${process.env.FRONTEND_URL}/meeting/${meetingId}?invite=${invitation.token}`;
+
+          await queueEmail(
+            meetingInvitationEmail(
+              email,
+              {
+                meetingTitle: meeting.title,
+                hostName: meeting.host_name,
+                inviteUrl,
+                expiresAt: invitation.expiresAt,
+                startsAt: nextOccurrence?.start,
+                timeZone: meeting.time_zone,
+                calendar: calendar || undefined,
+              },
+              inviteeLocales.get(invitation.email) || meeting.host_locale
+            ),
+            client
+          );
+
+          created.push({
+            id: invitation.id,
+            email: invitation.email,
+            expiresAt: invitation.expiresAt,
+            inviteUrl,
+            emailQueued: true,
+          });
+        }
+        return created;
+      });
+
+      res.status(201).json({ invitations });
+    } catch (error) {
+      console.error('Create invitations error:', error);
+      res.status(500).json({ error: 'Failed to create invitations' });
+    }
+  }
+);
+
+// List Invitations (Host or co-host)
+router.get(
+  '/:meetingId/invitations',
+  authenticateToken,
+  requireMeetingPermission('invite_participants', 'Not authorized to view invitations'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { meetingId } = req.params;
+
+      const result = await query(
+        `SELECT id, email, expires_at, accepted_at, revoked_at, created_at
+         FROM meeting_invitations
+         WHERE meeting_id = $1
+         ORDER BY created_at DESC`,
+        [meetingId]
+      );
+
+      res.json({
+        invitations: result.rows.map((i) => ({
+          id: i.id,
+          email: i.email,
+          expiresAt: i.expires_at,
+          acceptedAt: i.accepted_at,
+          revokedAt: i.revoked_at,
+          createdAt: i.created_at,
+        })),
+      });
+    } catch (error) {
+      console.error('List invitations error:', error);
+      res.status(500).json({ error: 'Failed to get invitations' });
+    }
+  }
+);
+
+// Revoke Invitation (Host or co-host)
+router.delete(
+  '/:meetingId/invitations/:invitationId',
+  authenticateToken,
+  requireMeetingPermission('invite_participants', 'Not authorized to revoke invitations'),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { meetingId, invitationId } = req.params;
+
+      const result = await query(
+        `UPDATE meeting_invitations SET revoked_at = NOW()
+         WHERE id = $1 AND meeting_id = $2 AND revoked_at IS NULL
+         RETURNING id`,
+        [invitationId, meetingId]
+      );
+
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Invitation not found' });
+      }
+
+      res.json({ message: 'Invitation revoked successfully' });
+    } catch (error) {
+      console.error('Revoke invitation error:', error);
+      res.status(500).json({ error: 'Failed to revoke invitation' });
+    }
+  }
+);
+
 export default router;
\ No newline at end of file
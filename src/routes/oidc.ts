@@ -0,0 +1,156 @@
+// src/routes/oidc.ts
+import express, { Request, Response } from 'express';
+import { query } from '../config/database';
+import { authenticateToken, AuthRequest, optionalAuthenticateToken } from '../middleware/auth';
+import { oidcCallbackValidation, validateRequest } from '../middleware/validator';
+import { oidcLimiter } from '../middleware/rateLimiter';
+import { completeAuthorization, createAuthorizationUrl, getOidcProvider, getOidcProviders } from '../utils/oidc';
+import { linkIdentity, listIdentities, resolveIdentityLogin, unlinkIdentity } from '../utils/identities';
+import { accountBlockMessage, getAuthUser } from '../utils/accounts';
+import { createSession, signLoginChallenge } from '../utils/sessions';
+import { recordSecurityEvent, requestContext } from '../utils/securityEvents';
+import { parseId } from '../utils/numbers';
+
+const router = express.Router();
+
+// List Sign-in Providers
+router.get('/providers', (req: Request, res: Response) => {
+  res.json({ providers: getOidcProviders().map(({ name, label }) => ({ name, label })) });
+});
+
+// List My Linked Identities
+router.get('/identities', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    res.json({ identities: await listIdentities(req.userId!) });
+  } catch (error) {
+    console.error('List identities error:', error);
+    res.status(500).json({ error: 'Failed to get linked identities' });
+  }
+});
+
+// Unlink an Identity
+router.delete('/identities/:identityId', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await unlinkIdentity(req.userId!, parseId(req.params.identityId));
+
+    if (!result.ok) {
+      return result.reason === 'not_found'
+        ? res.status(404).json({ error: 'Identity not found' })
+        : res.status(400).json({ error: 'Set a password before removing your only sign-in method' });
+    }
+
+    res.json({ message: 'Identity unlinked successfully' });
+  } catch (error) {
+    console.error('Unlink identity error:', error);
+    res.status(500).json({ error: 'Failed to unlink identity' });
+  }
+});
+
+// Start Sign-in (the client redirects the browser to authorizationUrl)
+router.get('/:provider/authorize', oidcLimiter, async (req: Request, res: Response) => {
+  try {
+    const provider = getOidcProvider(req.params.provider as string);
+
+    if (!provider) {
+      return res.status(404).json({ error: 'Unknown sign-in provider' });
+    }
+
+    res.json({ authorizationUrl: await createAuthorizationUrl(provider) });
+  } catch (error) {
+    console.error('OIDC authorize error:', error);
+    res.status(500).json({ error: 'Failed to start sign-in' });
+  }
+});
+
+// Start Linking a Provider to the Signed-in Account
+router.post('/:provider/link', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const provider = getOidcProvider(req.params.provider as string);
+
+    if (!provider) {
+      return res.status(404).json({ error: 'Unknown sign-in provider' });
+    }
+
+    res.json({ authorizationUrl: await createAuthorizationUrl(provider, req.userId!) });
+  } catch (error) {
+    console.error('OIDC link error:', error);
+    res.status(500).json({ error: 'Failed to start linking' });
+  }
+});
+
+// Finish Sign-in or Linking
+// The frontend page at the redirect URI posts the code and state it received; a link
+// must be finished with the access token of the account that started it
+router.post(
+  '/:provider/callback',
+  oidcLimiter,
+  optionalAuthenticateToken,
+  oidcCallbackValidation,
+  validateRequest,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const provider = getOidcProvider(req.params.provider as string);
+
+      if (!provider) {
+        return res.status(404).json({ error: 'Unknown sign-in provider' });
+      }
+
+      const authorization = await completeAuthorization(provider, req.body.code, req.body.state, req.userId ?? null);
+
+      if (!authorization.ok) {
+        return res.status(401).json({ error: authorization.error });
+      }
+
+      if (authorization.linkUserId) {
+        const linked = await linkIdentity(authorization.linkUserId, provider, authorization.claims);
+
+        if (!linked.ok) {
+          return res.status(409).json({ error: 'This identity is already linked to another account' });
+        }
+
+        return res.json({ message: 'Identity linked successfully', provider: provider.name });
+      }
+
+      const login = await resolveIdentityLogin(provider, authorization.claims);
+
+      if (!login.ok) {
+        return login.reason === 'banned'
+          ? res.status(403).json({ error: accountBlockMessage('banned') })
+          : res.status(403).json({ error: 'Your provider did not confirm your email address' });
+      }
+
+      const authUser = await getAuthUser(login.userId);
+      if (authUser?.block) {
+        return res.status(403).json({ error: accountBlockMessage(authUser.block) });
+      }
+
+      const result = await query('SELECT id, email, name, totp_enabled_at FROM users WHERE id = $1', [
+        login.userId,
+      ]);
+      const user = result.rows[0];
+
+      // 2FA applies to every way of signing in
+      if (user.totp_enabled_at) {
+        return res.json({ twoFactorRequired: true, challengeToken: signLoginChallenge(user.id) });
+      }
+
+      const session = await createSession(user, requestContext(req));
+      await recordSecurityEvent(user.id, 'login_succeeded', requestContext(req), {
+        method: 'oidc',
+        provider: provider.name,
+      });
+
+      res.json({
+        token: session.accessToken,
+        refreshToken: session.refreshToken,
+        user: { id: user.id, email: user.email, name: user.name },
+        created: login.created,
+      });
+    } catch (error) {
+      console.error('OIDC callback error:', error);
+      res.status(500).json({ error: 'Sign-in failed' });
+    }
+  }
+);
+
+export default router;
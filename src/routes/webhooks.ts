@@ -0,0 +1,236 @@
+// src/routes/webhooks.ts
+import express, { Response } from 'express';
+import { query } from '../config/database';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { createWebhookValidation, updateWebhookValidation, validateRequest } from '../middleware/validator';
+import { generateWebhookSecret, replayDelivery, WEBHOOK_EVENT_TYPES } from '../utils/webhooks';
+import { parseId, queryInt } from '../utils/numbers';
+
+const router = express.Router();
+
+interface EndpointRow {
+  id: number;
+  url: string;
+  event_types: string[];
+  description: string | null;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const formatEndpoint = (endpoint: EndpointRow) => ({
+  id: endpoint.id,
+  url: endpoint.url,
+  eventTypes: endpoint.event_types,
+  description: endpoint.description,
+  isActive: endpoint.is_active,
+  createdAt: endpoint.created_at,
+  updatedAt: endpoint.updated_at,
+});
+
+const findEndpoint = async (endpointId: string, userId: number) => {
+  const result = await query('SELECT * FROM webhook_endpoints WHERE id = $1 AND user_id = $2', [
+    parseId(endpointId),
+    userId,
+  ]);
+  return result.rows[0];
+};
+
+// List Event Types
+router.get('/event-types', authenticateToken, (req: AuthRequest, res: Response) => {
+  res.json({ eventTypes: WEBHOOK_EVENT_TYPES });
+});
+
+// List My Webhooks
+router.get('/', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await query('SELECT * FROM webhook_endpoints WHERE user_id = $1 ORDER BY created_at', [
+      req.userId,
+    ]);
+
+    res.json({ webhooks: result.rows.map(formatEndpoint) });
+  } catch (error) {
+    console.error('List webhooks error:', error);
+    res.status(500).json({ error: 'Failed to get webhooks' });
+  }
+});
+
+// Register Webhook
+// The signing secret is only returned here and when it is rotated
+router.post(
+  '/',
+  authenticateToken,
+  createWebhookValidation,
+  validateRequest,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { url, eventTypes, description } = req.body;
+      const secret = generateWebhookSecret();
+
+      const result = await query(
+        `INSERT INTO webhook_endpoints (user_id, url, secret, event_types, description)
+         VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+        [req.userId, url, secret, [...new Set(eventTypes as string[])], description || null]
+      );
+
+      res.status(201).json({ webhook: { ...formatEndpoint(result.rows[0]), secret } });
+    } catch (error) {
+      console.error('Create webhook error:', error);
+      res.status(500).json({ error: 'Failed to create webhook' });
+    }
+  }
+);
+
+// Update Webhook
+router.patch(
+  '/:webhookId',
+  authenticateToken,
+  updateWebhookValidation,
+  validateRequest,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const endpoint = await findEndpoint(req.params.webhookId as string, req.userId!);
+
+      if (!endpoint) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+
+      const { url, eventTypes, description, isActive } = req.body;
+      const result = await query(
+        `UPDATE webhook_endpoints SET url = $2, event_types = $3, description = $4, is_active = $5,
+           updated_at = NOW()
+         WHERE id = $1 RETURNING *`,
+        [
+          endpoint.id,
+          url ?? endpoint.url,
+          eventTypes ? [...new Set(eventTypes as string[])] : endpoint.event_types,
+          description ?? endpoint.description,
+          isActive ?? endpoint.is_active,
+        ]
+      );
+
+      res.json({ webhook: formatEndpoint(result.rows[0]) });
+    } catch (error) {
+      console.error('Update webhook error:', error);
+      res.status(500).json({ error: 'Failed to update webhook' });
+    }
+  }
+);
+
+// Rotate Signing Secret
+router.post('/:webhookId/rotate-secret', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const endpoint = await findEndpoint(req.params.webhookId as string, req.userId!);
+
+    if (!endpoint) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const secret = generateWebhookSecret();
+    await query('UPDATE webhook_endpoints SET secret = $1, updated_at = NOW() WHERE id = $2', [secret, endpoint.id]);
+
+    res.json({ secret });
+  } catch (error) {
+    console.error('Rotate webhook secret error:', error);
+    res.status(500).json({ error: 'Failed to rotate webhook secret' });
+  }
+});
+
+// Delete Webhook (its delivery log goes with it)
+router.delete('/:webhookId', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const endpoint = await findEndpoint(req.params.webhookId as string, req.userId!);
+
+    if (!endpoint) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    await query('DELETE FROM webhook_endpoints WHERE id = $1', [endpoint.id]);
+
+    res.json({ message: 'Webhook deleted successfully' });
+  } catch (error) {
+    console.error('Delete webhook error:', error);
+    res.status(500).json({ error: 'Failed to delete webhook' });
+  }
+});
+
+// Delivery Log
+// ?status=pending|succeeded|failed filters, newest first
+router.get('/:webhookId/deliveries', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const endpoint = await findEndpoint(req.params.webhookId as string, req.userId!);
+
+    if (!endpoint) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const status = req.query.status;
+    if (status !== undefined && status !== 'pending' && status !== 'succeeded' && status !== 'failed') {
+      return res.status(400).json({ error: 'status must be "pending", "succeeded" or "failed"' });
+    }
+
+    const limit = queryInt(req.query.limit, 50, 200);
+    const result = await query(
+      `SELECT * FROM webhook_deliveries
+       WHERE endpoint_id = $1 AND ($2::text IS NULL OR status = $2)
+       ORDER BY created_at DESC, id DESC
+       LIMIT $3`,
+      [endpoint.id, status ?? null, limit]
+    );
+
+    res.json({
+      deliveries: result.rows.map((d) => ({
+        id: d.id,
+        eventId: d.event_id,
+        eventType: d.event_type,
+        payload: d.payload,
+        status: d.status,
+        attempts: d.attempts,
+        nextAttemptAt: d.status === 'pending' ? d.next_attempt_at : null,
+        lastAttemptAt: d.last_attempt_at,
+        responseStatus: d.response_status,
+        lastError: d.last_error,
+        createdAt: d.created_at,
+        deliveredAt: d.delivered_at,
+      })),
+    });
+  } catch (error) {
+    console.error('List webhook deliveries error:', error);
+    res.status(500).json({ error: 'Failed to get webhook deliveries' });
+  }
+});
+
+// Replay a Delivery
+router.post(
+  '/:webhookId/deliveries/:deliveryId/replay',
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const endpoint = await findEndpoint(req.params.webhookId as string, req.userId!);
+
+      if (!endpoint) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+
+      if (!endpoint.is_active) {
+        return res.status(409).json({ error: 'Webhook is disabled' });
+      }
+
+      const delivery = await replayDelivery(endpoint.id, parseId(req.params.deliveryId));
+
+      if (!delivery) {
+        return res.status(404).json({ error: 'Delivery not found' });
+      }
+
+      res.status(202).json({
+        message: 'Delivery queued',
+        delivery: { id: delivery.id, status: delivery.status, createdAt: delivery.created_at },
+      });
+    } catch (error) {
+      console.error('Replay webhook delivery error:', error);
+      res.status(500).json({ error: 'Failed to replay webhook delivery' });
+    }
+  }
+);
+
+export default router;
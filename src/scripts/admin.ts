@@ -0,0 +1,29 @@
+// src/scripts/admin.ts
+// Usage: admin grant <email> | revoke <email>
+import { pool, query } from '../config/database';
+
+const run = async () => {
+  const [command, email] = process.argv.slice(2);
+
+  if ((command !== 'grant' && command !== 'revoke') || !email) {
+    throw new Error('Usage: admin grant <email> | revoke <email>');
+  }
+
+  const result = await query('UPDATE users SET is_admin = $1 WHERE LOWER(email) = LOWER($2) RETURNING id', [
+    command === 'grant',
+    email,
+  ]);
+
+  if (result.rows.length === 0) {
+    throw new Error(`No user with email ${email}`);
+  }
+  console.log(command === 'grant' ? `${email} is now an administrator` : `${email} is no longer an administrator`);
+};
+
+run()
+  .then(() => pool.end())
+  .catch(async (error) => {
+    console.error('❌ Admin command failed:', error instanceof Error ? error.message : error);
+    await pool.end();
+    process.exit(1);
+  });
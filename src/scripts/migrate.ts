@@ -0,0 +1,47 @@
+// src/scripts/migrate.ts
+// Usage: migrate up | down [steps] | status
+import { pool } from '../config/database';
+import { getMigrationStatus, migrateDown, migrateUp } from '../config/migrator';
+
+const run = async () => {
+  const [command = 'up', arg] = process.argv.slice(2);
+
+  switch (command) {
+    case 'up': {
+      const applied = await migrateUp();
+      console.log(applied.length ? `Applied ${applied.length} migration(s)` : 'Database is up to date');
+      break;
+    }
+    case 'down': {
+      const steps = parseInt(arg || '1', 10);
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error('down expects a positive number of steps');
+      }
+      const reverted = await migrateDown(steps);
+      console.log(`Reverted ${reverted.length} migration(s)`);
+      break;
+    }
+    case 'status': {
+      const status = await getMigrationStatus();
+      console.table(
+        status.map((m) => ({
+          version: m.version,
+          name: m.name,
+          state: m.state,
+          appliedAt: m.appliedAt ? new Date(m.appliedAt).toISOString() : '',
+        }))
+      );
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}". Use up, down [steps] or status.`);
+  }
+};
+
+run()
+  .then(() => pool.end())
+  .catch(async (error) => {
+    console.error('❌ Migration failed:', error instanceof Error ? error.message : error);
+    await pool.end();
+    process.exit(1);
+  });
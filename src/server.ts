@@ -2,13 +2,23 @@
 import express from "express";
 import { createServer } from "http";
 import { Server } from "socket.io";
+import { ClientToServerEvents, ServerToClientEvents } from "./types/socket";
 import cors from "cors";
 import dotenv from "dotenv";
 import { registerSocketHandlers } from "./socketHandlers";
-import { initializeDatabase } from "./config/database";
+import { migrateUp } from "./config/migrator";
 import authRoutes from "./routes/auth";
+import oidcRoutes from "./routes/oidc";
+import accountRoutes from "./routes/account";
 import meetingRoutes from "./routes/meeting";
+import webhookRoutes from "./routes/webhooks";
+import adminRoutes from "./routes/admin";
+import devRoutes from "./routes/dev";
 import { generalLimiter } from "./middleware/rateLimiter";
+import { startWebhookWorker } from "./utils/webhooks";
+import { startEmailWorker } from "./utils/emailOutbox";
+import { startJobScheduler } from "./utils/jobs";
+import { housekeepingJobs } from "./utils/housekeeping";
 
 dotenv.config();
 
@@ -31,7 +41,7 @@ app.use(
 app.use(generalLimiter);
 
 // Configure Socket.IO with CORS
-const io = new Server(server, {
+const io = new Server<ClientToServerEvents, ServerToClientEvents>(server, {
   cors: {
     origin: [
       "http://localhost:5173",
@@ -45,9 +55,21 @@ const io = new Server(server, {
   transports: ["websocket", "polling"],
 });
 
+// Routes can reach Socket.IO through req.app.get("io")
+app.set("io", io);
+
 // Routes
+app.use("/api/auth/oidc", oidcRoutes);
 app.use("/api/auth", authRoutes);
+app.use("/api/account", accountRoutes);
 app.use("/api/meeting", meetingRoutes);
+app.use("/api/webhooks", webhookRoutes);
+app.use("/api/admin", adminRoutes);
+
+// Email previews and other development helpers
+if (process.env.NODE_ENV !== "production") {
+  app.use("/api/dev", devRoutes);
+}
 
 // Health check
 app.get("/", (req, res) => {
@@ -67,13 +89,19 @@ const PORT = process.env.PORT || 5000;
 
 const startServer = async () => {
   try {
-    await initializeDatabase();
+    // Set MIGRATE_ON_START=false to run `npm run migrate` as a separate deploy step
+    if (process.env.MIGRATE_ON_START !== "false") {
+      await migrateUp();
+    }
     registerSocketHandlers(io);
+    startWebhookWorker();
+    startEmailWorker();
+    startJobScheduler(housekeepingJobs(io));
 
     server.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
       console.log(`📡 Socket.IO server ready for connections`);
-      console.log(`🗄️  Database connected and initialized`);
+      console.log(`🗄️  Database connected and migrated`);
     });
   } catch (error) {
     console.error("❌ Failed to start server:", error);
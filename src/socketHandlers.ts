@@ -1,16 +1,89 @@
 // src/socketHandlers.ts
-import { Server, Socket } from "socket.io";
-import jwt from "jsonwebtoken";
 import { query } from "./config/database";
 import { logger } from "./utils/logger";
+import { isSessionActive, verifyAccessToken, verifyGuestToken } from "./utils/sessions";
+import {
+  countAdmittedParticipants,
+  getPendingParticipants,
+  markParticipantRemoved,
+  moderatorRoom,
+  setPendingStatus,
+} from "./utils/lobby";
+import { checkMeetingAccess } from "./utils/meetingAccess";
+import { getJoinWindow } from "./utils/schedule";
+import { JoinRoomPayload, SignalingServer, SocketAck, SocketWithAuth } from "./types/socket";
+import { registerChatHandlers, sendChatHistory } from "./sockets/chat";
+import { registerRoleHandlers, syncModeratorRoom, transferHostIfLeaving } from "./sockets/roles";
+import { registerModerationHandlers } from "./sockets/moderation";
+import { rejectEvent, validateIncomingEvents } from "./sockets/validation";
+import {
+  limitConnectionsPerIp,
+  limitConnectionsPerUser,
+  limitIncomingEvents,
+  loadSocketRateLimits,
+} from "./sockets/rateLimit";
+import { holdForReconnect, issueResumeToken, registerReconnectHandlers } from "./sockets/reconnect";
+import { detachDevice, moveCallToDevice, registerDeviceHandlers } from "./sockets/devices";
+import { recordAttendance } from "./utils/attendance";
+import { emitMeetingWebhookEvent } from "./utils/webhooks";
+import { accountBlockMessage, getAuthUser } from "./utils/accounts";
+import { getGuestAccess } from "./utils/guests";
+import { getIceServers } from "./utils/iceServers";
+import { resolveMeetingId } from "./utils/meetingCodes";
+import {
+  addDevice,
+  describeUserAgent,
+  getActiveDevices,
+  getDeviceSocketIds,
+  removeDevice,
+} from "./utils/devices";
+import { getActiveBreakoutRoom, joinMediaRoom, registerBreakoutHandlers } from "./sockets/breakouts";
+import { meetingAudience } from "./utils/breakouts";
+import {
+  checkMeetingPermission,
+  checkScreenSharePermission,
+  getMeetingRole,
+  outranks,
+} from "./utils/permissions";
+import { getRoomState, updateMediaState } from "./utils/mediaState";
+
+// Adds an admitted participant to the call and starts the WebRTC mesh setup.
+// While breakouts are open, assigned participants land straight in their room.
+const enterRoom = async (socket: SocketWithAuth, roomId: string) => {
+  socket.meetingId = roomId;
+
+  const { role } = await getMeetingRole(roomId, socket.userId!);
+  await syncModeratorRoom(socket, roomId, role);
+
+  const breakoutRoomId = await getActiveBreakoutRoom(roomId, socket.userId!);
+  if (breakoutRoomId !== null) {
+    socket.emit("breakout-moved", { breakoutRoomId });
+  }
+  joinMediaRoom(socket, roomId, breakoutRoomId);
+  await recordAttendance([socket.id], "join");
+
+  // Further devices of someone already in the meeting are not a new join
+  if ((await getActiveDevices(roomId, socket.userId!)).length === 1) {
+    await emitMeetingWebhookEvent(roomId, "participant.joined", { userId: socket.userId! });
+  }
+
+  socket.emit("room-state", await getRoomState(roomId));
+  await sendChatHistory(socket, roomId);
+  await issueResumeToken(socket, roomId);
+
+  logger.info(`User ${socket.userId} joined room ${roomId}`);
+};
+
+const emitLobbyUpdate = async (io: SignalingServer, meetingId: string) => {
+  const pending = await getPendingParticipants(meetingId);
+  io.to(moderatorRoom(meetingId)).emit("lobby-updated", { pending });
+};
+
+export const registerSocketHandlers = (io: SignalingServer) => {
+  const rateLimits = loadSocketRateLimits();
+
+  io.use(limitConnectionsPerIp(io));
 
-interface SocketWithAuth extends Socket {
-  userId?: number;
-  userEmail?: string;
-  meetingId?: string;
-}
-
-export const registerSocketHandlers = (io: Server) => {
   // Socket authentication middleware
   io.use(async (socket: SocketWithAuth, next) => {
     try {
@@ -20,43 +93,74 @@ export const registerSocketHandlers = (io: Server) => {
         return next(new Error("Authentication token required"));
       }
 
-      const decoded = jwt.verify(token, process.env.JWT_SECRET!) as {
-        userId: number;
-        email: string;
-      };
+      // Guests connect with the meeting-scoped token from guest-join instead of an access token
+      const guest = verifyGuestToken(token);
+      if (guest) {
+        const access = await getGuestAccess(guest.userId, guest.meetingId);
+        if (!access.ok) {
+          return next(new Error(access.error));
+        }
+
+        socket.userId = guest.userId;
+        socket.guestMeetingId = guest.meetingId;
+        return next();
+      }
 
-      const result = await query(
-        "SELECT id, email, is_verified FROM users WHERE id = $1",
-        [decoded.userId]
-      );
+      const decoded = verifyAccessToken(token);
 
-      if (result.rows.length === 0 || !result.rows[0].is_verified) {
+      const user = await getAuthUser(decoded.userId);
+
+      if (!user || !user.isVerified) {
         return next(new Error("Invalid or unverified user"));
       }
 
+      if (user.block) {
+        return next(new Error(accountBlockMessage(user.block)));
+      }
+
+      if (!(await isSessionActive(decoded.sessionId, decoded.userId))) {
+        return next(new Error("Session has been revoked"));
+      }
+
       socket.userId = decoded.userId;
-      socket.userEmail = decoded.email;
+      // The account email, which may have changed since the token was issued
+      socket.userEmail = user.email;
+      socket.sessionId = decoded.sessionId;
       next();
     } catch (error) {
       next(new Error("Invalid authentication token"));
     }
   });
 
+  io.use(limitConnectionsPerUser(io));
+
   io.on("connection", (socket: SocketWithAuth) => {
     logger.info(`User Connected: ${socket.id} (User ID: ${socket.userId})`);
 
+    // Floods are cut off first, then unknown events and malformed payloads are rejected
+    socket.use(limitIncomingEvents(socket, rateLimits));
+    socket.use(validateIncomingEvents(socket));
+
     // Join room with authorization check
-    socket.on("join-room", async (roomId: string) => {
+    // Accepts a bare meeting ID or { roomId, passcode?, inviteToken?, deviceLabel?, moveCall? };
+    // roomId may also be the meeting's join code
+    socket.on("join-room", async (data) => {
+      const { roomId: requestedRoom, deviceLabel, moveCall, ...credentials } =
+        typeof data === "string" ? { roomId: data } : (data as JoinRoomPayload);
+
       try {
+        if (socket.meetingId) {
+          socket.emit("error", { message: "This connection has already joined a meeting" });
+          return;
+        }
+
         // Verify meeting exists and user is authorized
-        const meetingResult = await query(
-          `SELECT m.*, 
-           (SELECT COUNT(*) FROM meeting_participants WHERE meeting_id = m.id AND left_at IS NULL) as current_participants
-           FROM meetings m WHERE m.id = $1`,
-          [roomId]
-        );
+        const roomId = await resolveMeetingId(requestedRoom);
+        const meetingResult = roomId
+          ? await query("SELECT * FROM meetings WHERE id = $1", [roomId])
+          : { rows: [] };
 
-        if (meetingResult.rows.length === 0) {
+        if (!roomId || meetingResult.rows.length === 0) {
           socket.emit("error", { message: "Meeting not found" });
           return;
         }
@@ -68,144 +172,370 @@ export const registerSocketHandlers = (io: Server) => {
           return;
         }
 
-        const currentParticipants = parseInt(meeting.current_participants);
-        if (currentParticipants >= meeting.max_participants) {
-          socket.emit("error", { message: "Meeting is full" });
+        if (socket.guestMeetingId && (socket.guestMeetingId !== roomId || !meeting.allow_guests)) {
+          socket.emit("error", { message: "Guest access is not valid for this meeting" });
           return;
         }
 
-        // Check if user is a participant or host
+        // Check whether the user already joined through the REST endpoint
         const participantResult = await query(
           "SELECT * FROM meeting_participants WHERE meeting_id = $1 AND user_id = $2",
           [roomId, socket.userId]
         );
 
         const isHost = meeting.host_id === socket.userId;
+        const participant = participantResult.rows[0];
+
+        const joinWindow = getJoinWindow(meeting);
+        if (!joinWindow.open && !isHost) {
+          socket.emit("error", {
+            message: joinWindow.opensAt ? "Meeting has not started yet" : "Meeting has no upcoming occurrences",
+            opensAt: joinWindow.opensAt,
+          });
+          return;
+        }
+
+        if (participant?.status === "denied") {
+          socket.emit("error", { message: "The host denied your request to join" });
+          return;
+        }
+
+        const access = await checkMeetingAccess(
+          meeting,
+          { id: socket.userId!, email: socket.userEmail ?? "" },
+          credentials,
+          Boolean(participant)
+        );
 
-        if (participantResult.rows.length === 0 && !isHost) {
-          socket.emit("error", { message: "Not authorized to join this meeting" });
+        if (!access.allowed) {
+          socket.emit("error", { message: access.error });
           return;
         }
 
-        // Update socket_id for the participant
+        const alreadyAdmitted = participant?.status === "admitted";
+
+        // A locked meeting only lets back in people who were already admitted
+        if (meeting.is_locked && !isHost && !alreadyAdmitted) {
+          socket.emit("error", { message: "Meeting is locked" });
+          return;
+        }
+
+        const waitsInLobby = meeting.lobby_enabled && !isHost && !alreadyAdmitted;
+
+        // Every device takes a seat; moving the call frees the seats of the user's other devices
+        if (!waitsInLobby) {
+          const currentParticipants = await countAdmittedParticipants(roomId);
+          const ownDevices = moveCall && alreadyAdmitted ? (await getActiveDevices(roomId, socket.userId!)).length : 0;
+          if (currentParticipants - ownDevices >= meeting.max_participants) {
+            socket.emit("error", { message: "Meeting is full" });
+            return;
+          }
+        }
+
+        // A second device keeps the participant's original join time
         await query(
-          `INSERT INTO meeting_participants (meeting_id, user_id, socket_id) 
-           VALUES ($1, $2, $3)
-           ON CONFLICT (meeting_id, user_id) 
-           DO UPDATE SET socket_id = $3, joined_at = NOW(), left_at = NULL`,
-          [roomId, socket.userId, socket.id]
+          `INSERT INTO meeting_participants (meeting_id, user_id, status, role)
+           VALUES ($1, $2, $3, CASE WHEN $4 THEN 'host' ELSE 'attendee' END)
+           ON CONFLICT (meeting_id, user_id)
+           DO UPDATE SET status = $3, left_at = NULL,
+             joined_at = CASE WHEN meeting_participants.left_at IS NULL THEN meeting_participants.joined_at ELSE NOW() END,
+             role = CASE WHEN $4 THEN 'host' ELSE meeting_participants.role END`,
+          [roomId, socket.userId, waitsInLobby ? "pending" : "admitted", isHost]
         );
 
-        socket.join(roomId);
+        const label = deviceLabel?.trim() || describeUserAgent(socket.handshake.headers["user-agent"]);
+        if (label) {
+          socket.deviceLabel = label;
+        }
+        await addDevice(roomId, socket.userId!, socket.id, label);
+
         socket.meetingId = roomId;
 
-        // Get all users in room
-        const participantsResult = await query(
-          `SELECT socket_id, user_id FROM meeting_participants 
-           WHERE meeting_id = $1 AND left_at IS NULL AND socket_id != $2`,
-          [roomId, socket.id]
-        );
+        if (waitsInLobby) {
+          socket.emit("lobby-waiting", { meetingId: roomId, title: meeting.title });
+          await emitLobbyUpdate(io, roomId);
+          logger.info(`User ${socket.userId} is waiting in the lobby of room ${roomId}`);
+          return;
+        }
 
-        const otherUsers = participantsResult.rows.map((p) => p.socket_id);
-        
-        socket.emit("all-users", otherUsers);
-        socket.to(roomId).emit("user-joined", socket.id);
+        if (meeting.status === "scheduled") {
+          const started = await query(
+            "UPDATE meetings SET status = 'active' WHERE id = $1 AND status = 'scheduled'",
+            [roomId]
+          );
+          if (started.rowCount) {
+            await emitMeetingWebhookEvent(roomId, "meeting.started", { startedBy: socket.userId! });
+          }
+        }
+
+        if (moveCall) {
+          await moveCallToDevice(io, socket);
+        }
 
-        logger.info(`User ${socket.userId} joined room ${roomId}`);
+        await enterRoom(socket, roomId);
       } catch (error) {
         logger.error("Join room error:", error);
         socket.emit("error", { message: "Failed to join room" });
       }
     });
 
+    // Lobby moderation (host and co-hosts)
+    const handleLobbyDecision = async (
+      decision: "admitted" | "denied",
+      userIds: number[] | "all"
+    ) => {
+      try {
+        if (!socket.meetingId) return;
+
+        const check = await checkMeetingPermission(socket.meetingId, socket.userId!, "manage_lobby");
+        if (!check.allowed) {
+          socket.emit("error", { message: "Not authorized to manage the lobby" });
+          return;
+        }
+
+        const meetingResult = await query(
+          "SELECT max_participants FROM meetings WHERE id = $1",
+          [socket.meetingId]
+        );
+
+        const meetingId = socket.meetingId;
+        let targets = userIds;
+
+        // Never admit more people than there are free seats
+        if (decision === "admitted") {
+          const pending = await getPendingParticipants(meetingId);
+          const freeSeats =
+            meetingResult.rows[0].max_participants - (await countAdmittedParticipants(meetingId));
+          const requested =
+            userIds === "all" ? pending : pending.filter((p) => userIds.includes(p.userId));
+
+          if (requested.length > freeSeats) {
+            socket.emit("error", { message: `Only ${Math.max(freeSeats, 0)} seat(s) left in the meeting` });
+          }
+          targets = requested.slice(0, Math.max(freeSeats, 0)).map((p) => p.userId);
+        }
+
+        const updated = await setPendingStatus(meetingId, targets, decision);
+
+        // Every device the user is waiting on gets the decision
+        for (const socketId of updated.length ? await getDeviceSocketIds(meetingId, updated) : []) {
+          const waitingSocket = io.sockets.sockets.get(socketId) as SocketWithAuth | undefined;
+          if (!waitingSocket || waitingSocket.meetingId !== meetingId) continue;
+
+          if (decision === "admitted") {
+            // Guests cannot fetch ICE servers over REST, so their TURN credentials come with the admission
+            waitingSocket.emit("lobby-admitted", {
+              meetingId,
+              ...(waitingSocket.guestMeetingId && { ice: getIceServers(waitingSocket.userId!) }),
+            });
+            await enterRoom(waitingSocket, meetingId);
+          } else {
+            waitingSocket.emit("lobby-denied", {
+              meetingId,
+              message: "The host denied your request to join",
+            });
+            delete waitingSocket.meetingId;
+            await removeDevice(socketId);
+          }
+        }
+
+        await emitLobbyUpdate(io, meetingId);
+        logger.info(
+          `Host ${socket.userId} ${decision} ${updated.length} lobby participant(s) in room ${meetingId}`
+        );
+      } catch (error) {
+        logger.error("Lobby decision error:", error);
+        socket.emit("error", { message: "Failed to update lobby" });
+      }
+    };
+
+    socket.on("admit-participant", (data) =>
+      handleLobbyDecision("admitted", [data.userId])
+    );
+    socket.on("deny-participant", (data) =>
+      handleLobbyDecision("denied", [data.userId])
+    );
+    socket.on("admit-all", () => handleLobbyDecision("admitted", "all"));
+    socket.on("deny-all", () => handleLobbyDecision("denied", "all"));
+
+    registerChatHandlers(io, socket);
+    registerRoleHandlers(io, socket);
+    registerModerationHandlers(io, socket);
+    registerBreakoutHandlers(io, socket);
+    registerReconnectHandlers(io, socket);
+    registerDeviceHandlers(io, socket);
+
+    // Signaling only reaches peers in the same meeting and media room (main room or breakout)
+    const checkTarget = (target: string, ack: SocketAck | undefined) => {
+      if (!socket.meetingId || !socket.mediaRoom) {
+        rejectEvent(socket, ack, "NOT_IN_MEETING", "Join a meeting before signaling");
+        return false;
+      }
+
+      const peer = io.sockets.sockets.get(target) as SocketWithAuth | undefined;
+      if (!peer || peer.meetingId !== socket.meetingId || peer.mediaRoom !== socket.mediaRoom) {
+        rejectEvent(socket, ack, "TARGET_NOT_IN_ROOM", "Target is not in your meeting room");
+        return false;
+      }
+      return true;
+    };
+
     // WebRTC signaling events
-    socket.on("offer", (payload) => {
+    socket.on("offer", (payload, ack) => {
+      if (!checkTarget(payload.target, ack)) return;
       io.to(payload.target).emit("offer", {
         ...payload,
         caller: socket.id,
       });
+      ack?.({ ok: true });
       logger.info(`Offer sent from ${socket.id} to ${payload.target}`);
     });
 
-    socket.on("answer", (payload) => {
+    socket.on("answer", (payload, ack) => {
+      if (!checkTarget(payload.target, ack)) return;
       io.to(payload.target).emit("answer", {
         ...payload,
         caller: socket.id,
       });
+      ack?.({ ok: true });
       logger.info(`Answer sent from ${socket.id} to ${payload.target}`);
     });
 
-    socket.on("ice-candidate", (incoming) => {
+    socket.on("ice-candidate", (incoming, ack) => {
+      if (!checkTarget(incoming.target, ack)) return;
       io.to(incoming.target).emit("ice-candidate", {
         ...incoming,
         caller: socket.id,
       });
+      ack?.({ ok: true });
       logger.info(`ICE candidate sent from ${socket.id} to ${incoming.target}`);
     });
 
-    // Screen sharing events
-    socket.on("screen-sharing-started", (data) => {
-      socket.to(data.roomId).emit("screen-sharing-started", {
-        userId: socket.id,
-        ...data,
-      });
-      logger.info(
-        `User ${socket.id} started screen sharing in room ${data.roomId}`
-      );
+    // Screen sharing events (the room is always the sender's own, never client-supplied)
+    socket.on("screen-sharing-started", async (data, ack) => {
+      try {
+        if (!socket.meetingId || !socket.mediaRoom) {
+          rejectEvent(socket, ack, "NOT_IN_MEETING", "Join a meeting before sharing your screen");
+          return;
+        }
+
+        const check = await checkScreenSharePermission(socket.meetingId, socket.userId!);
+        if (!check.allowed) {
+          rejectEvent(socket, ack, "FORBIDDEN", "Not allowed to share your screen");
+          return;
+        }
+
+        const state = await updateMediaState(socket.meetingId, socket.id, { screenSharing: true });
+        socket.to(meetingAudience(socket.meetingId)).emit("media-state-updated", state);
+
+        socket.to(socket.mediaRoom).emit("screen-sharing-started", {
+          userId: socket.id,
+          ...data,
+        });
+        ack?.({ ok: true });
+        logger.info(
+          `User ${socket.id} started screen sharing in room ${socket.mediaRoom}`
+        );
+      } catch (error) {
+        logger.error("Screen sharing error:", error);
+        rejectEvent(socket, ack, "INTERNAL_ERROR", "Failed to start screen sharing");
+      }
     });
 
-    socket.on("screen-sharing-stopped", (data) => {
-      socket.to(data.roomId).emit("screen-sharing-stopped", {
-        userId: socket.id,
-        ...data,
-      });
-      logger.info(
-        `User ${socket.id} stopped screen sharing in room ${data.roomId}`
-      );
+    socket.on("screen-sharing-stopped", async (data, ack) => {
+      try {
+        if (!socket.meetingId || !socket.mediaRoom) {
+          rejectEvent(socket, ack, "NOT_IN_MEETING", "Join a meeting before sharing your screen");
+          return;
+        }
+
+        const state = await updateMediaState(socket.meetingId, socket.id, { screenSharing: false });
+        socket.to(meetingAudience(socket.meetingId)).emit("media-state-updated", state);
+
+        socket.to(socket.mediaRoom).emit("screen-sharing-stopped", {
+          userId: socket.id,
+          ...data,
+        });
+        ack?.({ ok: true });
+        logger.info(
+          `User ${socket.id} stopped screen sharing in room ${socket.mediaRoom}`
+        );
+      } catch (error) {
+        logger.error("Screen sharing error:", error);
+        rejectEvent(socket, ack, "INTERNAL_ERROR", "Failed to stop screen sharing");
+      }
     });
 
-    // Kick user (host only)
-    socket.on("kick-user", async (data: { targetSocketId: string }) => {
+    // Kick user (host and co-hosts, only people ranked below them); all their devices leave
+    socket.on("kick-user", async (data) => {
       try {
         if (!socket.meetingId) return;
+        const meetingId = socket.meetingId;
 
-        const meetingResult = await query(
-          "SELECT host_id FROM meetings WHERE id = $1",
-          [socket.meetingId]
+        const check = await checkMeetingPermission(meetingId, socket.userId!, "kick_participants");
+        if (!check.allowed) {
+          socket.emit("error", { message: "Not authorized to kick users" });
+          return;
+        }
+
+        const targetResult = await query(
+          "SELECT user_id FROM participant_devices WHERE meeting_id = $1 AND socket_id = $2 AND left_at IS NULL",
+          [meetingId, data.targetSocketId]
         );
+        if (targetResult.rows.length === 0) {
+          socket.emit("error", { message: "Participant not found" });
+          return;
+        }
 
-        if (
-          meetingResult.rows.length === 0 ||
-          meetingResult.rows[0].host_id !== socket.userId
-        ) {
+        const targetUserId = targetResult.rows[0].user_id as number;
+        const targetRole = (await getMeetingRole(meetingId, targetUserId)).role;
+
+        if (targetRole && !outranks(check.role, targetRole)) {
           socket.emit("error", { message: "Not authorized to kick users" });
           return;
         }
 
-        io.to(data.targetSocketId).emit("kicked", {
-          message: "You have been removed from the meeting",
-        });
-
-        const targetSocket = io.sockets.sockets.get(data.targetSocketId);
-        if (targetSocket) {
-          targetSocket.leave(socket.meetingId);
+        // Removing the device rows also drops their resume tokens
+        for (const socketId of await getDeviceSocketIds(meetingId, [targetUserId])) {
+          await removeDevice(socketId);
+          await recordAttendance([socketId], "kick");
+          const targetSocket = detachDevice(io, socketId, meetingId);
+          targetSocket?.emit("kicked", {
+            message: "You have been removed from the meeting",
+          });
         }
+        await markParticipantRemoved(meetingId, targetUserId);
+        await emitMeetingWebhookEvent(meetingId, "participant.left", { userId: targetUserId, reason: "kicked" });
 
-        logger.info(`User ${data.targetSocketId} kicked by host ${socket.id}`);
+        logger.info(`User ${targetUserId} kicked from room ${meetingId} by ${socket.id}`);
       } catch (error) {
         logger.error("Kick user error:", error);
       }
     });
 
-    socket.on("disconnect", async () => {
+    socket.on("disconnect", async (reason) => {
       try {
-        if (socket.meetingId) {
-          await query(
-            "UPDATE meeting_participants SET left_at = NOW() WHERE socket_id = $1",
-            [socket.id]
-          );
-
-          socket.to(socket.meetingId).emit("user-left", socket.id);
+        // Admitted participants get a grace period to resume before they leave
+        if (socket.meetingId && !(await holdForReconnect(io, socket, reason))) {
+          const removed = await removeDevice(socket.id);
+
+          if (removed?.status === "pending") {
+            await emitLobbyUpdate(io, socket.meetingId);
+          } else {
+            if (socket.mediaRoom) {
+              socket.to(socket.mediaRoom).emit("user-left", socket.id);
+            }
+            if (removed) {
+              await recordAttendance([socket.id], "leave");
+            }
+            if (removed?.lastDevice) {
+              await emitMeetingWebhookEvent(socket.meetingId, "participant.left", {
+                userId: socket.userId!,
+                reason: "left",
+              });
+              await transferHostIfLeaving(io, socket.meetingId, socket.userId!);
+            }
+          }
         }
 
         logger.info(`User Disconnected ${socket.id}`);
@@ -0,0 +1,76 @@
+// src/sockets/admin.ts
+import { logger } from "../utils/logger";
+import { SignalingServer, SocketWithAuth } from "../types/socket";
+
+export const connectedSockets = (io: SignalingServer) => [...io.sockets.sockets.values()] as SocketWithAuth[];
+
+// Connections and distinct users currently in each meeting's media rooms (lobby excluded)
+export const getLiveMeetingCounts = (io: SignalingServer) => {
+  const meetings = new Map<string, { connections: number; users: Set<number> }>();
+
+  for (const socket of connectedSockets(io)) {
+    if (!socket.meetingId || !socket.mediaRoom) continue;
+
+    const entry = meetings.get(socket.meetingId) ?? { connections: 0, users: new Set<number>() };
+    entry.connections++;
+    entry.users.add(socket.userId!);
+    meetings.set(socket.meetingId, entry);
+  }
+
+  return meetings;
+};
+
+// Ends the connection of every device of a disabled or banned user
+export const disconnectUser = (io: SignalingServer, userId: number, message: string) => {
+  const sockets = connectedSockets(io).filter((socket) => socket.userId === userId);
+
+  for (const socket of sockets) {
+    socket.emit("account-disabled", { message });
+    socket.disconnect(true);
+  }
+
+  if (sockets.length) {
+    logger.info(`Disconnected ${sockets.length} socket(s) of user ${userId}`);
+  }
+  return sockets.length;
+};
+
+// Closes the connections authenticated with sessions that were just revoked: one session, or all
+// of the user's sessions except the one the request came from
+export const disconnectSessions = (
+  io: SignalingServer,
+  userId: number,
+  message: string,
+  sessions: { only?: string; except?: string | undefined } = {}
+) => {
+  const sockets = connectedSockets(io).filter(
+    (socket) =>
+      socket.userId === userId &&
+      socket.sessionId !== undefined &&
+      (sessions.only === undefined || socket.sessionId === sessions.only) &&
+      socket.sessionId !== sessions.except
+  );
+
+  for (const socket of sockets) {
+    socket.emit("session-revoked", { message });
+    socket.disconnect(true);
+  }
+
+  if (sockets.length) {
+    logger.info(`Disconnected ${sockets.length} socket(s) of user ${userId} after revoking sessions`);
+  }
+  return sockets.length;
+};
+
+// Used after the meeting was ended in the database: everyone in it, lobby included, is sent away
+export const disconnectMeeting = (io: SignalingServer, meetingId: string, message: string) => {
+  const sockets = connectedSockets(io).filter((socket) => socket.meetingId === meetingId);
+
+  for (const socket of sockets) {
+    socket.emit("meeting-ended", { meetingId, message });
+    socket.disconnect(true);
+  }
+
+  logger.info(`Meeting ${meetingId} force-ended, ${sockets.length} socket(s) disconnected`);
+  return sockets.length;
+};
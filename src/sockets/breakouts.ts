@@ -0,0 +1,331 @@
+// src/sockets/breakouts.ts
+import { query } from "../config/database";
+import { logger } from "../utils/logger";
+import { SignalingServer, SocketWithAuth } from "../types/socket";
+import { moderatorRoom } from "../utils/lobby";
+import { getDeviceSocketIds } from "../utils/devices";
+import { checkMeetingPermission, roleHasPermission } from "../utils/permissions";
+import {
+  assignRandomly,
+  assignToBreakout,
+  breakoutRoom,
+  breakoutsRoom,
+  createBreakoutRooms,
+  getBreakoutOverview,
+  MAX_BREAKOUT_ROOMS,
+  meetingAudience,
+  setBreakoutStatus,
+} from "../utils/breakouts";
+
+const MAX_COUNTDOWN_SECONDS = 300;
+
+// Pending open/close countdowns per meeting
+const countdowns = new Map<string, NodeJS.Timeout>();
+
+const clearCountdown = (meetingId: string) => {
+  const timer = countdowns.get(meetingId);
+  if (timer) {
+    clearTimeout(timer);
+    countdowns.delete(meetingId);
+  }
+};
+
+const countdownSeconds = (value: unknown) =>
+  Math.min(Math.max(Math.floor(Number(value) || 0), 0), MAX_COUNTDOWN_SECONDS);
+
+// Moves a socket's WebRTC mesh to another room: peers in the old room see it
+// leave, peers in the new room see it join, and it gets the new peer list.
+export const joinMediaRoom = (socket: SocketWithAuth, meetingId: string, breakoutRoomId: number | null) => {
+  const target = breakoutRoomId === null ? meetingId : breakoutRoom(meetingId, breakoutRoomId);
+  if (socket.mediaRoom === target) return;
+
+  if (socket.mediaRoom) {
+    socket.to(socket.mediaRoom).emit("user-left", socket.id);
+    socket.leave(socket.mediaRoom);
+  }
+
+  if (breakoutRoomId === null) {
+    socket.leave(breakoutsRoom(meetingId));
+    delete socket.breakoutRoomId;
+  } else {
+    socket.join(breakoutsRoom(meetingId));
+    socket.breakoutRoomId = breakoutRoomId;
+  }
+
+  socket.join(target);
+  socket.mediaRoom = target;
+
+  const peers = [...(socket.nsp.adapter.rooms.get(target) ?? [])].filter((id) => id !== socket.id);
+  socket.emit("all-users", peers);
+  socket.to(target).emit("user-joined", socket.id);
+};
+
+// Breakout room a participant should land in when (re)joining an open session
+export const getActiveBreakoutRoom = async (meetingId: string, userId: number) => {
+  const result = await query(
+    `SELECT mp.breakout_room_id FROM meeting_participants mp
+     JOIN meetings m ON m.id = mp.meeting_id
+     WHERE mp.meeting_id = $1 AND mp.user_id = $2 AND m.breakout_status IN ('open', 'closing')`,
+    [meetingId, userId]
+  );
+  return (result.rows[0]?.breakout_room_id as number | null) ?? null;
+};
+
+const liveSocket = (io: SignalingServer, socketId: string | null, meetingId: string) => {
+  const socket = socketId ? (io.sockets.sockets.get(socketId) as SocketWithAuth | undefined) : undefined;
+  return socket && socket.meetingId === meetingId && socket.mediaRoom ? socket : null;
+};
+
+const emitOverview = async (io: SignalingServer, meetingId: string) => {
+  io.to(moderatorRoom(meetingId)).emit("breakout-rooms-updated", await getBreakoutOverview(meetingId));
+};
+
+const roomName = async (meetingId: string, breakoutRoomId: number | null) => {
+  if (breakoutRoomId === null) return null;
+  const result = await query("SELECT name FROM breakout_rooms WHERE id = $1 AND meeting_id = $2", [
+    breakoutRoomId,
+    meetingId,
+  ]);
+  return (result.rows[0]?.name as string) ?? null;
+};
+
+const moveSocket = async (socket: SocketWithAuth, meetingId: string, breakoutRoomId: number | null) => {
+  socket.emit("breakout-moved", { breakoutRoomId, name: await roomName(meetingId, breakoutRoomId) });
+  joinMediaRoom(socket, meetingId, breakoutRoomId);
+};
+
+const openBreakouts = async (io: SignalingServer, meetingId: string) => {
+  countdowns.delete(meetingId);
+  await setBreakoutStatus(meetingId, "open");
+
+  const assigned = await query(
+    `SELECT d.socket_id, mp.breakout_room_id FROM meeting_participants mp
+     JOIN participant_devices d ON d.participant_id = mp.id AND d.left_at IS NULL
+     WHERE mp.meeting_id = $1 AND mp.status = 'admitted' AND mp.breakout_room_id IS NOT NULL`,
+    [meetingId]
+  );
+
+  for (const participant of assigned.rows) {
+    const socket = liveSocket(io, participant.socket_id, meetingId);
+    if (socket) await moveSocket(socket, meetingId, participant.breakout_room_id);
+  }
+
+  io.to(meetingAudience(meetingId)).emit("breakout-opened", {});
+  await emitOverview(io, meetingId);
+  logger.info(`Breakout rooms opened in room ${meetingId}`);
+};
+
+const closeBreakouts = async (io: SignalingServer, meetingId: string) => {
+  countdowns.delete(meetingId);
+  await setBreakoutStatus(meetingId, "prepared");
+
+  for (const socketId of [...(io.sockets.adapter.rooms.get(breakoutsRoom(meetingId)) ?? [])]) {
+    const socket = liveSocket(io, socketId, meetingId);
+    if (socket) await moveSocket(socket, meetingId, null);
+  }
+
+  io.to(meetingId).emit("breakout-closed", {});
+  await emitOverview(io, meetingId);
+  logger.info(`Breakout rooms closed in room ${meetingId}`);
+};
+
+export const registerBreakoutHandlers = (io: SignalingServer, socket: SocketWithAuth) => {
+  const authorize = async () => {
+    if (!socket.meetingId || !socket.mediaRoom) return null;
+
+    const check = await checkMeetingPermission(socket.meetingId, socket.userId!, "manage_breakouts");
+    if (!check.allowed) {
+      socket.emit("error", { message: "Not authorized to manage breakout rooms" });
+      return null;
+    }
+    return socket.meetingId;
+  };
+
+  const currentStatus = async (meetingId: string) => (await getBreakoutOverview(meetingId)).status;
+
+  socket.on("breakout-create", async (data) => {
+    try {
+      const meetingId = await authorize();
+      if (!meetingId) return;
+
+      if (["open", "closing"].includes(await currentStatus(meetingId))) {
+        socket.emit("error", { message: "Close the breakout rooms before recreating them" });
+        return;
+      }
+
+      const names = Array.isArray(data?.names)
+        ? data.names.map((n) => String(n).trim().slice(0, 100)).filter(Boolean)
+        : Array.from({ length: Math.floor(Number(data?.count) || 0) }, (_, i) => `Room ${i + 1}`);
+
+      if (names.length < 1 || names.length > MAX_BREAKOUT_ROOMS) {
+        socket.emit("error", { message: `Create between 1 and ${MAX_BREAKOUT_ROOMS} breakout rooms` });
+        return;
+      }
+
+      await createBreakoutRooms(meetingId, names);
+      await emitOverview(io, meetingId);
+    } catch (error) {
+      logger.error("Breakout create error:", error);
+      socket.emit("error", { message: "Failed to create breakout rooms" });
+    }
+  });
+
+  socket.on(
+    "breakout-assign",
+    async (data) => {
+      try {
+        const meetingId = await authorize();
+        if (!meetingId || !Array.isArray(data?.assignments)) return;
+
+        const status = await currentStatus(meetingId);
+
+        for (const { userId, breakoutRoomId } of data.assignments) {
+          const assigned = await assignToBreakout(meetingId, userId, breakoutRoomId ?? null);
+          if (!assigned || !["open", "closing"].includes(status)) continue;
+
+          // While rooms are open, reassigning someone moves all their devices right away
+          for (const socketId of await getDeviceSocketIds(meetingId, [userId])) {
+            const target = liveSocket(io, socketId, meetingId);
+            if (target) await moveSocket(target, meetingId, breakoutRoomId ?? null);
+          }
+        }
+
+        await emitOverview(io, meetingId);
+      } catch (error) {
+        logger.error("Breakout assign error:", error);
+        socket.emit("error", { message: "Failed to assign participants" });
+      }
+    }
+  );
+
+  // Moderators stay in the main room unless they join a breakout themselves
+  socket.on("breakout-assign-random", async () => {
+    try {
+      const meetingId = await authorize();
+      if (!meetingId) return;
+
+      const participants = await query(
+        `SELECT mp.user_id, mp.role, (m.host_id = mp.user_id) AS is_host
+         FROM meeting_participants mp
+         JOIN meetings m ON m.id = mp.meeting_id
+         WHERE mp.meeting_id = $1 AND mp.status = 'admitted' AND mp.left_at IS NULL`,
+        [meetingId]
+      );
+
+      const userIds = participants.rows
+        .filter((p) => !p.is_host && !roleHasPermission(p.role, "manage_breakouts"))
+        .map((p) => p.user_id as number);
+
+      await assignRandomly(meetingId, userIds);
+      await emitOverview(io, meetingId);
+    } catch (error) {
+      logger.error("Breakout random assign error:", error);
+      socket.emit("error", { message: "Failed to assign participants" });
+    }
+  });
+
+  socket.on("breakout-open", async (data) => {
+    try {
+      const meetingId = await authorize();
+      if (!meetingId) return;
+
+      if ((await currentStatus(meetingId)) !== "prepared") {
+        socket.emit("error", { message: "Create breakout rooms before opening them" });
+        return;
+      }
+
+      clearCountdown(meetingId);
+      const seconds = countdownSeconds(data?.countdownSeconds);
+
+      if (seconds === 0) {
+        await openBreakouts(io, meetingId);
+        return;
+      }
+
+      io.to(meetingId).emit("breakout-opening", {
+        opensAt: new Date(Date.now() + seconds * 1000),
+        seconds,
+      });
+      countdowns.set(
+        meetingId,
+        setTimeout(() => {
+          openBreakouts(io, meetingId).catch((error) => logger.error("Breakout open error:", error));
+        }, seconds * 1000)
+      );
+    } catch (error) {
+      logger.error("Breakout open error:", error);
+      socket.emit("error", { message: "Failed to open breakout rooms" });
+    }
+  });
+
+  socket.on("breakout-close", async (data) => {
+    try {
+      const meetingId = await authorize();
+      if (!meetingId) return;
+
+      const status = await currentStatus(meetingId);
+      if (status !== "open" && status !== "closing") {
+        socket.emit("error", { message: "Breakout rooms are not open" });
+        return;
+      }
+
+      clearCountdown(meetingId);
+      const seconds = countdownSeconds(data?.countdownSeconds ?? 60);
+
+      if (seconds === 0) {
+        await closeBreakouts(io, meetingId);
+        return;
+      }
+
+      await setBreakoutStatus(meetingId, "closing");
+      io.to(meetingAudience(meetingId)).emit("breakout-closing", {
+        closesAt: new Date(Date.now() + seconds * 1000),
+        seconds,
+      });
+      countdowns.set(
+        meetingId,
+        setTimeout(() => {
+          closeBreakouts(io, meetingId).catch((error) => logger.error("Breakout close error:", error));
+        }, seconds * 1000)
+      );
+    } catch (error) {
+      logger.error("Breakout close error:", error);
+      socket.emit("error", { message: "Failed to close breakout rooms" });
+    }
+  });
+
+  // Participants may go back to the main room or their assigned room; moderators can visit any room
+  socket.on("breakout-join", async (data) => {
+    try {
+      const meetingId = socket.meetingId;
+      if (!meetingId || !socket.mediaRoom) return;
+
+      const status = await currentStatus(meetingId);
+      if (status !== "open" && status !== "closing") {
+        socket.emit("error", { message: "Breakout rooms are not open" });
+        return;
+      }
+
+      const breakoutRoomId = data?.breakoutRoomId ?? null;
+      const check = await checkMeetingPermission(meetingId, socket.userId!, "manage_breakouts");
+
+      if (breakoutRoomId !== null && !check.allowed) {
+        const assigned = await getActiveBreakoutRoom(meetingId, socket.userId!);
+        if (assigned !== breakoutRoomId) {
+          socket.emit("error", { message: "You are not assigned to that breakout room" });
+          return;
+        }
+      }
+
+      if (breakoutRoomId !== null && (await roomName(meetingId, breakoutRoomId)) === null) {
+        socket.emit("error", { message: "Breakout room not found" });
+        return;
+      }
+
+      await moveSocket(socket, meetingId, breakoutRoomId);
+    } catch (error) {
+      logger.error("Breakout join error:", error);
+      socket.emit("error", { message: "Failed to switch rooms" });
+    }
+  });
+};
@@ -0,0 +1,151 @@
+// src/sockets/chat.ts
+import { query } from "../config/database";
+import { logger } from "../utils/logger";
+import { SignalingServer, SocketWithAuth } from "../types/socket";
+import { meetingAudience } from "../utils/breakouts";
+import { checkMeetingPermission } from "../utils/permissions";
+import {
+  ChatMessage,
+  createMessage,
+  deleteMessage,
+  editMessage,
+  getMessage,
+  getMessageHistory,
+  normalizeContent,
+} from "../utils/chat";
+import { getDeviceSocketIds } from "../utils/devices";
+
+// Room messages go to the whole call, private ones only to sender and recipient
+const emitToAudience = async (
+  io: SignalingServer,
+  message: ChatMessage,
+  event: "chat-message" | "chat-message-updated" | "chat-message-deleted"
+) => {
+  if (!message.isPrivate) {
+    io.to(meetingAudience(message.meetingId)).emit(event, message);
+    return;
+  }
+
+  const userIds = [message.sender.userId, message.recipientUserId].filter(
+    (id): id is number => id !== null
+  );
+  const socketIds = await getDeviceSocketIds(message.meetingId, userIds);
+  if (socketIds.length) {
+    io.to(socketIds).emit(event, message);
+  }
+};
+
+export const sendChatHistory = async (socket: SocketWithAuth, meetingId: string) => {
+  const history = await getMessageHistory(meetingId, socket.userId!);
+  socket.emit("chat-history", history);
+};
+
+export const registerChatHandlers = (io: SignalingServer, socket: SocketWithAuth) => {
+  // Only admitted participants (not lobby sockets) have a media room
+  const currentMeeting = () => (socket.meetingId && socket.mediaRoom ? socket.meetingId : null);
+
+  socket.on(
+    "chat-message",
+    async (data) => {
+      try {
+        const meetingId = currentMeeting();
+        if (!meetingId) {
+          socket.emit("error", { message: "Join the meeting before sending messages" });
+          return;
+        }
+
+        const check = await checkMeetingPermission(meetingId, socket.userId!, "send_chat");
+        if (!check.allowed) {
+          socket.emit("error", { message: "Not allowed to send messages" });
+          return;
+        }
+
+        const content = normalizeContent(data?.content);
+        if (!content) {
+          socket.emit("error", { message: "Message must be between 1 and 2000 characters" });
+          return;
+        }
+
+        const recipientId = data.recipientUserId ?? null;
+        if (recipientId !== null) {
+          if (recipientId === socket.userId) {
+            socket.emit("error", { message: "Cannot send a private message to yourself" });
+            return;
+          }
+
+          const recipient = await query(
+            `SELECT 1 FROM meeting_participants
+             WHERE meeting_id = $1 AND user_id = $2 AND status = 'admitted' AND left_at IS NULL`,
+            [meetingId, recipientId]
+          );
+          if (recipient.rows.length === 0) {
+            socket.emit("error", { message: "Recipient is not in this meeting" });
+            return;
+          }
+        }
+
+        const message = await createMessage(meetingId, socket.userId!, content, recipientId);
+        await emitToAudience(io, message!, "chat-message");
+      } catch (error) {
+        logger.error("Chat message error:", error);
+        socket.emit("error", { message: "Failed to send message" });
+      }
+    }
+  );
+
+  socket.on("chat-edit", async (data) => {
+    try {
+      const meetingId = currentMeeting();
+      const existing = meetingId ? await getMessage(data?.messageId) : null;
+
+      if (!existing || existing.meetingId !== meetingId || existing.deletedAt) {
+        socket.emit("error", { message: "Message not found" });
+        return;
+      }
+
+      if (existing.sender.userId !== socket.userId) {
+        socket.emit("error", { message: "Only the author can edit a message" });
+        return;
+      }
+
+      const content = normalizeContent(data.content);
+      if (!content) {
+        socket.emit("error", { message: "Message must be between 1 and 2000 characters" });
+        return;
+      }
+
+      const message = await editMessage(existing.id, content);
+      await emitToAudience(io, message!, "chat-message-updated");
+    } catch (error) {
+      logger.error("Chat edit error:", error);
+      socket.emit("error", { message: "Failed to edit message" });
+    }
+  });
+
+  socket.on("chat-delete", async (data) => {
+    try {
+      const meetingId = currentMeeting();
+      const existing = meetingId ? await getMessage(data?.messageId) : null;
+
+      if (!existing || existing.meetingId !== meetingId || existing.deletedAt) {
+        socket.emit("error", { message: "Message not found" });
+        return;
+      }
+
+      if (existing.sender.userId !== socket.userId) {
+        const check = await checkMeetingPermission(meetingId!, socket.userId!, "moderate_chat");
+        if (!check.allowed) {
+          socket.emit("error", { message: "Not authorized to delete this message" });
+          return;
+        }
+      }
+
+      const message = await deleteMessage(existing.id, socket.userId!);
+      await emitToAudience(io, message!, "chat-message-deleted");
+      logger.info(`Message ${existing.id} deleted by user ${socket.userId} in room ${meetingId}`);
+    } catch (error) {
+      logger.error("Chat delete error:", error);
+      socket.emit("error", { message: "Failed to delete message" });
+    }
+  });
+};
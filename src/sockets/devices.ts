@@ -0,0 +1,65 @@
+// src/sockets/devices.ts
+import { logger } from "../utils/logger";
+import { SignalingServer, SocketWithAuth } from "../types/socket";
+import { breakoutsRoom } from "../utils/breakouts";
+import { moderatorRoom } from "../utils/lobby";
+import { removeOtherDevices } from "../utils/devices";
+import { recordAttendance } from "../utils/attendance";
+import { cancelReconnect } from "./reconnect";
+import { rejectEvent } from "./validation";
+
+// Takes one device out of the call without touching the participant's other devices
+export const detachDevice = (io: SignalingServer, socketId: string, meetingId: string) => {
+  const held = cancelReconnect(socketId);
+  const device = io.sockets.sockets.get(socketId) as SocketWithAuth | undefined;
+  const mediaRoom = device?.meetingId === meetingId ? device.mediaRoom : held?.mediaRoom;
+
+  if (mediaRoom) {
+    io.to(mediaRoom).except(socketId).emit("user-left", socketId);
+  }
+
+  if (device && device.meetingId === meetingId) {
+    if (device.mediaRoom) device.leave(device.mediaRoom);
+    device.leave(breakoutsRoom(meetingId));
+    device.leave(moderatorRoom(meetingId));
+    delete device.meetingId;
+    delete device.mediaRoom;
+    delete device.breakoutRoomId;
+  }
+
+  return device;
+};
+
+// "Move call to this device": the user's other devices leave and are told where the call went
+export const moveCallToDevice = async (io: SignalingServer, socket: SocketWithAuth) => {
+  const meetingId = socket.meetingId!;
+  const moved = await removeOtherDevices(meetingId, socket.userId!, socket.id);
+  await recordAttendance(moved, "leave");
+
+  for (const socketId of moved) {
+    const device = detachDevice(io, socketId, meetingId);
+    device?.emit("call-moved", { meetingId, socketId: socket.id, deviceLabel: socket.deviceLabel ?? null });
+  }
+
+  if (moved.length) {
+    logger.info(`User ${socket.userId} moved their call in room ${meetingId} to ${socket.id}`);
+  }
+  return moved.length;
+};
+
+export const registerDeviceHandlers = (io: SignalingServer, socket: SocketWithAuth) => {
+  socket.on("move-call-here", async (_data, ack) => {
+    try {
+      if (!socket.meetingId || !socket.mediaRoom) {
+        rejectEvent(socket, ack, "NOT_IN_MEETING", "Join the meeting on this device first");
+        return;
+      }
+
+      await moveCallToDevice(io, socket);
+      ack?.({ ok: true });
+    } catch (error) {
+      logger.error("Move call error:", error);
+      rejectEvent(socket, ack, "INTERNAL_ERROR", "Failed to move the call");
+    }
+  });
+};
@@ -0,0 +1,167 @@
+// src/sockets/moderation.ts
+import { query } from "../config/database";
+import { logger } from "../utils/logger";
+import { SignalingServer, SocketWithAuth } from "../types/socket";
+import { meetingAudience } from "../utils/breakouts";
+import { MediaState, updateMediaState } from "../utils/mediaState";
+import { getAdmittedDevice } from "../utils/devices";
+import {
+  checkMeetingPermission,
+  getMeetingRole,
+  MeetingPermission,
+  outranks,
+} from "../utils/permissions";
+
+export const registerModerationHandlers = (io: SignalingServer, socket: SocketWithAuth) => {
+  // Resolves the moderator's role, or reports why they may not act
+  const authorize = async (permission: MeetingPermission, deniedMessage: string) => {
+    if (!socket.meetingId || !socket.mediaRoom) return null;
+
+    const check = await checkMeetingPermission(socket.meetingId, socket.userId!, permission);
+    if (!check.allowed) {
+      socket.emit("error", { message: deniedMessage });
+      return null;
+    }
+    return { meetingId: socket.meetingId, role: check.role };
+  };
+
+  const applyToTarget = async (
+    targetSocketId: string,
+    changes: Partial<MediaState>,
+    event: "force-mute" | "force-camera-off"
+  ) => {
+    const auth = await authorize("moderate_media", "Not authorized to moderate participants");
+    if (!auth) return;
+
+    const target = await getAdmittedDevice(auth.meetingId, targetSocketId);
+    if (!target) {
+      socket.emit("error", { message: "Participant not found" });
+      return;
+    }
+
+    const targetRole = (await getMeetingRole(auth.meetingId, target.user_id)).role;
+    if (targetRole && !outranks(auth.role, targetRole)) {
+      socket.emit("error", { message: "Not authorized to moderate this participant" });
+      return;
+    }
+
+    const state = await updateMediaState(auth.meetingId, targetSocketId, changes);
+    io.to(targetSocketId).emit(event, { by: socket.userId });
+    io.to(meetingAudience(auth.meetingId)).emit("media-state-updated", state);
+    logger.info(`User ${socket.userId} sent ${event} to ${targetSocketId} in room ${auth.meetingId}`);
+  };
+
+  // Participants report their own mic/camera changes
+  socket.on("media-state-changed", async (data) => {
+    try {
+      if (!socket.meetingId || !socket.mediaRoom) return;
+
+      const state = await updateMediaState(socket.meetingId, socket.id, {
+        audioMuted: data?.audioMuted,
+        videoOff: data?.videoOff,
+      } as Partial<MediaState>);
+      if (state) {
+        socket.to(meetingAudience(socket.meetingId)).emit("media-state-updated", state);
+      }
+    } catch (error) {
+      logger.error("Media state error:", error);
+    }
+  });
+
+  socket.on("request-mute", async (data) => {
+    try {
+      await applyToTarget(data?.targetSocketId, { audioMuted: true }, "force-mute");
+    } catch (error) {
+      logger.error("Request mute error:", error);
+      socket.emit("error", { message: "Failed to mute participant" });
+    }
+  });
+
+  socket.on("request-camera-off", async (data) => {
+    try {
+      await applyToTarget(data?.targetSocketId, { videoOff: true }, "force-camera-off");
+    } catch (error) {
+      logger.error("Request camera off error:", error);
+      socket.emit("error", { message: "Failed to turn off camera" });
+    }
+  });
+
+  // Mutes every device except the requester's own and those of people who outrank them
+  socket.on("mute-all", async () => {
+    try {
+      const auth = await authorize("moderate_media", "Not authorized to mute participants");
+      if (!auth) return;
+
+      const participants = await query(
+        `SELECT d.user_id, d.socket_id FROM participant_devices d
+         JOIN meeting_participants mp ON mp.id = d.participant_id
+         WHERE d.meeting_id = $1 AND mp.status = 'admitted' AND d.left_at IS NULL AND d.user_id <> $2`,
+        [auth.meetingId, socket.userId]
+      );
+
+      let muted = 0;
+      for (const participant of participants.rows) {
+        const role = (await getMeetingRole(auth.meetingId, participant.user_id)).role;
+        if (role && !outranks(auth.role, role)) continue;
+
+        const state = await updateMediaState(auth.meetingId, participant.socket_id, { audioMuted: true });
+        io.to(participant.socket_id).emit("force-mute", { by: socket.userId });
+        io.to(meetingAudience(auth.meetingId)).emit("media-state-updated", state);
+        muted++;
+      }
+
+      logger.info(`User ${socket.userId} muted ${muted} participant(s) in room ${auth.meetingId}`);
+    } catch (error) {
+      logger.error("Mute all error:", error);
+      socket.emit("error", { message: "Failed to mute participants" });
+    }
+  });
+
+  socket.on("lock-meeting", async (data) => {
+    try {
+      const auth = await authorize("lock_meeting", "Not authorized to lock the meeting");
+      if (!auth) return;
+
+      const locked = Boolean(data?.locked);
+      await query("UPDATE meetings SET is_locked = $1 WHERE id = $2", [locked, auth.meetingId]);
+
+      io.to(meetingAudience(auth.meetingId)).emit("meeting-locked", { locked, by: socket.userId });
+      logger.info(`Room ${auth.meetingId} ${locked ? "locked" : "unlocked"} by user ${socket.userId}`);
+    } catch (error) {
+      logger.error("Lock meeting error:", error);
+      socket.emit("error", { message: "Failed to lock meeting" });
+    }
+  });
+
+  socket.on("set-screen-share-policy", async (data) => {
+    try {
+      const auth = await authorize("manage_settings", "Not authorized to change screen sharing");
+      if (!auth) return;
+
+      const blocked = !data?.attendeesCanShare;
+      await query("UPDATE meetings SET screen_share_blocked = $1 WHERE id = $2", [blocked, auth.meetingId]);
+
+      // Stop attendees who are sharing right now
+      if (blocked) {
+        const sharing = await query(
+          `SELECT d.socket_id FROM participant_devices d
+           JOIN meeting_participants mp ON mp.id = d.participant_id
+           WHERE d.meeting_id = $1 AND mp.role = 'attendee' AND d.screen_sharing = TRUE AND d.left_at IS NULL`,
+          [auth.meetingId]
+        );
+
+        for (const participant of sharing.rows) {
+          const state = await updateMediaState(auth.meetingId, participant.socket_id, { screenSharing: false });
+          io.to(participant.socket_id).emit("force-stop-screen-share", { by: socket.userId });
+          io.to(meetingAudience(auth.meetingId)).emit("screen-sharing-stopped", { userId: participant.socket_id });
+          io.to(meetingAudience(auth.meetingId)).emit("media-state-updated", state);
+        }
+      }
+
+      io.to(meetingAudience(auth.meetingId)).emit("screen-share-policy-changed", { attendeesCanShare: !blocked });
+    } catch (error) {
+      logger.error("Screen share policy error:", error);
+      socket.emit("error", { message: "Failed to change screen sharing policy" });
+    }
+  });
+};
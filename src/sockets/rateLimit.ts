@@ -0,0 +1,270 @@
+// src/sockets/rateLimit.ts
+// Token-bucket limits for incoming socket events, per socket and per user, and caps on the
+// number of connections per user and per IP. Counts are kept per server instance.
+import { ExtendedError } from "socket.io";
+import { logger } from "../utils/logger";
+import { incrementCounter } from "../utils/metrics";
+import { nonNegativeInt } from "../utils/numbers";
+import {
+  ClientToServerEvents,
+  SignalingServer,
+  SocketAck,
+  SocketWithAuth,
+} from "../types/socket";
+import { clientEventSchemas, rejectEvent } from "./validation";
+import { connectedSockets } from "./admin";
+
+// Allows `burst` events at once, refilled at `perSecond`
+export interface RateLimit {
+  burst: number;
+  perSecond: number;
+}
+
+// drop: ignore the event. warn: reject it with RATE_LIMITED. disconnect: warn, and close the
+// connection once it has been limited SOCKET_RATE_LIMIT_DISCONNECT_AFTER times within a minute.
+export type RateLimitAction = "drop" | "warn" | "disconnect";
+
+export const RATE_LIMIT_ACTIONS: RateLimitAction[] = ["drop", "warn", "disconnect"];
+
+export interface EventRateLimit {
+  socket?: RateLimit | null;
+  // Shared by all connections of the user, e.g. several devices
+  user?: RateLimit | null;
+  action?: RateLimitAction;
+}
+
+type LimitKey = keyof ClientToServerEvents | "*" | "default";
+
+export type SocketRateLimits = Partial<Record<LimitKey, EventRateLimit>>;
+
+// "*" counts every event of a socket together; "default" applies to events without their own entry
+export const DEFAULT_SOCKET_RATE_LIMITS: SocketRateLimits = {
+  "*": { socket: { burst: 1000, perSecond: 200 } },
+  default: { socket: { burst: 20, perSecond: 5 } },
+
+  // Joining runs several queries, so it is limited for the user across all their connections
+  "join-room": { socket: { burst: 5, perSecond: 0.2 }, user: { burst: 10, perSecond: 0.5 } },
+  "resume-session": { socket: { burst: 5, perSecond: 0.2 } },
+  "move-call-here": { socket: { burst: 5, perSecond: 0.2 } },
+
+  // A client joining a large meeting sends an offer and a burst of candidates to every peer
+  offer: { socket: { burst: 100, perSecond: 10 } },
+  answer: { socket: { burst: 100, perSecond: 10 } },
+  "ice-candidate": { socket: { burst: 500, perSecond: 100 }, action: "drop" },
+  "screen-sharing-started": { socket: { burst: 10, perSecond: 1 } },
+  "screen-sharing-stopped": { socket: { burst: 10, perSecond: 1 } },
+  "media-state-changed": { socket: { burst: 20, perSecond: 5 } },
+
+  "chat-message": { socket: { burst: 10, perSecond: 2 }, user: { burst: 20, perSecond: 3 } },
+  "chat-edit": { socket: { burst: 10, perSecond: 1 } },
+  "chat-delete": { socket: { burst: 10, perSecond: 1 } },
+
+  // Moderation fans out to other participants and writes to the database
+  "kick-user": { socket: { burst: 10, perSecond: 1 }, user: { burst: 20, perSecond: 2 } },
+  "request-mute": { socket: { burst: 20, perSecond: 2 } },
+  "request-camera-off": { socket: { burst: 20, perSecond: 2 } },
+  "mute-all": { socket: { burst: 5, perSecond: 0.5 } },
+  "admit-participant": { socket: { burst: 50, perSecond: 5 } },
+  "deny-participant": { socket: { burst: 50, perSecond: 5 } },
+};
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const DISCONNECT_WINDOW_MS = 60 * 1000;
+const WARNING_INTERVAL_MS = 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+const defaultAction = (): RateLimitAction => {
+  const action = process.env.SOCKET_RATE_LIMIT_ACTION as RateLimitAction | undefined;
+  return action && RATE_LIMIT_ACTIONS.includes(action) ? action : "disconnect";
+};
+
+const disconnectAfter = () => nonNegativeInt(process.env.SOCKET_RATE_LIMIT_DISCONNECT_AFTER, 20);
+
+// 0 turns a cap off
+const maxConnectionsPerUser = () => nonNegativeInt(process.env.SOCKET_MAX_CONNECTIONS_PER_USER, 10);
+const maxConnectionsPerIp = () => nonNegativeInt(process.env.SOCKET_MAX_CONNECTIONS_PER_IP, 50);
+
+const isRateLimit = (value: unknown): value is RateLimit =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as RateLimit).burst === "number" &&
+  (value as RateLimit).burst >= 1 &&
+  typeof (value as RateLimit).perSecond === "number" &&
+  (value as RateLimit).perSecond > 0;
+
+// SOCKET_RATE_LIMITS holds JSON overrides per event, merged over the defaults, e.g.
+// {"chat-message":{"socket":{"burst":5,"perSecond":1},"user":null,"action":"drop"}} (null removes a limit)
+export const loadSocketRateLimits = (): SocketRateLimits => {
+  const raw = process.env.SOCKET_RATE_LIMITS;
+  if (!raw) return DEFAULT_SOCKET_RATE_LIMITS;
+
+  let overrides: Record<string, EventRateLimit>;
+  try {
+    overrides = JSON.parse(raw);
+  } catch {
+    throw new Error("SOCKET_RATE_LIMITS is not valid JSON");
+  }
+
+  const limits: SocketRateLimits = { ...DEFAULT_SOCKET_RATE_LIMITS };
+  for (const [event, override] of Object.entries(overrides)) {
+    for (const scope of ["socket", "user"] as const) {
+      const limit = override[scope];
+      if (limit !== undefined && limit !== null && !isRateLimit(limit)) {
+        throw new Error(`SOCKET_RATE_LIMITS.${event}.${scope} needs a burst of at least 1 and a positive perSecond`);
+      }
+    }
+    if (override.action !== undefined && !RATE_LIMIT_ACTIONS.includes(override.action)) {
+      throw new Error(`SOCKET_RATE_LIMITS.${event}.action must be one of ${RATE_LIMIT_ACTIONS.join(", ")}`);
+    }
+    limits[event as LimitKey] = { ...limits[event as LimitKey], ...override };
+  }
+  return limits;
+};
+
+// Takes a token and returns 0, or how many milliseconds until one is available
+const take = (bucket: Bucket, limit: RateLimit, now: number) => {
+  bucket.tokens = Math.min(limit.burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.perSecond);
+  bucket.updatedAt = now;
+
+  if (bucket.tokens < 1) {
+    return Math.ceil(((1 - bucket.tokens) / limit.perSecond) * 1000);
+  }
+  bucket.tokens -= 1;
+  return 0;
+};
+
+const takeFrom = (buckets: Map<string, Bucket>, key: string, limit: RateLimit, now: number) => {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = { tokens: limit.burst, updatedAt: now };
+    buckets.set(key, bucket);
+  }
+  return take(bucket, limit, now);
+};
+
+// Shared by every connection of a user on this instance
+const userBuckets = new Map<string, { bucket: Bucket; limit: RateLimit }>();
+
+// Buckets that have filled up again behave like new ones, so they are dropped
+const sweepUserBuckets = () => {
+  const now = Date.now();
+  for (const [key, { bucket, limit }] of userBuckets) {
+    if (bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.perSecond >= limit.burst) {
+      userBuckets.delete(key);
+    }
+  }
+};
+
+const takeUserToken = (key: string, limit: RateLimit, now: number) => {
+  let entry = userBuckets.get(key);
+  if (!entry) {
+    entry = { bucket: { tokens: limit.burst, updatedAt: now }, limit };
+    userBuckets.set(key, entry);
+  }
+  return take(entry.bucket, limit, now);
+};
+
+let sweeper: NodeJS.Timeout | null = null;
+
+// Socket middleware: runs before payload validation, so floods of invalid or unknown events are
+// limited too. Unknown events share the "default" limit.
+export const limitIncomingEvents = (socket: SocketWithAuth, limits: SocketRateLimits) => {
+  if (!sweeper) {
+    sweeper = setInterval(sweepUserBuckets, SWEEP_INTERVAL_MS);
+    sweeper.unref();
+  }
+
+  const buckets = new Map<string, Bucket>();
+  const lastWarning = new Map<string, number>();
+  let violations: number[] = [];
+
+  return (packet: [string, ...unknown[]], next: (err?: ExtendedError) => void) => {
+    const [event, ...args] = packet;
+    const key: LimitKey = Object.hasOwn(limits, event) && event !== "*" ? (event as LimitKey) : "default";
+    // Metric labels and warnings only name known events, whatever the client sends
+    const label = Object.hasOwn(clientEventSchemas, event) ? event : "other";
+    const limit = limits[key] ?? {};
+    const now = Date.now();
+
+    let scope: "socket" | "user" | null = null;
+    let retryAfterMs = 0;
+
+    const overall = limits["*"]?.socket;
+    if (overall) {
+      retryAfterMs = takeFrom(buckets, "*", overall, now);
+      if (retryAfterMs) scope = "socket";
+    }
+    if (!scope && limit.socket) {
+      retryAfterMs = takeFrom(buckets, key, limit.socket, now);
+      if (retryAfterMs) scope = "socket";
+    }
+    if (!scope && limit.user && socket.userId) {
+      retryAfterMs = takeUserToken(`${socket.userId}:${key}`, limit.user, now);
+      if (retryAfterMs) scope = "user";
+    }
+
+    if (!scope) {
+      next();
+      return;
+    }
+
+    incrementCounter("socket_events_rate_limited_total", { event: label, scope });
+    const action = limit.action ?? defaultAction();
+
+    // A client waiting on an ack always gets an answer, even for dropped events
+    const ack = typeof args[args.length - 1] === "function" ? (args.pop() as SocketAck) : undefined;
+    if (ack) {
+      rejectEvent(socket, ack, "RATE_LIMITED", `Too many ${event} events, retry in ${retryAfterMs}ms`);
+    }
+    if (action === "drop") return;
+
+    // One warning per event and second, so limiting does not itself flood the client
+    if (!ack && now - (lastWarning.get(label) ?? 0) >= WARNING_INTERVAL_MS) {
+      lastWarning.set(label, now);
+      socket.emit("rate-limited", { event: label, retryAfterMs });
+    }
+
+    if (action !== "disconnect" || disconnectAfter() === 0) return;
+
+    violations = violations.filter((at) => now - at < DISCONNECT_WINDOW_MS);
+    violations.push(now);
+    if (violations.length >= disconnectAfter()) {
+      logger.info(`Disconnecting ${socket.id} (User ID: ${socket.userId}) for flooding ${label}`);
+      incrementCounter("socket_rate_limit_disconnects_total", { event: label });
+      violations = [];
+      socket.emit("error", { message: "Too many requests, disconnected", code: "RATE_LIMITED" });
+      socket.disconnect(true);
+    }
+  };
+};
+
+// io.use middleware, registered before authentication so rejected connections cost no queries
+export const limitConnectionsPerIp =
+  (io: SignalingServer) => (socket: SocketWithAuth, next: (err?: ExtendedError) => void) => {
+    const max = maxConnectionsPerIp();
+    const address = socket.handshake.address;
+
+    if (max > 0 && connectedSockets(io).filter((s) => s.handshake.address === address).length >= max) {
+      incrementCounter("socket_connections_rejected_total", { reason: "ip" });
+      logger.info(`Rejected connection from ${address}: too many connections`);
+      return next(new Error("Too many connections from this address"));
+    }
+    next();
+  };
+
+// io.use middleware, registered after authentication
+export const limitConnectionsPerUser =
+  (io: SignalingServer) => (socket: SocketWithAuth, next: (err?: ExtendedError) => void) => {
+    const max = maxConnectionsPerUser();
+
+    if (max > 0 && connectedSockets(io).filter((s) => s.userId === socket.userId).length >= max) {
+      incrementCounter("socket_connections_rejected_total", { reason: "user" });
+      logger.info(`Rejected connection of user ${socket.userId}: too many connections`);
+      return next(new Error("Too many connections for this account"));
+    }
+    next();
+  };
@@ -0,0 +1,205 @@
+// src/sockets/reconnect.ts
+import crypto from "crypto";
+import { query } from "../config/database";
+import { logger } from "../utils/logger";
+import { SignalingServer, SocketWithAuth } from "../types/socket";
+import { breakoutRoom, breakoutsRoom } from "../utils/breakouts";
+import { getRoomState } from "../utils/mediaState";
+import { removeDevice, SERVER_INSTANCE_ID } from "../utils/devices";
+import { recordAttendance } from "../utils/attendance";
+import { emitMeetingWebhookEvent } from "../utils/webhooks";
+import { getMeetingRole } from "../utils/permissions";
+import { nonNegativeInt } from "../utils/numbers";
+import { getActiveBreakoutRoom } from "./breakouts";
+import { sendChatHistory } from "./chat";
+import { syncModeratorRoom, transferHostIfLeaving } from "./roles";
+import { rejectEvent } from "./validation";
+
+// Seconds a dropped participant keeps their seat and identity (0 disables resuming)
+export const reconnectGraceSeconds = () => nonNegativeInt(process.env.RECONNECT_GRACE_SECONDS, 30);
+
+interface ReconnectingParticipant {
+  meetingId: string;
+  userId: number;
+  mediaRoom: string;
+  breakoutRoomId: number | undefined;
+  timer: NodeJS.Timeout;
+}
+
+// Keyed by the socket ID that dropped
+const reconnecting = new Map<string, ReconnectingParticipant>();
+
+// Stops waiting for a dropped device, e.g. when the call moved elsewhere
+export const cancelReconnect = (socketId: string) => {
+  const held = reconnecting.get(socketId);
+  if (held) {
+    clearTimeout(held.timer);
+    reconnecting.delete(socketId);
+  }
+  return held;
+};
+
+const hashResumeToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+// A fresh token is issued on every join and resume; only its hash is stored
+export const issueResumeToken = async (socket: SocketWithAuth, meetingId: string) => {
+  const graceSeconds = reconnectGraceSeconds();
+  if (graceSeconds === 0) return;
+
+  const resumeToken = crypto.randomBytes(32).toString("base64url");
+  await query(
+    "UPDATE participant_devices SET resume_token_hash = $1 WHERE meeting_id = $2 AND socket_id = $3 AND left_at IS NULL",
+    [hashResumeToken(resumeToken), meetingId, socket.id]
+  );
+  socket.emit("resume-token", { resumeToken, graceSeconds });
+};
+
+const completeLeave = async (
+  io: SignalingServer,
+  socketId: string,
+  participant: Omit<ReconnectingParticipant, "timer">
+) => {
+  reconnecting.delete(socketId);
+
+  const removed = await removeDevice(socketId);
+  if (!removed) return;
+  await recordAttendance([socketId], "leave");
+
+  io.to(participant.mediaRoom).emit("user-left", socketId);
+  if (removed.lastDevice) {
+    await emitMeetingWebhookEvent(participant.meetingId, "participant.left", {
+      userId: participant.userId,
+      reason: "disconnected",
+    });
+    await transferHostIfLeaving(io, participant.meetingId, participant.userId);
+  }
+  logger.info(`User ${participant.userId} did not reconnect to room ${participant.meetingId}`);
+};
+
+// Keeps a dropped participant's seat for the grace window instead of leaving right away.
+// Returns false when the participant should leave immediately, including when the server
+// itself closed the connection (nothing to come back from).
+export const holdForReconnect = async (io: SignalingServer, socket: SocketWithAuth, reason: string) => {
+  const graceSeconds = reconnectGraceSeconds();
+  if (graceSeconds === 0 || !socket.meetingId || !socket.mediaRoom) return false;
+  if (reason === "server namespace disconnect") return false;
+
+  const held = await query(
+    `UPDATE participant_devices d SET disconnected_at = NOW()
+     FROM meeting_participants mp
+     WHERE d.socket_id = $1 AND d.left_at IS NULL AND mp.id = d.participant_id AND mp.status = 'admitted'
+     RETURNING d.id`,
+    [socket.id]
+  );
+  if (held.rows.length === 0) return false;
+  await recordAttendance([socket.id], "disconnect");
+
+  const participant = {
+    meetingId: socket.meetingId,
+    userId: socket.userId!,
+    mediaRoom: socket.mediaRoom,
+    breakoutRoomId: socket.breakoutRoomId,
+  };
+
+  reconnecting.set(socket.id, {
+    ...participant,
+    timer: setTimeout(() => {
+      completeLeave(io, socket.id, participant).catch((error) => logger.error("Reconnect timeout error:", error));
+    }, graceSeconds * 1000),
+  });
+
+  io.to(socket.mediaRoom).emit("user-reconnecting", {
+    socketId: socket.id,
+    userId: socket.userId!,
+    graceSeconds,
+  });
+  logger.info(`User ${socket.userId} is reconnecting to room ${socket.meetingId}`);
+  return true;
+};
+
+export const registerReconnectHandlers = (io: SignalingServer, socket: SocketWithAuth) => {
+  // The new socket takes over the device row, media room and peer connections of the old one
+  socket.on("resume-session", async (data, ack) => {
+    try {
+      if (socket.meetingId) {
+        rejectEvent(socket, ack, "RESUME_FAILED", "This connection is already in a meeting");
+        return;
+      }
+
+      const result = await query(
+        `WITH previous AS (
+           SELECT d.id, d.socket_id FROM participant_devices d
+           JOIN meeting_participants mp ON mp.id = d.participant_id
+           WHERE d.resume_token_hash = $2 AND d.user_id = $3 AND d.left_at IS NULL AND mp.status = 'admitted'
+           FOR UPDATE OF d
+         )
+         UPDATE participant_devices d SET socket_id = $1, disconnected_at = NULL, instance_id = $4
+         FROM previous
+         WHERE d.id = previous.id
+         RETURNING d.meeting_id, previous.socket_id AS previous_socket_id`,
+        [socket.id, hashResumeToken(data.resumeToken), socket.userId, SERVER_INSTANCE_ID]
+      );
+
+      if (result.rows.length === 0) {
+        rejectEvent(socket, ack, "RESUME_FAILED", "Session can no longer be resumed, join the meeting again");
+        return;
+      }
+
+      const meetingId = result.rows[0].meeting_id as string;
+      const previousSocketId = result.rows[0].previous_socket_id as string;
+      await recordAttendance([socket.id], "reconnect");
+
+      // The old socket may still be open if the client noticed the drop first
+      const held = reconnecting.get(previousSocketId);
+      const previousSocket = io.sockets.sockets.get(previousSocketId) as SocketWithAuth | undefined;
+      let breakoutRoomId = held ? held.breakoutRoomId : previousSocket?.breakoutRoomId;
+
+      if (held) {
+        clearTimeout(held.timer);
+        reconnecting.delete(previousSocketId);
+      } else if (previousSocket) {
+        delete previousSocket.meetingId;
+        delete previousSocket.mediaRoom;
+        previousSocket.disconnect(true);
+      } else {
+        breakoutRoomId = (await getActiveBreakoutRoom(meetingId, socket.userId!)) ?? undefined;
+      }
+
+      socket.meetingId = meetingId;
+      const { role } = await getMeetingRole(meetingId, socket.userId!);
+      await syncModeratorRoom(socket, meetingId, role);
+
+      const mediaRoom = breakoutRoomId === undefined ? meetingId : breakoutRoom(meetingId, breakoutRoomId);
+      if (breakoutRoomId !== undefined) {
+        socket.join(breakoutsRoom(meetingId));
+        socket.breakoutRoomId = breakoutRoomId;
+      }
+      socket.join(mediaRoom);
+      socket.mediaRoom = mediaRoom;
+
+      const peers = [...(socket.nsp.adapter.rooms.get(mediaRoom) ?? [])].filter((id) => id !== socket.id);
+
+      // Peers keep their RTCPeerConnections and restart ICE towards the new socket ID
+      socket.to(mediaRoom).emit("user-resumed", {
+        previousSocketId,
+        socketId: socket.id,
+        userId: socket.userId!,
+      });
+      socket.emit("session-resumed", {
+        meetingId,
+        previousSocketId,
+        breakoutRoomId: breakoutRoomId ?? null,
+        peers,
+      });
+      socket.emit("room-state", await getRoomState(meetingId));
+      await sendChatHistory(socket, meetingId);
+      await issueResumeToken(socket, meetingId);
+
+      ack?.({ ok: true });
+      logger.info(`User ${socket.userId} resumed in room ${meetingId} (${previousSocketId} -> ${socket.id})`);
+    } catch (error) {
+      logger.error("Resume session error:", error);
+      rejectEvent(socket, ack, "INTERNAL_ERROR", "Failed to resume session");
+    }
+  });
+};
@@ -0,0 +1,168 @@
+// src/sockets/roles.ts
+import { query } from "../config/database";
+import { logger } from "../utils/logger";
+import { SignalingServer, SocketWithAuth } from "../types/socket";
+import { getPendingParticipants, moderatorRoom } from "../utils/lobby";
+import { getDeviceSocketIds } from "../utils/devices";
+import { isGuestUser } from "../utils/guests";
+import { meetingAudience } from "../utils/breakouts";
+import {
+  canAssignRole,
+  getMeetingRole,
+  MeetingRole,
+  roleHasPermission,
+  setParticipantRole,
+  transferHost,
+} from "../utils/permissions";
+
+type RoleChangeResult = { ok: true } | { ok: false; status: number; error: string };
+
+const getLiveSockets = async (io: SignalingServer, meetingId: string, userId: number) => {
+  return (await getDeviceSocketIds(meetingId, [userId]))
+    .map((socketId) => io.sockets.sockets.get(socketId) as SocketWithAuth | undefined)
+    .filter((s): s is SocketWithAuth => Boolean(s && s.meetingId === meetingId && s.mediaRoom));
+};
+
+// Keeps a user's sockets in the moderator room in line with their role
+export const syncModeratorRoom = async (
+  socket: SocketWithAuth,
+  meetingId: string,
+  role: MeetingRole | null
+) => {
+  if (roleHasPermission(role, "manage_lobby")) {
+    if (!socket.rooms.has(moderatorRoom(meetingId))) {
+      socket.join(moderatorRoom(meetingId));
+      socket.emit("lobby-updated", { pending: await getPendingParticipants(meetingId) });
+    }
+  } else {
+    socket.leave(moderatorRoom(meetingId));
+  }
+};
+
+export const changeParticipantRole = async (
+  io: SignalingServer,
+  meetingId: string,
+  actorId: number,
+  targetUserId: number,
+  newRole: MeetingRole
+): Promise<RoleChangeResult> => {
+  const actor = await getMeetingRole(meetingId, actorId);
+  if (!actor.exists) {
+    return { ok: false, status: 404, error: "Meeting not found" };
+  }
+
+  const target = await getMeetingRole(meetingId, targetUserId);
+  if (!target.role) {
+    return { ok: false, status: 404, error: "Participant not found" };
+  }
+
+  if (!actor.role || !canAssignRole(actor.role, target.role, newRole)) {
+    return { ok: false, status: 403, error: "Not authorized to change this participant's role" };
+  }
+
+  if (newRole === "co-host" && (await isGuestUser(targetUserId))) {
+    return { ok: false, status: 400, error: "Guests cannot become co-hosts" };
+  }
+
+  await setParticipantRole(meetingId, targetUserId, newRole);
+
+  for (const targetSocket of await getLiveSockets(io, meetingId, targetUserId)) {
+    await syncModeratorRoom(targetSocket, meetingId, newRole);
+  }
+
+  io.to(meetingAudience(meetingId)).emit("role-changed", { userId: targetUserId, role: newRole });
+  logger.info(`User ${actorId} set role of user ${targetUserId} to ${newRole} in room ${meetingId}`);
+  return { ok: true };
+};
+
+export const changeHost = async (
+  io: SignalingServer,
+  meetingId: string,
+  newHostId: number
+): Promise<RoleChangeResult> => {
+  const target = await getMeetingRole(meetingId, newHostId);
+  if (!target.exists) {
+    return { ok: false, status: 404, error: "Meeting not found" };
+  }
+  if (!target.role) {
+    return { ok: false, status: 400, error: "New host must be an admitted participant" };
+  }
+  if (target.role === "host") {
+    return { ok: false, status: 400, error: "User is already the host" };
+  }
+  if (await isGuestUser(newHostId)) {
+    return { ok: false, status: 400, error: "Guests cannot become the host" };
+  }
+
+  const previousHostId = await transferHost(meetingId, newHostId);
+
+  for (const hostSocket of await getLiveSockets(io, meetingId, newHostId)) {
+    await syncModeratorRoom(hostSocket, meetingId, "host");
+  }
+
+  io.to(meetingAudience(meetingId)).emit("host-changed", { userId: newHostId, previousHostId });
+  io.to(meetingAudience(meetingId)).emit("role-changed", { userId: previousHostId, role: "co-host" });
+  logger.info(`Host of room ${meetingId} transferred from ${previousHostId} to ${newHostId}`);
+  return { ok: true };
+};
+
+// Hands the meeting to the longest-present co-host when the host drops out
+export const transferHostIfLeaving = async (io: SignalingServer, meetingId: string, leavingUserId: number) => {
+  const meeting = await query("SELECT host_id, status FROM meetings WHERE id = $1", [meetingId]);
+  if (meeting.rows[0]?.host_id !== leavingUserId || meeting.rows[0]?.status === "ended") {
+    return;
+  }
+
+  if ((await getLiveSockets(io, meetingId, leavingUserId)).length > 0) {
+    return;
+  }
+
+  const candidates = await query(
+    `SELECT mp.user_id, d.socket_id FROM meeting_participants mp
+     JOIN participant_devices d ON d.participant_id = mp.id AND d.left_at IS NULL
+     WHERE mp.meeting_id = $1 AND mp.role = 'co-host' AND mp.status = 'admitted'
+     ORDER BY mp.joined_at, d.joined_at`,
+    [meetingId]
+  );
+
+  const successor = candidates.rows.find((c) => io.sockets.sockets.has(c.socket_id));
+  if (successor) {
+    await changeHost(io, meetingId, successor.user_id);
+  }
+};
+
+export const registerRoleHandlers = (io: SignalingServer, socket: SocketWithAuth) => {
+  socket.on("change-role", async (data) => {
+    try {
+      if (!socket.meetingId) return;
+
+      const result = await changeParticipantRole(io, socket.meetingId, socket.userId!, data.userId, data.role);
+      if (!result.ok) {
+        socket.emit("error", { message: result.error });
+      }
+    } catch (error) {
+      logger.error("Change role error:", error);
+      socket.emit("error", { message: "Failed to change role" });
+    }
+  });
+
+  socket.on("transfer-host", async (data) => {
+    try {
+      if (!socket.meetingId) return;
+
+      const { role } = await getMeetingRole(socket.meetingId, socket.userId!);
+      if (role !== "host") {
+        socket.emit("error", { message: "Only the host can transfer host" });
+        return;
+      }
+
+      const result = await changeHost(io, socket.meetingId, data.userId);
+      if (!result.ok) {
+        socket.emit("error", { message: result.error });
+      }
+    } catch (error) {
+      logger.error("Transfer host error:", error);
+      socket.emit("error", { message: "Failed to transfer host" });
+    }
+  });
+};
@@ -0,0 +1,219 @@
+// src/sockets/validation.ts
+import { ExtendedError } from "socket.io";
+import { logger } from "../utils/logger";
+import { MAX_BREAKOUT_ROOMS } from "../utils/breakouts";
+import { MEETING_ROLES } from "../utils/permissions";
+import { MAX_DEVICE_LABEL_LENGTH } from "../utils/devices";
+import {
+  ClientToServerEvents,
+  SocketAck,
+  SocketErrorCode,
+  SocketWithAuth,
+} from "../types/socket";
+
+type Result<T> = { ok: true; value: T } | { ok: false; message: string };
+
+// A schema checks an untrusted value and returns a clean copy of it
+export type Schema<T> = (value: unknown, path: string) => Result<T>;
+
+type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const ok = <T>(value: T): Result<T> => ({ ok: true, value });
+const fail = <T>(message: string): Result<T> => ({ ok: false, message });
+
+const str =
+  (options: { min?: number; max?: number } = {}): Schema<string> =>
+  (value, path) => {
+    if (typeof value !== "string") return fail(`${path} must be a string`);
+    if (value.length < (options.min ?? 1)) return fail(`${path} must not be empty`);
+    if (value.length > (options.max ?? 1000)) return fail(`${path} is too long`);
+    return ok(value);
+  };
+
+const int =
+  (options: { min?: number; max?: number } = {}): Schema<number> =>
+  (value, path) => {
+    if (typeof value !== "number" || !Number.isInteger(value)) return fail(`${path} must be an integer`);
+    if (options.min !== undefined && value < options.min) return fail(`${path} must be at least ${options.min}`);
+    if (options.max !== undefined && value > options.max) return fail(`${path} must be at most ${options.max}`);
+    return ok(value);
+  };
+
+const bool = (): Schema<boolean> => (value, path) =>
+  typeof value === "boolean" ? ok(value) : fail(`${path} must be a boolean`);
+
+const oneOf =
+  <T extends string>(values: readonly T[]): Schema<T> =>
+  (value, path) =>
+    values.includes(value as T) ? ok(value as T) : fail(`${path} must be one of ${values.join(", ")}`);
+
+const optional =
+  <T>(schema: Schema<T>): Schema<T | undefined> =>
+  (value, path) =>
+    value === undefined ? ok(undefined) : schema(value, path);
+
+const nullable =
+  <T>(schema: Schema<T>): Schema<T | null> =>
+  (value, path) =>
+    value === null ? ok(null) : schema(value, path);
+
+const array =
+  <T>(item: Schema<T>, max: number): Schema<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) return fail(`${path} must be an array`);
+    if (value.length > max) return fail(`${path} may contain at most ${max} items`);
+
+    const items: T[] = [];
+    for (const [index, entry] of value.entries()) {
+      const result = item(entry, `${path}[${index}]`);
+      if (!result.ok) return result;
+      items.push(result.value);
+    }
+    return ok(items);
+  };
+
+// Unknown keys are dropped so clients cannot smuggle extra fields to peers
+const object =
+  <S extends Record<string, Schema<unknown>>>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> =>
+  (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return fail(`${path} must be an object`);
+    }
+
+    const output: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries(shape)) {
+      const result = schema((value as Record<string, unknown>)[key], `${path}.${key}`);
+      if (!result.ok) return result;
+      if (result.value !== undefined) output[key] = result.value;
+    }
+    return ok(output as { [K in keyof S]: Infer<S[K]> });
+  };
+
+const union =
+  <A, B>(a: Schema<A>, b: Schema<B>): Schema<A | B> =>
+  (value, path) => {
+    const first = a(value, path);
+    return first.ok ? first : b(value, path);
+  };
+
+// Events without a payload ignore whatever the client sends
+const none = (): Schema<undefined> => () => ok(undefined);
+
+const socketId = str({ max: 64 });
+const userId = int({ min: 1 });
+const targetSocket = object({ targetSocketId: socketId });
+const targetUser = object({ userId });
+
+const sessionDescription = object({
+  type: oneOf(["offer", "answer", "pranswer", "rollback"] as const),
+  sdp: optional(str({ min: 0, max: 100000 })),
+});
+
+const iceCandidate = object({
+  candidate: str({ min: 0, max: 2048 }),
+  sdpMid: optional(nullable(str({ min: 0, max: 256 }))),
+  sdpMLineIndex: optional(nullable(int({ min: 0, max: 1024 }))),
+  usernameFragment: optional(nullable(str({ min: 0, max: 256 }))),
+});
+
+const screenShare = optional(object({ streamId: optional(str({ max: 256 })) }));
+const countdown = optional(object({ countdownSeconds: optional(int({ min: 0 })) }));
+
+type EventSchemas = {
+  [E in keyof ClientToServerEvents]: Schema<Parameters<ClientToServerEvents[E]>[0]>;
+};
+
+export const clientEventSchemas: EventSchemas = {
+  "join-room": union(
+    str({ max: 100 }),
+    object({
+      roomId: str({ max: 100 }),
+      passcode: optional(str({ max: 100 })),
+      inviteToken: optional(str({ max: 4096 })),
+      deviceLabel: optional(str({ max: MAX_DEVICE_LABEL_LENGTH })),
+      moveCall: optional(bool()),
+    })
+  ),
+  "admit-participant": targetUser,
+  "deny-participant": targetUser,
+  "admit-all": none(),
+  "deny-all": none(),
+  "resume-session": object({ resumeToken: str({ max: 256 }) }),
+  "move-call-here": none(),
+
+  offer: object({ target: socketId, sdp: sessionDescription }),
+  answer: object({ target: socketId, sdp: sessionDescription }),
+  "ice-candidate": object({ target: socketId, candidate: iceCandidate }),
+  "screen-sharing-started": screenShare,
+  "screen-sharing-stopped": screenShare,
+  "kick-user": targetSocket,
+
+  "chat-message": object({ content: str({ min: 0, max: 10000 }), recipientUserId: optional(userId) }),
+  "chat-edit": object({ messageId: int({ min: 1 }), content: str({ min: 0, max: 10000 }) }),
+  "chat-delete": object({ messageId: int({ min: 1 }) }),
+
+  "change-role": object({ userId, role: oneOf(MEETING_ROLES) }),
+  "transfer-host": targetUser,
+
+  "media-state-changed": object({ audioMuted: optional(bool()), videoOff: optional(bool()) }),
+  "request-mute": targetSocket,
+  "request-camera-off": targetSocket,
+  "mute-all": none(),
+  "lock-meeting": object({ locked: bool() }),
+  "set-screen-share-policy": object({ attendeesCanShare: bool() }),
+
+  "breakout-create": object({
+    count: optional(int({ min: 1, max: MAX_BREAKOUT_ROOMS })),
+    names: optional(array(str({ max: 100 }), MAX_BREAKOUT_ROOMS)),
+  }),
+  "breakout-assign": object({
+    assignments: array(object({ userId, breakoutRoomId: nullable(int({ min: 1 })) }), 1000),
+  }),
+  "breakout-assign-random": none(),
+  "breakout-open": countdown,
+  "breakout-close": countdown,
+  "breakout-join": object({ breakoutRoomId: nullable(int({ min: 1 })) }),
+};
+
+// Reports a rejected event through the client's ack callback when it sent one
+export const rejectEvent = (
+  socket: SocketWithAuth,
+  ack: SocketAck | undefined,
+  code: SocketErrorCode,
+  message: string
+) => {
+  if (ack) {
+    ack({ ok: false, error: { code, message } });
+  } else {
+    socket.emit("error", { message, code });
+  }
+};
+
+// Socket middleware: every incoming event is checked against its schema and
+// handlers receive the cleaned payload instead of the raw one
+export const validateIncomingEvents =
+  (socket: SocketWithAuth) => (packet: [string, ...unknown[]], next: (err?: ExtendedError) => void) => {
+    const [event, ...args] = packet;
+    const ack = typeof args[args.length - 1] === "function" ? (args.pop() as SocketAck) : undefined;
+
+    // Own properties only: "__proto__" or "toString" must not resolve through the prototype chain
+    const schema = Object.hasOwn(clientEventSchemas, event)
+      ? clientEventSchemas[event as keyof ClientToServerEvents]
+      : undefined;
+    if (!schema) {
+      rejectEvent(socket, ack, "UNKNOWN_EVENT", `Unknown event "${event}"`);
+      return;
+    }
+
+    const result = schema(args[0], "payload");
+    if (!result.ok) {
+      logger.info(`Rejected ${event} from ${socket.id}: ${result.message}`);
+      rejectEvent(socket, ack, "INVALID_PAYLOAD", result.message);
+      return;
+    }
+
+    packet.length = 1;
+    packet.push(result.value);
+    if (ack) packet.push(ack);
+    next();
+  };
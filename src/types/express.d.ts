@@ -6,6 +6,7 @@ declare global {
     interface Request {
       userId?: number;
       userEmail?: string;
+      sessionId?: string;
     }
   }
 }
\ No newline at end of file
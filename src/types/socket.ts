@@ -0,0 +1,192 @@
+// src/types/socket.ts
+import { Server, Socket } from "socket.io";
+import type { ChatMessage, getMessageHistory } from "../utils/chat";
+import type { getPendingParticipants } from "../utils/lobby";
+import type { getIceServers } from "../utils/iceServers";
+import type { formatMediaState, getRoomState } from "../utils/mediaState";
+import type { MeetingRole } from "../utils/permissions";
+import type { getBreakoutOverview } from "../utils/breakouts";
+
+// ---- Payloads sent by clients ----
+
+export interface SessionDescription {
+  type: "offer" | "answer" | "pranswer" | "rollback";
+  sdp?: string | undefined;
+}
+
+export interface IceCandidate {
+  candidate: string;
+  sdpMid?: string | null | undefined;
+  sdpMLineIndex?: number | null | undefined;
+  usernameFragment?: string | null | undefined;
+}
+
+export interface JoinRoomPayload {
+  roomId: string;
+  passcode?: string | undefined;
+  inviteToken?: string | undefined;
+  // Shown to other participants and on the user's other devices
+  deviceLabel?: string | undefined;
+  // Ends the call on the user's other devices once this one is in
+  moveCall?: boolean | undefined;
+}
+
+export interface DescriptionPayload {
+  target: string;
+  sdp: SessionDescription;
+}
+
+export interface IceCandidatePayload {
+  target: string;
+  candidate: IceCandidate;
+}
+
+export interface ScreenSharePayload {
+  streamId?: string | undefined;
+}
+
+export interface TargetSocketPayload {
+  targetSocketId: string;
+}
+
+export interface TargetUserPayload {
+  userId: number;
+}
+
+export interface BreakoutAssignment {
+  userId: number;
+  breakoutRoomId: number | null;
+}
+
+// Structured result for events that accept an acknowledgement callback
+export type SocketErrorCode =
+  | "INVALID_PAYLOAD"
+  | "UNKNOWN_EVENT"
+  | "NOT_IN_MEETING"
+  | "TARGET_NOT_IN_ROOM"
+  | "FORBIDDEN"
+  | "RESUME_FAILED"
+  | "RATE_LIMITED"
+  | "INTERNAL_ERROR";
+
+export type SocketAckResponse = { ok: true } | { ok: false; error: { code: SocketErrorCode; message: string } };
+
+export type SocketAck = (response: SocketAckResponse) => void;
+
+export interface ClientToServerEvents {
+  "join-room": (data: string | JoinRoomPayload) => void;
+  "admit-participant": (data: TargetUserPayload) => void;
+  "deny-participant": (data: TargetUserPayload) => void;
+  "admit-all": () => void;
+  "deny-all": () => void;
+  "resume-session": (data: { resumeToken: string }, ack?: SocketAck) => void;
+  "move-call-here": (data?: undefined, ack?: SocketAck) => void;
+
+  offer: (data: DescriptionPayload, ack?: SocketAck) => void;
+  answer: (data: DescriptionPayload, ack?: SocketAck) => void;
+  "ice-candidate": (data: IceCandidatePayload, ack?: SocketAck) => void;
+  "screen-sharing-started": (data?: ScreenSharePayload, ack?: SocketAck) => void;
+  "screen-sharing-stopped": (data?: ScreenSharePayload, ack?: SocketAck) => void;
+  "kick-user": (data: TargetSocketPayload) => void;
+
+  "chat-message": (data: { content: string; recipientUserId?: number | undefined }) => void;
+  "chat-edit": (data: { messageId: number; content: string }) => void;
+  "chat-delete": (data: { messageId: number }) => void;
+
+  "change-role": (data: { userId: number; role: MeetingRole }) => void;
+  "transfer-host": (data: TargetUserPayload) => void;
+
+  "media-state-changed": (data: {
+    audioMuted?: boolean | undefined;
+    videoOff?: boolean | undefined;
+  }) => void;
+  "request-mute": (data: TargetSocketPayload) => void;
+  "request-camera-off": (data: TargetSocketPayload) => void;
+  "mute-all": () => void;
+  "lock-meeting": (data: { locked: boolean }) => void;
+  "set-screen-share-policy": (data: { attendeesCanShare: boolean }) => void;
+
+  "breakout-create": (data: { count?: number | undefined; names?: string[] | undefined }) => void;
+  "breakout-assign": (data: { assignments: BreakoutAssignment[] }) => void;
+  "breakout-assign-random": () => void;
+  "breakout-open": (data?: { countdownSeconds?: number | undefined }) => void;
+  "breakout-close": (data?: { countdownSeconds?: number | undefined }) => void;
+  "breakout-join": (data: { breakoutRoomId: number | null }) => void;
+}
+
+// ---- Events sent by the server ----
+
+type MediaStateUpdate = ReturnType<typeof formatMediaState>;
+
+export interface ServerToClientEvents {
+  error: (data: { message: string; code?: SocketErrorCode; opensAt?: Date | null }) => void;
+  "rate-limited": (data: { event: string; retryAfterMs: number }) => void;
+
+  "lobby-waiting": (data: { meetingId: string; title: string }) => void;
+  "lobby-admitted": (data: { meetingId: string; ice?: ReturnType<typeof getIceServers> }) => void;
+  "lobby-denied": (data: { meetingId: string; message: string }) => void;
+  "lobby-updated": (data: { pending: Awaited<ReturnType<typeof getPendingParticipants>> }) => void;
+
+  "all-users": (socketIds: string[]) => void;
+  "user-joined": (socketId: string) => void;
+  "user-left": (socketId: string) => void;
+  "room-state": (state: Awaited<ReturnType<typeof getRoomState>>) => void;
+  kicked: (data: { message: string }) => void;
+  "meeting-ended": (data: { meetingId: string; message: string }) => void;
+  "account-disabled": (data: { message: string }) => void;
+  "session-revoked": (data: { message: string }) => void;
+  "call-moved": (data: { meetingId: string; socketId: string; deviceLabel: string | null }) => void;
+
+  "resume-token": (data: { resumeToken: string; graceSeconds: number }) => void;
+  "session-resumed": (data: {
+    meetingId: string;
+    previousSocketId: string;
+    breakoutRoomId: number | null;
+    peers: string[];
+  }) => void;
+  "user-reconnecting": (data: { socketId: string; userId: number; graceSeconds: number }) => void;
+  "user-resumed": (data: { previousSocketId: string; socketId: string; userId: number }) => void;
+
+  offer: (data: DescriptionPayload & { caller: string }) => void;
+  answer: (data: DescriptionPayload & { caller: string }) => void;
+  "ice-candidate": (data: IceCandidatePayload & { caller: string }) => void;
+  "screen-sharing-started": (data: ScreenSharePayload & { userId: string }) => void;
+  "screen-sharing-stopped": (data: ScreenSharePayload & { userId: string }) => void;
+
+  "chat-history": (data: Awaited<ReturnType<typeof getMessageHistory>>) => void;
+  "chat-message": (message: ChatMessage) => void;
+  "chat-message-updated": (message: ChatMessage) => void;
+  "chat-message-deleted": (message: ChatMessage) => void;
+
+  "role-changed": (data: { userId: number; role: MeetingRole }) => void;
+  "host-changed": (data: { userId: number; previousHostId: number }) => void;
+
+  "media-state-updated": (state: MediaStateUpdate | null) => void;
+  "force-mute": (data: { by: number | undefined }) => void;
+  "force-camera-off": (data: { by: number | undefined }) => void;
+  "force-stop-screen-share": (data: { by: number | undefined }) => void;
+  "meeting-locked": (data: { locked: boolean; by: number | undefined }) => void;
+  "screen-share-policy-changed": (data: { attendeesCanShare: boolean }) => void;
+
+  "breakout-rooms-updated": (overview: Awaited<ReturnType<typeof getBreakoutOverview>>) => void;
+  "breakout-opening": (data: { opensAt: Date; seconds: number }) => void;
+  "breakout-opened": (data: Record<string, never>) => void;
+  "breakout-closing": (data: { closesAt: Date; seconds: number }) => void;
+  "breakout-closed": (data: Record<string, never>) => void;
+  "breakout-moved": (data: { breakoutRoomId: number | null; name?: string | null }) => void;
+}
+
+export type SignalingServer = Server<ClientToServerEvents, ServerToClientEvents>;
+
+export interface SocketWithAuth extends Socket<ClientToServerEvents, ServerToClientEvents> {
+  userId?: number;
+  userEmail?: string;
+  sessionId?: string;
+  // Set for guests, who may only join this meeting
+  guestMeetingId?: string;
+  meetingId?: string;
+  deviceLabel?: string;
+  // Socket.IO room used for WebRTC signaling: the meeting itself or a breakout room
+  mediaRoom?: string;
+  breakoutRoomId?: number;
+}
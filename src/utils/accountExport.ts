@@ -0,0 +1,99 @@
+// src/utils/accountExport.ts
+// Everything stored about a user, for the self-service data export
+import { query } from '../config/database';
+import { getAttendanceReport } from './attendance';
+import { listIdentities } from './identities';
+import { listActiveSessions } from './sessions';
+
+export const buildAccountExport = async (userId: number) => {
+  const user = await query(
+    'SELECT id, email, name, locale, is_verified, totp_enabled_at, created_at, updated_at FROM users WHERE id = $1',
+    [userId]
+  );
+  if (user.rows.length === 0) {
+    return null;
+  }
+  const profile = user.rows[0];
+
+  const meetings = await query(
+    `SELECT id, title, status, access_mode, lobby_enabled, max_participants, scheduled_start, duration_minutes,
+       time_zone, recurrence_rule, created_at, ended_at
+     FROM meetings WHERE host_id = $1 ORDER BY created_at`,
+    [userId]
+  );
+
+  // Hosts can already download these reports, so the export includes them for every hosted meeting
+  const hostedMeetings = [];
+  for (const m of meetings.rows) {
+    hostedMeetings.push({
+      id: m.id,
+      title: m.title,
+      status: m.status,
+      accessMode: m.access_mode,
+      lobbyEnabled: m.lobby_enabled,
+      maxParticipants: m.max_participants,
+      scheduledStart: m.scheduled_start,
+      durationMinutes: m.duration_minutes,
+      timeZone: m.time_zone,
+      recurrence: m.recurrence_rule,
+      createdAt: m.created_at,
+      endedAt: m.ended_at,
+      attendance: await getAttendanceReport(m.id),
+    });
+  }
+
+  const attendance = await query(
+    `SELECT e.meeting_id, m.title, e.event_type, e.occurred_at, d.device_label
+     FROM attendance_events e
+     JOIN meetings m ON m.id = e.meeting_id
+     LEFT JOIN participant_devices d ON d.id = e.device_id
+     WHERE e.user_id = $1
+     ORDER BY e.occurred_at, e.id`,
+    [userId]
+  );
+
+  const messages = await query(
+    `SELECT meeting_id, is_private, content, created_at, edited_at FROM meeting_messages
+     WHERE sender_id = $1 AND deleted_at IS NULL
+     ORDER BY created_at, id`,
+    [userId]
+  );
+
+  const sessions = await listActiveSessions(userId);
+
+  return {
+    exportedAt: new Date(),
+    profile: {
+      id: profile.id,
+      email: profile.email,
+      name: profile.name,
+      locale: profile.locale,
+      isVerified: profile.is_verified,
+      twoFactorEnabled: Boolean(profile.totp_enabled_at),
+      createdAt: profile.created_at,
+      updatedAt: profile.updated_at,
+    },
+    identities: await listIdentities(userId),
+    sessions: sessions.map((s) => ({
+      userAgent: s.user_agent,
+      ipAddress: s.ip_address,
+      createdAt: s.created_at,
+      lastUsedAt: s.last_used_at,
+    })),
+    hostedMeetings,
+    attendance: attendance.rows.map((e) => ({
+      meetingId: e.meeting_id,
+      meetingTitle: e.title,
+      type: e.event_type,
+      deviceLabel: e.device_label,
+      occurredAt: e.occurred_at,
+    })),
+    messages: messages.rows.map((m) => ({
+      meetingId: m.meeting_id,
+      private: m.is_private,
+      content: m.content,
+      createdAt: m.created_at,
+      editedAt: m.edited_at,
+    })),
+  };
+};
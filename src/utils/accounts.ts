@@ -0,0 +1,142 @@
+// src/utils/accounts.ts
+import bcrypt from 'bcryptjs';
+import { query } from '../config/database';
+import { revokeAllSessions } from './sessions';
+
+export type AccountBlock = 'disabled' | 'banned';
+
+const ACTIVE_BAN = 'b.lifted_at IS NULL AND (b.expires_at IS NULL OR b.expires_at > NOW())';
+
+export const accountBlockMessage = (block: AccountBlock) =>
+  block === 'disabled' ? 'Account is disabled' : 'Account is banned';
+
+// The user as seen by the auth middlewares, with the reason they are locked out if any
+export const getAuthUser = async (userId: number) => {
+  const result = await query(
+    `SELECT u.id, u.email, u.is_verified, u.is_admin, u.disabled_at,
+       EXISTS (
+         SELECT 1 FROM platform_bans b
+         WHERE (b.user_id = u.id OR LOWER(b.email) = LOWER(u.email)) AND ${ACTIVE_BAN}
+       ) AS banned
+     FROM users u
+     WHERE u.id = $1`,
+    [userId]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const user = result.rows[0];
+  const block: AccountBlock | null = user.disabled_at ? 'disabled' : user.banned ? 'banned' : null;
+
+  return {
+    id: user.id as number,
+    email: user.email as string,
+    isVerified: user.is_verified as boolean,
+    isAdmin: user.is_admin as boolean,
+    block,
+  };
+};
+
+// False for accounts without a password (created through OIDC and never given one)
+export const checkPassword = async (userId: number, password: string) => {
+  const result = await query('SELECT password FROM users WHERE id = $1', [userId]);
+  return Boolean(result.rows[0]?.password) && (await bcrypt.compare(password, result.rows[0].password));
+};
+
+export const hasPassword = async (userId: number) => {
+  const result = await query('SELECT password IS NOT NULL AS has_password FROM users WHERE id = $1', [userId]);
+  return Boolean(result.rows[0]?.has_password);
+};
+
+// For actions confirmed with the password. Accounts without one are told to set one first
+// (they can, with POST /api/account/password) rather than that their password is wrong.
+export const confirmPassword = async (userId: number, password: string) => {
+  if (!(await hasPassword(userId))) {
+    return { ok: false as const, status: 400, error: 'Set a password for your account first' };
+  }
+  if (!(await checkPassword(userId, password))) {
+    return { ok: false as const, status: 401, error: 'Incorrect password' };
+  }
+  return { ok: true as const };
+};
+
+export const isEmailBanned = async (email: string) => {
+  const result = await query(`SELECT 1 FROM platform_bans b WHERE LOWER(b.email) = LOWER($1) AND ${ACTIVE_BAN}`, [
+    email,
+  ]);
+  return result.rows.length > 0;
+};
+
+// Disabling also ends every session; the user has to log in again once re-enabled
+export const setUserDisabled = async (userId: number, disabled: boolean, reason?: string) => {
+  const result = await query(
+    `UPDATE users SET disabled_at = CASE WHEN $2 THEN COALESCE(disabled_at, NOW()) END,
+       disabled_reason = CASE WHEN $2 THEN $3 END, updated_at = NOW()
+     WHERE id = $1 RETURNING id`,
+    [userId, disabled, reason || null]
+  );
+
+  if (result.rows.length > 0 && disabled) {
+    await revokeAllSessions(userId);
+  }
+  return result.rows.length > 0;
+};
+
+export const createBan = async (ban: {
+  userId: number | null;
+  email: string | null;
+  reason: string;
+  expiresAt: Date | null;
+  createdBy: number;
+}) => {
+  const result = await query(
+    `INSERT INTO platform_bans (user_id, email, reason, expires_at, created_by)
+     VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+    [ban.userId, ban.email, ban.reason, ban.expiresAt, ban.createdBy]
+  );
+
+  // Sessions of the banned user (matched by id or email) end right away
+  const users = await query(
+    'SELECT id FROM users WHERE id = $1 OR ($2::text IS NOT NULL AND LOWER(email) = LOWER($2))',
+    [ban.userId, ban.email]
+  );
+  for (const user of users.rows) {
+    await revokeAllSessions(user.id);
+  }
+
+  return { ban: result.rows[0], userIds: users.rows.map((u) => u.id as number) };
+};
+
+export const liftBan = async (banId: number, liftedBy: number) => {
+  const result = await query(
+    'UPDATE platform_bans SET lifted_at = NOW(), lifted_by = $2 WHERE id = $1 AND lifted_at IS NULL RETURNING id',
+    [banId, liftedBy]
+  );
+  return result.rows.length > 0;
+};
+
+interface BanRow {
+  id: number;
+  user_id: number | null;
+  email: string | null;
+  reason: string;
+  created_by: number | null;
+  created_at: Date;
+  expires_at: Date | null;
+  lifted_at: Date | null;
+  lifted_by: number | null;
+}
+
+export const formatBan = (ban: BanRow) => ({
+  id: ban.id,
+  userId: ban.user_id,
+  email: ban.email,
+  reason: ban.reason,
+  createdBy: ban.created_by,
+  createdAt: ban.created_at,
+  expiresAt: ban.expires_at,
+  liftedAt: ban.lifted_at,
+  liftedBy: ban.lifted_by,
+});
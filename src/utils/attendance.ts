@@ -0,0 +1,279 @@
+// src/utils/attendance.ts
+import { query } from '../config/database';
+
+export type AttendanceEventType = 'join' | 'leave' | 'kick' | 'disconnect' | 'reconnect';
+
+interface AttendanceEvent {
+  meetingId: string;
+  userId: number;
+  deviceId: number | null;
+  type: AttendanceEventType;
+  occurredAt: Date;
+}
+
+// Logs an event for each device, looked up by its current socket
+export const recordAttendance = async (socketIds: string[], type: AttendanceEventType) => {
+  if (socketIds.length === 0) return;
+
+  await query(
+    `INSERT INTO attendance_events (meeting_id, user_id, device_id, event_type)
+     SELECT DISTINCT ON (socket_id) meeting_id, user_id, id, $2 FROM participant_devices
+     WHERE socket_id = ANY($1::text[])
+     ORDER BY socket_id, id DESC`,
+    [socketIds, type]
+  );
+};
+
+interface AttendanceEventRow {
+  meeting_id: string;
+  user_id: number;
+  device_id: number | null;
+  event_type: AttendanceEventType;
+  occurred_at: Date;
+}
+
+const mapEvent = (row: AttendanceEventRow): AttendanceEvent => ({
+  meetingId: row.meeting_id,
+  userId: row.user_id,
+  deviceId: row.device_id,
+  type: row.event_type,
+  occurredAt: row.occurred_at,
+});
+
+// Replays the log device by device. A device counts as connected between join/reconnect and
+// disconnect/leave/kick, and as present until it leaves for good (a dropped device may come back).
+const replayAttendance = (
+  events: AttendanceEvent[],
+  onChange: (
+    event: AttendanceEvent,
+    change: { connectedBefore: number; connectedAfter: number; presentBefore: number; presentAfter: number }
+  ) => void
+) => {
+  const devices = new Map<string, { meetingId: string; userId: number; connected: boolean }>();
+
+  const countFor = (meetingId: string, userId: number) => {
+    let connected = 0;
+    let present = 0;
+    for (const device of devices.values()) {
+      if (device.meetingId !== meetingId || device.userId !== userId) continue;
+      present++;
+      if (device.connected) connected++;
+    }
+    return { connected, present };
+  };
+
+  for (const event of events) {
+    const key = `${event.meetingId}:${event.userId}:${event.deviceId ?? 'unknown'}`;
+    const before = countFor(event.meetingId, event.userId);
+
+    if (event.type === 'join' || event.type === 'reconnect') {
+      devices.set(key, { meetingId: event.meetingId, userId: event.userId, connected: true });
+    } else if (event.type === 'disconnect') {
+      const device = devices.get(key);
+      if (device) device.connected = false;
+    } else {
+      devices.delete(key);
+    }
+
+    const after = countFor(event.meetingId, event.userId);
+    onChange(event, {
+      connectedBefore: before.connected,
+      connectedAfter: after.connected,
+      presentBefore: before.present,
+      presentAfter: after.present,
+    });
+  }
+};
+
+const secondsBetween = (from: Date, to: Date) => Math.max(0, Math.round((to.getTime() - from.getTime()) / 1000));
+
+// Per participant: time actually connected, sessions, first join and last leave
+export const getAttendanceReport = async (meetingId: string, now = new Date()) => {
+  const result = await query(
+    `SELECT e.meeting_id, e.user_id, e.device_id, e.event_type, e.occurred_at
+     FROM attendance_events e
+     WHERE e.meeting_id = $1
+     ORDER BY e.occurred_at, e.id`,
+    [meetingId]
+  );
+  const users = await query(
+    `SELECT u.id, u.name, u.email FROM users u
+     WHERE u.id IN (SELECT user_id FROM attendance_events WHERE meeting_id = $1)`,
+    [meetingId]
+  );
+
+  const rows = new Map<
+    number,
+    {
+      sessions: number;
+      totalSeconds: number;
+      firstJoinedAt: Date | null;
+      lastLeftAt: Date | null;
+      connectedSince: Date | null;
+      kicked: boolean;
+      present: boolean;
+    }
+  >();
+
+  replayAttendance(result.rows.map(mapEvent), (event, change) => {
+    let row = rows.get(event.userId);
+    if (!row) {
+      row = {
+        sessions: 0,
+        totalSeconds: 0,
+        firstJoinedAt: null,
+        lastLeftAt: null,
+        connectedSince: null,
+        kicked: false,
+        present: false,
+      };
+      rows.set(event.userId, row);
+    }
+
+    if (event.type === 'join' && change.presentBefore === 0) {
+      row.sessions++;
+      row.firstJoinedAt ??= event.occurredAt;
+    }
+    if (event.type === 'kick') {
+      row.kicked = true;
+    }
+
+    if (change.connectedBefore === 0 && change.connectedAfter > 0) {
+      row.connectedSince = event.occurredAt;
+    } else if (change.connectedBefore > 0 && change.connectedAfter === 0 && row.connectedSince) {
+      row.totalSeconds += secondsBetween(row.connectedSince, event.occurredAt);
+      row.connectedSince = null;
+    }
+
+    if (change.presentBefore > 0 && change.presentAfter === 0) {
+      row.lastLeftAt = event.occurredAt;
+    }
+    row.present = change.presentAfter > 0;
+  });
+
+  const names = new Map(users.rows.map((u) => [u.id as number, u]));
+
+  return [...rows.entries()]
+    .filter(([, row]) => row.firstJoinedAt !== null)
+    .map(([userId, row]) => ({
+      userId,
+      name: (names.get(userId)?.name as string) ?? null,
+      email: (names.get(userId)?.email as string) ?? null,
+      sessions: row.sessions,
+      // Still connected participants are counted up to now
+      totalSeconds: row.totalSeconds + (row.connectedSince ? secondsBetween(row.connectedSince, now) : 0),
+      firstJoinedAt: row.firstJoinedAt,
+      lastLeftAt: row.present ? null : row.lastLeftAt,
+      stillPresent: row.present,
+      kicked: row.kicked,
+    }))
+    .sort((a, b) => a.firstJoinedAt!.getTime() - b.firstJoinedAt!.getTime());
+};
+
+export type AttendanceReport = Awaited<ReturnType<typeof getAttendanceReport>>;
+
+// Names are user input: a leading =, +, -, @, tab or CR would make spreadsheets run the
+// value as a formula, so such text is prefixed with ' to keep it a plain string
+const csvField = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const attendanceReportToCsv = (report: AttendanceReport) => {
+  const header = ['user_id', 'name', 'email', 'sessions', 'total_seconds', 'first_joined_at', 'last_left_at', 'kicked'];
+  const lines = report.map((row) =>
+    [row.userId, row.name, row.email, row.sessions, row.totalSeconds, row.firstJoinedAt, row.lastLeftAt, row.kicked]
+      .map(csvField)
+      .join(',')
+  );
+  return [header.join(','), ...lines].join('\r\n') + '\r\n';
+};
+
+const startOfWeek = (date: Date) => {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  return start;
+};
+
+// Aggregates over a host's meetings. A meeting session runs from the first participant
+// connecting until nobody is connected anymore, so recurring meetings count once per occurrence.
+export const getHostAnalytics = async (hostId: number, since: Date, now = new Date()) => {
+  const result = await query(
+    `SELECT e.meeting_id, e.user_id, e.device_id, e.event_type, e.occurred_at
+     FROM attendance_events e
+     JOIN meetings m ON m.id = e.meeting_id
+     WHERE m.host_id = $1 AND e.occurred_at >= $2
+     ORDER BY e.occurred_at, e.id`,
+    [hostId, since]
+  );
+
+  const sessions: { meetingId: string; startedAt: Date; endedAt: Date | null; peak: number }[] = [];
+  const open = new Map<string, { session: (typeof sessions)[number]; connectedUsers: number }>();
+  const attendees = new Set<number>();
+
+  replayAttendance(result.rows.map(mapEvent), (event, change) => {
+    const userJoined = change.connectedBefore === 0 && change.connectedAfter > 0;
+    const userLeft = change.connectedBefore > 0 && change.connectedAfter === 0;
+    if (!userJoined && !userLeft) return;
+
+    let current = open.get(event.meetingId);
+    if (userJoined) {
+      attendees.add(event.userId);
+      if (!current) {
+        current = {
+          session: { meetingId: event.meetingId, startedAt: event.occurredAt, endedAt: null, peak: 0 },
+          connectedUsers: 0,
+        };
+        sessions.push(current.session);
+        open.set(event.meetingId, current);
+      }
+      current.connectedUsers++;
+      current.session.peak = Math.max(current.session.peak, current.connectedUsers);
+    } else if (current) {
+      current.connectedUsers--;
+      if (current.connectedUsers === 0) {
+        current.session.endedAt = event.occurredAt;
+        open.delete(event.meetingId);
+      }
+    }
+  });
+
+  const weeks = new Map<string, { weekStart: Date; meetings: number; totalSeconds: number; peakConcurrency: number }>();
+  for (let week = startOfWeek(since); week <= now; week = new Date(week.getTime() + 7 * 24 * 3600 * 1000)) {
+    weeks.set(week.toISOString(), { weekStart: week, meetings: 0, totalSeconds: 0, peakConcurrency: 0 });
+  }
+
+  let totalSeconds = 0;
+  for (const session of sessions) {
+    const seconds = secondsBetween(session.startedAt, session.endedAt ?? now);
+    totalSeconds += seconds;
+
+    const week = weeks.get(startOfWeek(session.startedAt).toISOString());
+    if (week) {
+      week.meetings++;
+      week.totalSeconds += seconds;
+      week.peakConcurrency = Math.max(week.peakConcurrency, session.peak);
+    }
+  }
+
+  return {
+    since,
+    totals: {
+      meetings: sessions.length,
+      distinctMeetings: new Set(sessions.map((s) => s.meetingId)).size,
+      attendees: attendees.size,
+      averageDurationSeconds: sessions.length ? Math.round(totalSeconds / sessions.length) : 0,
+      peakConcurrency: sessions.reduce((peak, s) => Math.max(peak, s.peak), 0),
+    },
+    weeks: [...weeks.values()].map((week) => ({
+      weekStart: week.weekStart,
+      meetings: week.meetings,
+      averageDurationSeconds: week.meetings ? Math.round(week.totalSeconds / week.meetings) : 0,
+      peakConcurrency: week.peakConcurrency,
+    })),
+  };
+};
@@ -0,0 +1,96 @@
+// src/utils/breakouts.ts
+import { query } from '../config/database';
+
+// 'none' -> 'prepared' (rooms exist) -> 'open' -> 'closing' -> 'prepared'
+export type BreakoutStatus = 'none' | 'prepared' | 'open' | 'closing';
+
+export const MAX_BREAKOUT_ROOMS = 50;
+
+export const breakoutRoom = (meetingId: string, breakoutRoomId: number) =>
+  `${meetingId}:breakout:${breakoutRoomId}`;
+
+// Every socket that is in some breakout room also joins this one
+export const breakoutsRoom = (meetingId: string) => `${meetingId}:breakouts`;
+
+// Targets everyone in the meeting, whether in the main room or a breakout
+export const meetingAudience = (meetingId: string) => [meetingId, breakoutsRoom(meetingId)];
+
+export const getBreakoutOverview = async (meetingId: string) => {
+  const meeting = await query('SELECT breakout_status FROM meetings WHERE id = $1', [meetingId]);
+  const rooms = await query(
+    'SELECT id, name FROM breakout_rooms WHERE meeting_id = $1 ORDER BY position',
+    [meetingId]
+  );
+  const assignments = await query(
+    `SELECT mp.user_id, mp.breakout_room_id, u.name
+     FROM meeting_participants mp
+     JOIN users u ON mp.user_id = u.id
+     WHERE mp.meeting_id = $1 AND mp.status = 'admitted' AND mp.left_at IS NULL`,
+    [meetingId]
+  );
+
+  const participantsOf = (roomId: number | null) =>
+    assignments.rows
+      .filter((a) => a.breakout_room_id === roomId)
+      .map((a) => ({ userId: a.user_id as number, name: a.name as string }));
+
+  return {
+    status: (meeting.rows[0]?.breakout_status || 'none') as BreakoutStatus,
+    rooms: rooms.rows.map((r) => ({ id: r.id as number, name: r.name as string, participants: participantsOf(r.id) })),
+    unassigned: participantsOf(null),
+  };
+};
+
+// Replaces any previous set of rooms; assignments are cleared with them
+export const createBreakoutRooms = async (meetingId: string, names: string[]) => {
+  await query('UPDATE meeting_participants SET breakout_room_id = NULL WHERE meeting_id = $1', [meetingId]);
+  await query('DELETE FROM breakout_rooms WHERE meeting_id = $1', [meetingId]);
+
+  for (const [position, name] of names.entries()) {
+    await query('INSERT INTO breakout_rooms (meeting_id, name, position) VALUES ($1, $2, $3)', [
+      meetingId,
+      name,
+      position,
+    ]);
+  }
+
+  await query("UPDATE meetings SET breakout_status = $1 WHERE id = $2", [
+    names.length ? 'prepared' : 'none',
+    meetingId,
+  ]);
+};
+
+export const assignToBreakout = async (meetingId: string, userId: number, breakoutRoomId: number | null) => {
+  const result = await query(
+    `UPDATE meeting_participants SET breakout_room_id = $3
+     WHERE meeting_id = $1 AND user_id = $2 AND status = 'admitted'
+       AND ($3::int IS NULL OR EXISTS (SELECT 1 FROM breakout_rooms WHERE id = $3 AND meeting_id = $1))
+     RETURNING id`,
+    [meetingId, userId, breakoutRoomId]
+  );
+  return result.rows.length > 0;
+};
+
+// Spreads the given users evenly over the rooms in random order
+export const assignRandomly = async (meetingId: string, userIds: number[]) => {
+  const rooms = await query('SELECT id FROM breakout_rooms WHERE meeting_id = $1 ORDER BY position', [meetingId]);
+  if (rooms.rows.length === 0) {
+    return 0;
+  }
+
+  const shuffled = [...userIds];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j]!, shuffled[i]!];
+  }
+
+  for (const [index, userId] of shuffled.entries()) {
+    await assignToBreakout(meetingId, userId, rooms.rows[index % rooms.rows.length].id);
+  }
+
+  return shuffled.length;
+};
+
+export const setBreakoutStatus = async (meetingId: string, status: BreakoutStatus) => {
+  await query('UPDATE meetings SET breakout_status = $1 WHERE id = $2', [status, meetingId]);
+};
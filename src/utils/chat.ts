@@ -0,0 +1,115 @@
+// src/utils/chat.ts
+import { query } from '../config/database';
+
+export const MAX_MESSAGE_LENGTH = 2000;
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+export interface ChatMessage {
+  id: number;
+  meetingId: string;
+  sender: { userId: number | null; name: string | null };
+  recipientUserId: number | null;
+  isPrivate: boolean;
+  content: string | null;
+  createdAt: Date;
+  editedAt: Date | null;
+  deletedAt: Date | null;
+}
+
+const MESSAGE_SELECT = `
+  SELECT mm.*, u.name AS sender_name
+  FROM meeting_messages mm
+  LEFT JOIN users u ON mm.sender_id = u.id`;
+
+interface MessageRow {
+  id: number;
+  meeting_id: string;
+  sender_id: number | null;
+  sender_name: string | null;
+  recipient_id: number | null;
+  is_private: boolean;
+  content: string;
+  created_at: Date;
+  edited_at: Date | null;
+  deleted_at: Date | null;
+}
+
+const formatMessage = (row: MessageRow): ChatMessage => ({
+  id: row.id,
+  meetingId: row.meeting_id,
+  sender: { userId: row.sender_id, name: row.sender_name },
+  recipientUserId: row.recipient_id,
+  isPrivate: row.is_private,
+  // Deleted messages keep their place in the history but lose their content
+  content: row.deleted_at ? null : row.content,
+  createdAt: row.created_at,
+  editedAt: row.edited_at,
+  deletedAt: row.deleted_at,
+});
+
+export const normalizeContent = (content: unknown) => {
+  if (typeof content !== 'string') {
+    return null;
+  }
+  const trimmed = content.trim();
+  return trimmed.length > 0 && trimmed.length <= MAX_MESSAGE_LENGTH ? trimmed : null;
+};
+
+export const createMessage = async (
+  meetingId: string,
+  senderId: number,
+  content: string,
+  recipientId: number | null
+) => {
+  const inserted = await query(
+    `INSERT INTO meeting_messages (meeting_id, sender_id, recipient_id, is_private, content)
+     VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+    [meetingId, senderId, recipientId, recipientId !== null, content]
+  );
+  return getMessage(inserted.rows[0].id);
+};
+
+export const getMessage = async (messageId: number) => {
+  const result = await query(`${MESSAGE_SELECT} WHERE mm.id = $1`, [messageId]);
+  return result.rows.length ? formatMessage(result.rows[0]) : null;
+};
+
+export const editMessage = async (messageId: number, content: string) => {
+  await query('UPDATE meeting_messages SET content = $1, edited_at = NOW() WHERE id = $2', [
+    content,
+    messageId,
+  ]);
+  return getMessage(messageId);
+};
+
+export const deleteMessage = async (messageId: number, deletedBy: number) => {
+  await query(
+    'UPDATE meeting_messages SET deleted_at = NOW(), deleted_by = $1 WHERE id = $2 AND deleted_at IS NULL',
+    [deletedBy, messageId]
+  );
+  return getMessage(messageId);
+};
+
+// Newest-first page of the messages a user can see, returned in chronological order
+export const getMessageHistory = async (
+  meetingId: string,
+  userId: number,
+  options: { before?: number | undefined; limit?: number | undefined } = {}
+) => {
+  const limit = Math.min(Math.max(options.limit || DEFAULT_HISTORY_LIMIT, 1), 100);
+
+  const result = await query(
+    `${MESSAGE_SELECT}
+     WHERE mm.meeting_id = $1
+       AND (NOT mm.is_private OR mm.recipient_id = $2 OR mm.sender_id = $2)
+       AND ($3::int IS NULL OR mm.id < $3)
+     ORDER BY mm.id DESC
+     LIMIT $4`,
+    [meetingId, userId, options.before || null, limit + 1]
+  );
+
+  const hasMore = result.rows.length > limit;
+  const messages = result.rows.slice(0, limit).reverse().map(formatMessage);
+
+  return { messages, hasMore };
+};
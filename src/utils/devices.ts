@@ -0,0 +1,133 @@
+// src/utils/devices.ts
+import os from 'os';
+import { query } from '../config/database';
+import { ParticipantStatus } from './lobby';
+
+export const MAX_DEVICE_LABEL_LENGTH = 100;
+
+// Names the instance holding a device's socket. It has to stay the same across restarts, so that
+// an instance can close the devices it lost in a crash without touching other instances' devices.
+export const SERVER_INSTANCE_ID = process.env.INSTANCE_ID || os.hostname();
+
+const BROWSERS: [string, RegExp][] = [
+  ['Edge', /Edg\//],
+  ['Opera', /OPR\//],
+  ['Firefox', /Firefox\//],
+  ['Chrome', /Chrome\//],
+  ['Safari', /Safari\//],
+];
+
+const PLATFORMS: [string, RegExp][] = [
+  ['Android', /Android/],
+  ['iOS', /iPhone|iPad|iPod/],
+  ['Windows', /Windows/],
+  ['macOS', /Mac OS X/],
+  ['Linux', /Linux/],
+];
+
+// Fallback label such as "Chrome on Windows" when the client does not send one
+export const describeUserAgent = (userAgent: string | undefined) => {
+  if (!userAgent) return null;
+
+  const browser = BROWSERS.find(([, pattern]) => pattern.test(userAgent))?.[0];
+  const platform = PLATFORMS.find(([, pattern]) => pattern.test(userAgent))?.[0];
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || null;
+};
+
+// Each connected socket of a participant is one device; the participant row
+// keeps what belongs to the user (role, lobby status, breakout assignment).
+export const addDevice = async (
+  meetingId: string,
+  userId: number,
+  socketId: string,
+  deviceLabel: string | null
+) => {
+  const result = await query(
+    `INSERT INTO participant_devices (participant_id, meeting_id, user_id, socket_id, device_label, instance_id)
+     SELECT id, meeting_id, user_id, $3, $4, $5 FROM meeting_participants
+     WHERE meeting_id = $1 AND user_id = $2
+     RETURNING id`,
+    [meetingId, userId, socketId, deviceLabel, SERVER_INSTANCE_ID]
+  );
+  return result.rows[0]?.id as number | undefined;
+};
+
+export const getActiveDevices = async (meetingId: string, userId: number) => {
+  const result = await query(
+    `SELECT socket_id, device_label, joined_at, disconnected_at FROM participant_devices
+     WHERE meeting_id = $1 AND user_id = $2 AND left_at IS NULL
+     ORDER BY joined_at`,
+    [meetingId, userId]
+  );
+
+  return result.rows.map((d) => ({
+    socketId: d.socket_id as string,
+    deviceLabel: d.device_label as string | null,
+    joinedAt: d.joined_at as Date,
+    reconnecting: d.disconnected_at !== null,
+  }));
+};
+
+export const getDeviceSocketIds = async (meetingId: string, userIds: number[]) => {
+  const result = await query(
+    `SELECT socket_id FROM participant_devices
+     WHERE meeting_id = $1 AND user_id = ANY($2::int[]) AND left_at IS NULL`,
+    [meetingId, userIds]
+  );
+  return result.rows.map((d) => d.socket_id as string);
+};
+
+// The user behind a connected socket, as long as they are admitted to the meeting
+export const getAdmittedDevice = async (meetingId: string, socketId: string) => {
+  const result = await query(
+    `SELECT d.user_id, d.device_label FROM participant_devices d
+     JOIN meeting_participants mp ON mp.id = d.participant_id
+     WHERE d.meeting_id = $1 AND d.socket_id = $2 AND d.left_at IS NULL AND mp.status = 'admitted'`,
+    [meetingId, socketId]
+  );
+  return result.rows[0] as { user_id: number; device_label: string | null } | undefined;
+};
+
+// Marks a device as gone. The participant only leaves once their last device has.
+export const removeDevice = async (socketId: string) => {
+  const device = await query(
+    `UPDATE participant_devices SET left_at = NOW(), disconnected_at = NULL, resume_token_hash = NULL
+     WHERE socket_id = $1 AND left_at IS NULL
+     RETURNING participant_id, meeting_id, user_id`,
+    [socketId]
+  );
+  if (device.rows.length === 0) {
+    return null;
+  }
+
+  const { participant_id, meeting_id, user_id } = device.rows[0];
+  const participant = await query(
+    `UPDATE meeting_participants SET left_at = CASE
+       WHEN EXISTS (SELECT 1 FROM participant_devices WHERE participant_id = $1 AND left_at IS NULL) THEN left_at
+       ELSE NOW()
+     END
+     WHERE id = $1
+     RETURNING status, left_at IS NOT NULL AS has_left`,
+    [participant_id]
+  );
+
+  return {
+    meetingId: meeting_id as string,
+    userId: user_id as number,
+    status: participant.rows[0]?.status as ParticipantStatus,
+    lastDevice: Boolean(participant.rows[0]?.has_left),
+  };
+};
+
+// Used by "move call to this device": every other device of the user leaves
+export const removeOtherDevices = async (meetingId: string, userId: number, keepSocketId: string) => {
+  const result = await query(
+    `UPDATE participant_devices SET left_at = NOW(), disconnected_at = NULL, resume_token_hash = NULL
+     WHERE meeting_id = $1 AND user_id = $2 AND socket_id <> $3 AND left_at IS NULL
+     RETURNING socket_id`,
+    [meetingId, userId, keepSocketId]
+  );
+  return result.rows.map((d) => d.socket_id as string);
+};
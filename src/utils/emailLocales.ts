@@ -0,0 +1,219 @@
+// src/utils/emailLocales.ts
+// The copy of every email, per language. {placeholders} are filled in by utils/emailTemplates.ts,
+// and {brand} is always available. Add a language by adding a key with all templates.
+
+export const EMAIL_TEMPLATES = [
+  'verification',
+  'email-change',
+  'password-reset',
+  'account-locked',
+  'meeting-invitation',
+] as const;
+
+export type EmailTemplateName = (typeof EMAIL_TEMPLATES)[number];
+
+export interface TemplateCopy {
+  subject: string;
+  heading: string;
+  // Paragraphs before the button
+  intro: string[];
+  // Button label; the link is shown next to it in the plain-text part
+  action: string;
+  // Paragraphs after the button
+  outro: string[];
+}
+
+export const EMAIL_COPY: Record<string, Record<EmailTemplateName, TemplateCopy>> = {
+  en: {
+    verification: {
+      subject: 'Verify Your Email - {brand}',
+      heading: 'Email Verification',
+      intro: ['Thank you for registering! Please verify your email by clicking the link below:'],
+      action: 'Verify Email',
+      outro: ['This link will expire in 24 hours.', "If you didn't create an account, please ignore this email."],
+    },
+    'email-change': {
+      subject: 'Confirm Your New Email - {brand}',
+      heading: 'Confirm Your New Email',
+      intro: ['You asked to use {email} for your {brand} account. Please confirm the change by clicking the link below:'],
+      action: 'Confirm Email',
+      outro: [
+        'This link will expire in 24 hours.',
+        "If you didn't request this, please ignore this email. Your account keeps its current address.",
+      ],
+    },
+    'password-reset': {
+      subject: 'Password Reset - {brand}',
+      heading: 'Password Reset Request',
+      intro: ['You requested to reset your password. Click the link below to proceed:'],
+      action: 'Reset Password',
+      outro: ['This link will expire in 1 hour.', "If you didn't request this, please ignore this email."],
+    },
+    'account-locked': {
+      subject: 'Your Account Was Locked - {brand}',
+      heading: 'Account Temporarily Locked',
+      intro: [
+        'After several failed sign-in attempts, we locked your account for {minutes} minutes.',
+        'If this was you, wait and try again, or reset your password to sign in right away:',
+      ],
+      action: 'Reset Password',
+      outro: ["If this wasn't you, someone may be trying to guess your password. Reset it and turn on two-factor authentication."],
+    },
+    'meeting-invitation': {
+      subject: 'Invitation: {meetingTitle} - {brand}',
+      heading: "You're Invited",
+      intro: ['{hostName} invited you to join the meeting "{meetingTitle}".', 'When: {startsAt}'],
+      action: 'Join Meeting',
+      outro: [
+        'This invitation is personal to {email} and expires on {expiresAt}.',
+        "If you weren't expecting this, please ignore this email.",
+      ],
+    },
+  },
+  es: {
+    verification: {
+      subject: 'Verifica tu correo electrónico - {brand}',
+      heading: 'Verificación del correo electrónico',
+      intro: ['¡Gracias por registrarte! Verifica tu correo electrónico con el siguiente enlace:'],
+      action: 'Verificar correo',
+      outro: ['Este enlace caduca en 24 horas.', 'Si no has creado una cuenta, ignora este mensaje.'],
+    },
+    'email-change': {
+      subject: 'Confirma tu nuevo correo electrónico - {brand}',
+      heading: 'Confirma tu nuevo correo electrónico',
+      intro: ['Has pedido usar {email} en tu cuenta de {brand}. Confirma el cambio con el siguiente enlace:'],
+      action: 'Confirmar correo',
+      outro: [
+        'Este enlace caduca en 24 horas.',
+        'Si no lo has pedido tú, ignora este mensaje. Tu cuenta conserva su dirección actual.',
+      ],
+    },
+    'password-reset': {
+      subject: 'Restablecer la contraseña - {brand}',
+      heading: 'Solicitud para restablecer la contraseña',
+      intro: ['Has pedido restablecer tu contraseña. Continúa con el siguiente enlace:'],
+      action: 'Restablecer contraseña',
+      outro: ['Este enlace caduca en 1 hora.', 'Si no lo has pedido tú, ignora este mensaje.'],
+    },
+    'account-locked': {
+      subject: 'Tu cuenta se ha bloqueado - {brand}',
+      heading: 'Cuenta bloqueada temporalmente',
+      intro: [
+        'Tras varios intentos fallidos de inicio de sesión, hemos bloqueado tu cuenta durante {minutes} minutos.',
+        'Si has sido tú, espera e inténtalo de nuevo, o restablece tu contraseña para entrar ahora mismo:',
+      ],
+      action: 'Restablecer contraseña',
+      outro: [
+        'Si no has sido tú, puede que alguien esté intentando adivinar tu contraseña. Restablécela y activa la verificación en dos pasos.',
+      ],
+    },
+    'meeting-invitation': {
+      subject: 'Invitación: {meetingTitle} - {brand}',
+      heading: 'Tienes una invitación',
+      intro: ['{hostName} te ha invitado a la reunión "{meetingTitle}".', 'Cuándo: {startsAt}'],
+      action: 'Unirse a la reunión',
+      outro: [
+        'Esta invitación es personal para {email} y caduca el {expiresAt}.',
+        'Si no la esperabas, ignora este mensaje.',
+      ],
+    },
+  },
+  fr: {
+    verification: {
+      subject: 'Vérifiez votre adresse e-mail - {brand}',
+      heading: "Vérification de l'adresse e-mail",
+      intro: ['Merci pour votre inscription ! Veuillez vérifier votre adresse e-mail en cliquant sur le lien ci-dessous :'],
+      action: "Vérifier l'adresse",
+      outro: ['Ce lien expire dans 24 heures.', "Si vous n'avez pas créé de compte, ignorez cet e-mail."],
+    },
+    'email-change': {
+      subject: 'Confirmez votre nouvelle adresse e-mail - {brand}',
+      heading: 'Confirmez votre nouvelle adresse e-mail',
+      intro: [
+        'Vous avez demandé à utiliser {email} pour votre compte {brand}. Confirmez le changement en cliquant sur le lien ci-dessous :',
+      ],
+      action: "Confirmer l'adresse",
+      outro: [
+        'Ce lien expire dans 24 heures.',
+        "Si vous n'êtes pas à l'origine de cette demande, ignorez cet e-mail. Votre compte conserve son adresse actuelle.",
+      ],
+    },
+    'password-reset': {
+      subject: 'Réinitialisation du mot de passe - {brand}',
+      heading: 'Demande de réinitialisation du mot de passe',
+      intro: ['Vous avez demandé à réinitialiser votre mot de passe. Cliquez sur le lien ci-dessous pour continuer :'],
+      action: 'Réinitialiser le mot de passe',
+      outro: ['Ce lien expire dans 1 heure.', "Si vous n'êtes pas à l'origine de cette demande, ignorez cet e-mail."],
+    },
+    'account-locked': {
+      subject: 'Votre compte a été verrouillé - {brand}',
+      heading: 'Compte temporairement verrouillé',
+      intro: [
+        'Après plusieurs tentatives de connexion échouées, nous avons verrouillé votre compte pendant {minutes} minutes.',
+        "Si c'était vous, patientez puis réessayez, ou réinitialisez votre mot de passe pour vous connecter tout de suite :",
+      ],
+      action: 'Réinitialiser le mot de passe',
+      outro: [
+        "Si ce n'était pas vous, quelqu'un essaie peut-être de deviner votre mot de passe. Réinitialisez-le et activez l'authentification à deux facteurs.",
+      ],
+    },
+    'meeting-invitation': {
+      subject: 'Invitation : {meetingTitle} - {brand}',
+      heading: 'Vous êtes invité(e)',
+      intro: ['{hostName} vous invite à rejoindre la réunion « {meetingTitle} ».', 'Quand : {startsAt}'],
+      action: 'Rejoindre la réunion',
+      outro: [
+        'Cette invitation est personnelle à {email} et expire le {expiresAt}.',
+        'Si vous ne vous attendiez pas à cette invitation, ignorez cet e-mail.',
+      ],
+    },
+  },
+  de: {
+    verification: {
+      subject: 'Bestätige deine E-Mail-Adresse - {brand}',
+      heading: 'E-Mail-Bestätigung',
+      intro: ['Danke für deine Registrierung! Bitte bestätige deine E-Mail-Adresse über den folgenden Link:'],
+      action: 'E-Mail bestätigen',
+      outro: ['Der Link ist 24 Stunden gültig.', 'Falls du kein Konto erstellt hast, ignoriere diese E-Mail.'],
+    },
+    'email-change': {
+      subject: 'Bestätige deine neue E-Mail-Adresse - {brand}',
+      heading: 'Neue E-Mail-Adresse bestätigen',
+      intro: ['Du möchtest {email} für dein {brand}-Konto verwenden. Bitte bestätige die Änderung über den folgenden Link:'],
+      action: 'E-Mail bestätigen',
+      outro: [
+        'Der Link ist 24 Stunden gültig.',
+        'Falls du das nicht angefordert hast, ignoriere diese E-Mail. Dein Konto behält seine bisherige Adresse.',
+      ],
+    },
+    'password-reset': {
+      subject: 'Passwort zurücksetzen - {brand}',
+      heading: 'Passwort zurücksetzen',
+      intro: ['Du hast angefordert, dein Passwort zurückzusetzen. Über den folgenden Link geht es weiter:'],
+      action: 'Passwort zurücksetzen',
+      outro: ['Der Link ist 1 Stunde gültig.', 'Falls du das nicht angefordert hast, ignoriere diese E-Mail.'],
+    },
+    'account-locked': {
+      subject: 'Dein Konto wurde gesperrt - {brand}',
+      heading: 'Konto vorübergehend gesperrt',
+      intro: [
+        'Nach mehreren fehlgeschlagenen Anmeldeversuchen haben wir dein Konto für {minutes} Minuten gesperrt.',
+        'Falls du das warst, warte kurz und versuche es erneut, oder setze dein Passwort zurück, um dich sofort anzumelden:',
+      ],
+      action: 'Passwort zurücksetzen',
+      outro: [
+        'Falls du das nicht warst, versucht vielleicht jemand, dein Passwort zu erraten. Setze es zurück und aktiviere die Zwei-Faktor-Authentifizierung.',
+      ],
+    },
+    'meeting-invitation': {
+      subject: 'Einladung: {meetingTitle} - {brand}',
+      heading: 'Du bist eingeladen',
+      intro: ['{hostName} lädt dich zum Meeting „{meetingTitle}“ ein.', 'Wann: {startsAt}'],
+      action: 'Am Meeting teilnehmen',
+      outro: [
+        'Diese Einladung gilt nur für {email} und läuft am {expiresAt} ab.',
+        'Falls du diese Einladung nicht erwartet hast, ignoriere diese E-Mail.',
+      ],
+    },
+  },
+};
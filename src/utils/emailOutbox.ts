@@ -0,0 +1,147 @@
+// src/utils/emailOutbox.ts
+// Outgoing email is stored in email_outbox, ideally in the same transaction as the change it
+// belongs to, and a worker delivers it. A mail server outage delays emails instead of failing requests.
+import { query, Queryable } from '../config/database';
+import { EmailMessage, getEmailTransport } from '../config/email';
+import { startPollingWorker } from './jobs';
+
+export const EMAIL_STATUSES = ['pending', 'sent', 'dead'] as const;
+
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_SECONDS = 60;
+const MAX_RETRY_SECONDS = 2 * 60 * 60;
+const POLL_INTERVAL_MS = 5000;
+const BATCH_SIZE = 20;
+
+// 1m, 2m, 4m, ... capped at 2h; an email that fails 6 times is dead after about half an hour
+export const emailRetryDelaySeconds = (attempts: number) =>
+  Math.min(BASE_RETRY_SECONDS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_SECONDS);
+
+// Pass the transaction's client so the email is only sent if the rest of the change commits
+export const queueEmail = async (message: EmailMessage, db: Queryable = { query }) => {
+  const result = await db.query(
+    `INSERT INTO email_outbox (template, to_address, subject, html, text, ical_event)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING id`,
+    [
+      message.template,
+      message.to,
+      message.subject,
+      message.html,
+      message.text ?? null,
+      message.icalEvent ? JSON.stringify(message.icalEvent) : null,
+    ]
+  );
+  return result.rows[0].id as string;
+};
+
+// Claims due emails (several server instances may poll the same outbox) and sends them
+export const processDueEmails = async () => {
+  const claimed = await query(
+    `UPDATE email_outbox SET next_attempt_at = NOW() + INTERVAL '5 minutes'
+     WHERE id IN (
+       SELECT id FROM email_outbox
+       WHERE status = 'pending' AND next_attempt_at <= NOW()
+       ORDER BY next_attempt_at
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, template, to_address, subject, html, text, ical_event, attempts`,
+    [BATCH_SIZE]
+  );
+
+  const transport = getEmailTransport();
+
+  for (const email of claimed.rows) {
+    const attempts = email.attempts + 1;
+
+    try {
+      await transport.send({
+        template: email.template,
+        to: email.to_address,
+        subject: email.subject,
+        html: email.html,
+        text: email.text ?? undefined,
+        icalEvent: email.ical_event ?? undefined,
+      });
+
+      await query(
+        `UPDATE email_outbox SET status = 'sent', attempts = $2, last_attempt_at = NOW(), sent_at = NOW(),
+           last_error = NULL
+         WHERE id = $1`,
+        [email.id, attempts]
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const dead = attempts >= MAX_ATTEMPTS;
+
+      await query(
+        `UPDATE email_outbox SET status = $2, attempts = $3, last_attempt_at = NOW(),
+           next_attempt_at = NOW() + make_interval(secs => $4), last_error = $5
+         WHERE id = $1`,
+        [email.id, dead ? 'dead' : 'pending', attempts, emailRetryDelaySeconds(attempts), message.slice(0, 1000)]
+      );
+
+      if (dead) {
+        console.error(`Email ${email.id} (${email.template}) to ${email.to_address} gave up after ${attempts} attempts:`, message);
+      }
+    }
+  }
+
+  return claimed.rows.length;
+};
+
+export interface OutboxEmailRow {
+  id: string;
+  template: string;
+  to_address: string;
+  subject: string;
+  status: (typeof EMAIL_STATUSES)[number];
+  attempts: number;
+  next_attempt_at: Date;
+  last_attempt_at: Date | null;
+  last_error: string | null;
+  created_at: Date;
+  sent_at: Date | null;
+}
+
+export const listOutboxEmails = async (status: string | null, limit: number): Promise<OutboxEmailRow[]> => {
+  const result = await query(
+    `SELECT id, template, to_address, subject, status, attempts, next_attempt_at, last_attempt_at, last_error,
+       created_at, sent_at
+     FROM email_outbox
+     WHERE ($1::text IS NULL OR status = $1)
+     ORDER BY created_at DESC, id DESC
+     LIMIT $2`,
+    [status, limit]
+  );
+  return result.rows as OutboxEmailRow[];
+};
+
+// Puts a dead email back in the queue with a fresh set of attempts
+export const retryEmail = async (emailId: number) => {
+  const result = await query(
+    `UPDATE email_outbox SET status = 'pending', attempts = 0, next_attempt_at = NOW(), last_error = NULL
+     WHERE id = $1 AND status = 'dead'
+     RETURNING id, status`,
+    [emailId]
+  );
+  return result.rows[0];
+};
+
+// Sent emails contain sign-in links, so they are not kept around longer than needed
+export const purgeSentEmails = async (olderThanDays: number) => {
+  const result = await query(
+    `DELETE FROM email_outbox WHERE status = 'sent' AND sent_at < NOW() - make_interval(days => $1)`,
+    [olderThanDays]
+  );
+  return { sentEmails: result.rowCount ?? 0 };
+};
+
+export const startEmailWorker = () =>
+  startPollingWorker({
+    name: 'Email',
+    intervalMs: POLL_INTERVAL_MS,
+    batchSize: BATCH_SIZE,
+    processBatch: processDueEmails,
+  });
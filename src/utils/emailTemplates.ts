@@ -0,0 +1,173 @@
+// src/utils/emailTemplates.ts
+// Renders the copy in utils/emailLocales.ts into the HTML and plain-text parts of an email,
+// in the recipient's language and with the configured branding
+import { EmailMessage } from '../config/email';
+import { EMAIL_COPY, EmailTemplateName } from './emailLocales';
+
+export { EMAIL_TEMPLATES } from './emailLocales';
+export type { EmailTemplateName } from './emailLocales';
+
+export const EMAIL_LOCALES = Object.keys(EMAIL_COPY);
+
+// BCP 47 tags such as "en", "pt-BR" or "zh-Hant-TW"
+export const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+type Params = Record<string, string | undefined>;
+
+const defaultLocale = () => {
+  const locale = process.env.EMAIL_DEFAULT_LOCALE;
+  return locale && EMAIL_COPY[locale] ? locale : 'en';
+};
+
+// "es-MX" falls back to "es", and languages without copy to EMAIL_DEFAULT_LOCALE
+export const resolveLocale = (locale?: string | null) => {
+  const candidates = locale ? [locale.toLowerCase(), locale.toLowerCase().replace(/-.*/, '')] : [];
+  return candidates.find((candidate) => EMAIL_COPY[candidate]) || defaultLocale();
+};
+
+const branding = () => ({
+  name: process.env.EMAIL_BRAND_NAME || 'WebRTC App',
+  color: process.env.EMAIL_BRAND_COLOR || '#2563eb',
+  logoUrl: process.env.EMAIL_BRAND_LOGO_URL || null,
+});
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+const placeholders = (line: string) => [...line.matchAll(PLACEHOLDER)].map((match) => match[1] as string);
+
+const fillLine = (line: string, params: Params, escape: (value: string) => string) =>
+  escape(line).replace(PLACEHOLDER, (_, key: string) => escape(params[key] ?? ''));
+
+// Lines that mention a value that was not given (e.g. {startsAt} for unscheduled meetings) are left out
+const fill = (lines: string[], params: Params, escape: (value: string) => string) =>
+  lines
+    .filter((line) => placeholders(line).every((key) => params[key] !== undefined))
+    .map((line) => fillLine(line, params, escape));
+
+const formatDate = (date: Date, locale: string, timeZone = 'UTC') =>
+  date.toLocaleString(locale, {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone,
+    timeZoneName: 'short',
+  });
+
+export const renderEmail = (
+  template: EmailTemplateName,
+  to: string,
+  actionUrl: string,
+  params: Params,
+  locale?: string | null
+): EmailMessage => {
+  const language = resolveLocale(locale);
+  const copy = EMAIL_COPY[language]![template];
+  const brand = branding();
+  const values = { ...params, brand: brand.name };
+
+  const plain = (line: string) => fillLine(line, values, (value) => value);
+  const html = (line: string) => fillLine(line, values, escapeHtml);
+  const paragraphs = (lines: string[], style = '') =>
+    fill(lines, values, escapeHtml)
+      .map((line) => `<p style="margin:0 0 16px;${style}">${line}</p>`)
+      .join('\n        ');
+
+  const url = escapeHtml(actionUrl);
+  const color = escapeHtml(brand.color);
+
+  return {
+    template,
+    to,
+    subject: plain(copy.subject),
+    html: `<!DOCTYPE html>
+<html lang="${language}">
+  <body style="margin:0;padding:0;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b;">
+    <div style="max-width:560px;margin:0 auto;padding:32px 24px;">
+      <div style="background:#ffffff;border-radius:8px;padding:32px;">
+        ${brand.logoUrl ? `<img src="${escapeHtml(brand.logoUrl)}" alt="${escapeHtml(brand.name)}" style="max-height:40px;margin-bottom:24px;">` : ''}
+        <h1 style="margin:0 0 24px;font-size:22px;color:${color};">${html(copy.heading)}</h1>
+        ${paragraphs(copy.intro)}
+        <p style="margin:24px 0;"><a href="${url}" style="display:inline-block;padding:12px 20px;border-radius:6px;background:${color};color:#ffffff;text-decoration:none;font-weight:bold;">${html(copy.action)}</a></p>
+        ${paragraphs(copy.outro, 'font-size:13px;color:#52525b;')}
+      </div>
+      <p style="margin:16px 0 0;text-align:center;font-size:12px;color:#a1a1aa;">${escapeHtml(brand.name)}</p>
+    </div>
+  </body>
+</html>
+`,
+    text: [
+      plain(copy.heading),
+      ...fill(copy.intro, values, (value) => value),
+      `${plain(copy.action)}: ${actionUrl}`,
+      ...fill(copy.outro, values, (value) => value),
+      `-- \n${brand.name}`,
+    ].join('\n\n') + '\n',
+  };
+};
+
+const verificationUrl = (token: string) => `${process.env.FRONTEND_URL}/verify-email?token=${token}`;
+
+export const verificationEmail = (email: string, token: string, locale?: string | null) =>
+  renderEmail('verification', email, verificationUrl(token), {}, locale);
+
+// Sent to the new address of an email change; the link is the same verification link
+export const emailChangeEmail = (email: string, token: string, locale?: string | null) =>
+  renderEmail('email-change', email, verificationUrl(token), { email }, locale);
+
+export const passwordResetEmail = (email: string, token: string, locale?: string | null) =>
+  renderEmail('password-reset', email, `${process.env.FRONTEND_URL}/reset-password?token=${token}`, {}, locale);
+
+// The button leads to the reset form, which also lifts the lockout
+export const accountLockedEmail = (email: string, minutes: number, locale?: string | null) =>
+  renderEmail(
+    'account-locked',
+    email,
+    `${process.env.FRONTEND_URL}/forgot-password`,
+    { minutes: String(minutes) },
+    locale
+  );
+
+export const meetingInvitationEmail = (
+  email: string,
+  invitation: {
+    meetingTitle: string;
+    hostName: string;
+    inviteUrl: string;
+    expiresAt: Date;
+    startsAt?: Date | undefined;
+    // Zone the start time is shown in (default UTC)
+    timeZone?: string | null | undefined;
+    calendar?: string | undefined;
+  },
+  locale?: string | null
+): EmailMessage => {
+  const language = resolveLocale(locale);
+
+  return {
+    ...renderEmail(
+      'meeting-invitation',
+      email,
+      invitation.inviteUrl,
+      {
+        email,
+        meetingTitle: invitation.meetingTitle,
+        hostName: invitation.hostName,
+        startsAt: invitation.startsAt && formatDate(invitation.startsAt, language, invitation.timeZone || 'UTC'),
+        expiresAt: formatDate(invitation.expiresAt, language),
+      },
+      language
+    ),
+    ...(invitation.calendar && {
+      icalEvent: { method: 'REQUEST', filename: 'invite.ics', content: invitation.calendar },
+    }),
+  };
+};
@@ -0,0 +1,36 @@
+// src/utils/guests.ts
+import { query } from '../config/database';
+
+export const MAX_GUEST_NAME_LENGTH = 60;
+
+// Each guest-join creates a fresh guest; there is nothing to sign in with again
+export const createGuest = async (meetingId: string, name: string) => {
+  const result = await query(
+    'INSERT INTO users (email, password, name, is_verified, guest_meeting_id) VALUES (NULL, NULL, $1, FALSE, $2) RETURNING id',
+    [name, meetingId]
+  );
+  return result.rows[0].id as number;
+};
+
+export const isGuestUser = async (userId: number) => {
+  const result = await query('SELECT 1 FROM users WHERE id = $1 AND guest_meeting_id IS NOT NULL', [userId]);
+  return result.rows.length > 0;
+};
+
+// The guest behind a guest token, as long as the meeting still exists and lets guests in
+export const getGuestAccess = async (userId: number, meetingId: string) => {
+  const result = await query(
+    `SELECT m.allow_guests FROM users u
+     JOIN meetings m ON m.id = u.guest_meeting_id
+     WHERE u.id = $1 AND m.id = $2`,
+    [userId, meetingId]
+  );
+
+  if (result.rows.length === 0) {
+    return { ok: false as const, error: 'Guest access has expired' };
+  }
+  if (!result.rows[0].allow_guests) {
+    return { ok: false as const, error: 'This meeting no longer allows guests' };
+  }
+  return { ok: true as const };
+};
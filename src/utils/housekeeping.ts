@@ -0,0 +1,134 @@
+// src/utils/housekeeping.ts
+import { query } from '../config/database';
+import { SignalingServer } from '../types/socket';
+import { recordAttendance } from './attendance';
+import { SERVER_INSTANCE_ID } from './devices';
+import { Job } from './jobs';
+import { endMeeting } from './meetings';
+import { purgeSentEmails } from './emailOutbox';
+import { purgeSecurityEvents, securityEventRetentionDays } from './securityEvents';
+import { emitMeetingWebhookEvent } from './webhooks';
+import { nonNegativeInt } from './numbers';
+import { disconnectMeeting } from '../sockets/admin';
+
+// Minutes an active meeting may sit with nobody in it before it is ended (0 keeps it open)
+export const meetingIdleMinutes = () => nonNegativeInt(process.env.MEETING_IDLE_END_MINUTES, 30);
+
+const SENT_EMAIL_RETENTION_DAYS = 7;
+
+export const purgeExpiredTokens = async () => {
+  const verification = await query('DELETE FROM verification_tokens WHERE expires_at < NOW()');
+  const passwordReset = await query('DELETE FROM password_reset_tokens WHERE expires_at < NOW() OR used = TRUE');
+  const oidcStates = await query('DELETE FROM oidc_login_states WHERE expires_at < NOW()');
+
+  return {
+    verificationTokens: verification.rowCount ?? 0,
+    passwordResetTokens: passwordReset.rowCount ?? 0,
+    oidcLoginStates: oidcStates.rowCount ?? 0,
+  };
+};
+
+// An active meeting counts as empty since its last device left, or since it was created when
+// nobody ever joined. Scheduled meetings are left alone until someone starts them.
+export const endIdleMeetings = async (io: SignalingServer, idleMinutes: number) => {
+  const idle = await query(
+    `SELECT m.id FROM meetings m
+     WHERE m.status = 'active'
+       AND NOT EXISTS (SELECT 1 FROM participant_devices d WHERE d.meeting_id = m.id AND d.left_at IS NULL)
+       AND GREATEST(m.created_at, (SELECT MAX(d.left_at) FROM participant_devices d WHERE d.meeting_id = m.id))
+         < NOW() - make_interval(mins => $1)`,
+    [idleMinutes]
+  );
+
+  for (const meeting of idle.rows) {
+    const ended = await endMeeting(meeting.id, null);
+    // Someone may have joined since the query above
+    if (ended?.socketIds.length) {
+      disconnectMeeting(io, meeting.id, 'Meeting ended');
+    }
+  }
+
+  return { endedMeetings: idle.rows.length };
+};
+
+// After a crash, devices of the old process still look connected and inflate the participant
+// counts that joining is checked against. Any device of this instance whose socket is not
+// connected to it now is closed; other instances' devices are theirs to reconcile.
+// Devices that joined after the cut-off belong to sockets that connected while this ran.
+export const reconcileParticipants = async (io: SignalingServer) => {
+  const cutoff = await query('SELECT NOW()::text AS now');
+  const connected = (await io.local.fetchSockets()).map((socket) => socket.id);
+
+  const devices = await query(
+    `UPDATE participant_devices SET left_at = NOW(), disconnected_at = NULL, resume_token_hash = NULL
+     WHERE left_at IS NULL AND instance_id = $3 AND joined_at <= $2::timestamptz
+       AND NOT (socket_id = ANY($1::text[]))
+     RETURNING socket_id, participant_id`,
+    [connected, cutoff.rows[0].now, SERVER_INSTANCE_ID]
+  );
+  if (devices.rows.length === 0) {
+    return { closedDevices: 0, closedParticipants: 0 };
+  }
+  await recordAttendance(devices.rows.map((d) => d.socket_id as string), 'leave');
+
+  const participants = await query(
+    `UPDATE meeting_participants mp SET left_at = NOW()
+     WHERE mp.id = ANY($1::int[]) AND mp.left_at IS NULL
+       AND NOT EXISTS (SELECT 1 FROM participant_devices d WHERE d.participant_id = mp.id AND d.left_at IS NULL)
+     RETURNING mp.meeting_id, mp.user_id, mp.status`,
+    [[...new Set(devices.rows.map((d) => d.participant_id as number))]]
+  );
+  for (const participant of participants.rows) {
+    if (participant.status === 'admitted') {
+      await emitMeetingWebhookEvent(participant.meeting_id, 'participant.left', {
+        userId: participant.user_id,
+        reason: 'disconnected',
+      });
+    }
+  }
+
+  return { closedDevices: devices.rows.length, closedParticipants: participants.rows.length };
+};
+
+export const housekeepingJobs = (io: SignalingServer): Job[] => {
+  const idleMinutes = meetingIdleMinutes();
+
+  return [
+    {
+      name: 'purge-expired-tokens',
+      intervalSeconds: 60 * 60,
+      timeoutSeconds: 5 * 60,
+      run: purgeExpiredTokens,
+    },
+    {
+      name: 'purge-sent-emails',
+      intervalSeconds: 24 * 60 * 60,
+      timeoutSeconds: 5 * 60,
+      run: () => purgeSentEmails(SENT_EMAIL_RETENTION_DAYS),
+    },
+    {
+      name: 'purge-security-events',
+      intervalSeconds: 24 * 60 * 60,
+      timeoutSeconds: 5 * 60,
+      run: () => purgeSecurityEvents(securityEventRetentionDays()),
+    },
+    ...(idleMinutes > 0
+      ? [
+          {
+            name: 'end-idle-meetings',
+            intervalSeconds: 5 * 60,
+            timeoutSeconds: 5 * 60,
+            run: () => endIdleMeetings(io, idleMinutes),
+          },
+        ]
+      : []),
+    // Every instance reconciles its own devices, so each has its own lease
+    {
+      name: `reconcile-participants:${SERVER_INSTANCE_ID}`,
+      intervalSeconds: null,
+      timeoutSeconds: 5 * 60,
+      runOnStart: true,
+      run: () => reconcileParticipants(io),
+    },
+  ];
+};
@@ -0,0 +1,196 @@
+// src/utils/ical.ts
+import { MeetingSchedule, formatRecurrenceRule, offsetMinutes, toLocalDateTime } from './schedule';
+
+export interface CalendarEvent {
+  uid: string;
+  title: string;
+  description?: string;
+  url?: string;
+  organizer?: { name: string; email: string };
+  schedule: MeetingSchedule;
+  sequence?: number;
+  method?: 'PUBLISH' | 'REQUEST' | 'CANCEL';
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const formatUtc = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const formatLocal = (date: Date, timeZone: string) => {
+  const local = toLocalDateTime(date, timeZone);
+  return (
+    `${local.year}${pad(local.month + 1)}${pad(local.day)}T` +
+    `${pad(local.hour)}${pad(local.minute)}${pad(local.second)}`
+  );
+};
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Parameter values cannot be escaped, only quoted, and a quoted value cannot hold quotes
+const quoteParam = (value: string) => `"${value.replace(/["\x00-\x1f\x7f]/g, '')}"`;
+
+// URI values are not text: the URL parser percent-encodes what a content line cannot hold
+const formatUri = (value: string) => {
+  try {
+    return new URL(value).href;
+  } catch {
+    return null;
+  }
+};
+
+const formatOffset = (minutes: number) => {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Offset changes of timeZone during a year, to the minute
+const findTransitions = (timeZone: string, year: number) => {
+  const transitions: { at: Date; from: number; to: number }[] = [];
+  const end = Date.UTC(year + 1, 0, 1);
+  let previous = offsetMinutes(new Date(Date.UTC(year, 0, 1)), timeZone);
+
+  for (let day = Date.UTC(year, 0, 1); day < end; day += DAY_MS) {
+    const next = offsetMinutes(new Date(day + DAY_MS), timeZone);
+    if (next === previous) continue;
+
+    let low = day;
+    let high = day + DAY_MS;
+    while (high - low > 60000) {
+      const middle = low + Math.floor((high - low) / 120000) * 60000;
+      if (offsetMinutes(new Date(middle), timeZone) === previous) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    transitions.push({ at: new Date(high), from: previous, to: next });
+    previous = next;
+  }
+  return transitions;
+};
+
+// RFC 5545 requires a VTIMEZONE for every TZID. The rules are derived from the zone's transitions
+// in the year before the event starts and repeated yearly, as "last Sunday of March" and the like.
+const buildTimeZone = (timeZone: string, start: Date) => {
+  const year = start.getUTCFullYear() - 1;
+  const transitions = findTransitions(timeZone, year);
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+
+  if (transitions.length === 0) {
+    const offset = formatOffset(offsetMinutes(start, timeZone));
+    lines.push(
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      'END:STANDARD'
+    );
+  }
+
+  for (const { at, from, to } of transitions) {
+    // The onset is written in the wall-clock time in force before the change
+    const local = new Date(at.getTime() + from * 60000);
+    const day = local.getUTCDate();
+    const daysInMonth = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 0)).getUTCDate();
+    const ordinal = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+    const type = transitions.length > 1 && to > from ? 'DAYLIGHT' : 'STANDARD';
+
+    lines.push(
+      `BEGIN:${type}`,
+      `DTSTART:${formatUtc(local).slice(0, -1)}`,
+      `TZOFFSETFROM:${formatOffset(from)}`,
+      `TZOFFSETTO:${formatOffset(to)}`
+    );
+    // A single change is a one-off (a zone moving to a new offset), not a seasonal rule
+    if (transitions.length > 1) {
+      lines.push(
+        `RRULE:FREQ=YEARLY;BYMONTH=${local.getUTCMonth() + 1};BYDAY=${ordinal}${WEEKDAYS[local.getUTCDay()]}`
+      );
+    }
+    lines.push(`END:${type}`);
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+};
+
+// RFC 5545 limits content lines to 75 octets; continuation lines start with a space
+const foldLine = (line: string) => {
+  const chunks: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      chunks.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+export const buildCalendar = (event: CalendarEvent) => {
+  const { schedule } = event;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Confidex//Meetings//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${event.method || 'PUBLISH'}`,
+  ];
+
+  // Recurring events keep their wall-clock time in the meeting's zone
+  const local = Boolean(schedule.rule) && schedule.timeZone !== 'UTC';
+  if (local) {
+    lines.push(...buildTimeZone(schedule.timeZone, schedule.start));
+  }
+
+  lines.push(
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    `SEQUENCE:${event.sequence || 0}`
+  );
+
+  if (local) {
+    lines.push(`DTSTART;TZID=${schedule.timeZone}:${formatLocal(schedule.start, schedule.timeZone)}`);
+  } else {
+    lines.push(`DTSTART:${formatUtc(schedule.start)}`);
+  }
+
+  lines.push(`DURATION:PT${schedule.durationMinutes}M`);
+
+  if (schedule.rule) {
+    lines.push(`RRULE:${formatRecurrenceRule(schedule.rule)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.title)}`);
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+
+  if (event.url) {
+    const uri = formatUri(event.url);
+    if (uri) {
+      lines.push(`URL:${uri}`);
+    }
+    lines.push(`LOCATION:${escapeText(event.url)}`);
+  }
+
+  if (event.organizer) {
+    lines.push(`ORGANIZER;CN=${quoteParam(event.organizer.name)}:mailto:${event.organizer.email}`);
+  }
+
+  lines.push(`STATUS:${event.method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED'}`, 'END:VEVENT', 'END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,92 @@
+// src/utils/iceServers.ts
+import crypto from 'crypto';
+import { positiveInt } from './numbers';
+
+export interface IceServer {
+  urls: string[];
+  username?: string;
+  credential?: string;
+}
+
+const DEFAULT_STUN_URLS = 'stun:stun.l.google.com:19302';
+const DEFAULT_TTL_SECONDS = 86400;
+
+const splitUrls = (value: string | undefined) =>
+  (value || '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter(Boolean);
+
+export const getTurnCredentialTtl = () => positiveInt(process.env.TURN_CREDENTIAL_TTL, DEFAULT_TTL_SECONDS);
+
+// coturn "TURN REST API" (use-auth-secret): the username carries the expiry
+// timestamp and the password is base64(HMAC-SHA1(static-auth-secret, username)).
+export const createTurnCredentials = (
+  secret: string,
+  userId: number | string,
+  ttlSeconds: number,
+  now: Date = new Date()
+) => {
+  const expiresAt = Math.floor(now.getTime() / 1000) + ttlSeconds;
+  const username = `${expiresAt}:${userId}`;
+  const credential = crypto.createHmac('sha1', secret).update(username).digest('base64');
+
+  return { username, credential, expiresAt: new Date(expiresAt * 1000) };
+};
+
+interface TurnRealm {
+  realm: string | null;
+  urls: string[];
+  secret: string;
+}
+
+// TURN_URLS, TURN_SECRET and TURN_REALM describe one TURN deployment. Several, each with its own
+// coturn realm and secret, are listed in TURN_REALMS=eu,us with TURN_<NAME>_URLS,
+// TURN_<NAME>_SECRET (defaults to TURN_SECRET) and TURN_<NAME>_REALM (defaults to the name).
+export const getTurnRealms = (): TurnRealm[] => {
+  const realms: TurnRealm[] = [];
+
+  const urls = splitUrls(process.env.TURN_URLS);
+  if (urls.length && process.env.TURN_SECRET) {
+    realms.push({ realm: process.env.TURN_REALM || null, urls, secret: process.env.TURN_SECRET });
+  }
+
+  for (const name of splitUrls(process.env.TURN_REALMS)) {
+    const prefix = `TURN_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+    const realmUrls = splitUrls(process.env[`${prefix}URLS`]);
+    const secret = process.env[`${prefix}SECRET`] || process.env.TURN_SECRET;
+    if (realmUrls.length && secret) {
+      realms.push({ realm: process.env[`${prefix}REALM`] || name, urls: realmUrls, secret });
+    }
+  }
+
+  return realms;
+};
+
+// STUN_URLS (comma separated), the TURN realms above and TURN_CREDENTIAL_TTL (seconds)
+export const getIceServers = (userId: number) => {
+  const ttl = getTurnCredentialTtl();
+  const iceServers: IceServer[] = [];
+
+  const stunUrls = splitUrls(process.env.STUN_URLS ?? DEFAULT_STUN_URLS);
+  if (stunUrls.length) {
+    iceServers.push({ urls: stunUrls });
+  }
+
+  const realms = getTurnRealms();
+  if (realms.length === 0) {
+    return { iceServers, realm: null, realms: [], ttl: null, expiresAt: null };
+  }
+
+  // All credentials are issued at the same moment, so they share the expiry
+  const now = new Date();
+  let expiresAt: Date | null = null;
+  for (const { urls, secret } of realms) {
+    const credentials = createTurnCredentials(secret, userId, ttl, now);
+    iceServers.push({ urls, username: credentials.username, credential: credentials.credential });
+    expiresAt = credentials.expiresAt;
+  }
+
+  const names = realms.map(({ realm }) => realm).filter((realm): realm is string => realm !== null);
+  return { iceServers, realm: names[0] ?? null, realms: names, ttl, expiresAt };
+};
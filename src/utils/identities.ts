@@ -0,0 +1,147 @@
+// src/utils/identities.ts
+import { query, Queryable, transaction } from '../config/database';
+import { IdTokenClaims, isEmailVerified, OidcProvider } from './oidc';
+import { isEmailBanned } from './accounts';
+import { LOCALE_PATTERN } from './emailTemplates';
+
+export type IdentityLoginResult =
+  | { ok: true; userId: number; created: boolean }
+  | { ok: false; reason: 'unverified_email' | 'banned' };
+
+const insertIdentity = async (
+  userId: number,
+  provider: OidcProvider,
+  claims: IdTokenClaims,
+  db: Queryable = { query }
+) => {
+  const result = await db.query(
+    `INSERT INTO user_identities (user_id, provider, issuer, subject, email, last_login_at)
+     VALUES ($1, $2, $3, $4, $5, NOW())
+     ON CONFLICT (issuer, subject) DO NOTHING
+     RETURNING id`,
+    [userId, provider.name, claims.iss, claims.sub, claims.email || null]
+  );
+  return result.rows.length > 0;
+};
+
+const findIdentityUser = async (claims: IdTokenClaims) => {
+  const result = await query(
+    `UPDATE user_identities SET last_login_at = NOW(), email = COALESCE($3, email)
+     WHERE issuer = $1 AND subject = $2
+     RETURNING user_id`,
+    [claims.iss, claims.sub, claims.email || null]
+  );
+  return (result.rows[0]?.user_id as number | undefined) ?? null;
+};
+
+// Known identity -> its user. Otherwise a verified email links to the account with that
+// email, or creates one. Unverified emails never link, they could belong to someone else.
+// An account whose address was never verified may have been registered by someone else ahead
+// of its owner, so it is taken over without the password and 2FA that person set up.
+export const resolveIdentityLogin = async (
+  provider: OidcProvider,
+  claims: IdTokenClaims
+): Promise<IdentityLoginResult> => {
+  const existing = await findIdentityUser(claims);
+  if (existing) {
+    return { ok: true, userId: existing, created: false };
+  }
+
+  if (!isEmailVerified(claims)) {
+    return { ok: false, reason: 'unverified_email' };
+  }
+
+  const email = claims.email!.toLowerCase();
+  const user = await query('SELECT id, is_verified FROM users WHERE LOWER(email) = $1', [email]);
+
+  if (user.rows.length > 0) {
+    const userId = user.rows[0].id as number;
+
+    if (user.rows[0].is_verified) {
+      await insertIdentity(userId, provider, claims);
+      return { ok: true, userId, created: false };
+    }
+
+    // The provider vouched for the address, which is what our own verification email proves
+    await transaction(async (client) => {
+      await client.query(
+        `UPDATE users SET is_verified = TRUE, password = NULL, totp_secret = NULL, totp_enabled_at = NULL,
+           totp_last_step = NULL, updated_at = NOW()
+         WHERE id = $1`,
+        [userId]
+      );
+      await client.query('DELETE FROM two_factor_recovery_codes WHERE user_id = $1', [userId]);
+      await client.query('DELETE FROM verification_tokens WHERE user_id = $1', [userId]);
+      await client.query('DELETE FROM password_reset_tokens WHERE user_id = $1', [userId]);
+      await client.query('UPDATE user_sessions SET revoked_at = NOW() WHERE user_id = $1 AND revoked_at IS NULL', [
+        userId,
+      ]);
+      await insertIdentity(userId, provider, claims, client);
+    });
+    return { ok: true, userId, created: false };
+  }
+
+  if (await isEmailBanned(email)) {
+    return { ok: false, reason: 'banned' };
+  }
+
+  const name = claims.name || claims.preferred_username || email.split('@')[0];
+  // Providers may report the user's language; anything that is not a plain language tag is ignored
+  const locale = claims.locale && claims.locale.length <= 35 && LOCALE_PATTERN.test(claims.locale) ? claims.locale : null;
+  const created = await query(
+    'INSERT INTO users (email, password, name, is_verified, locale) VALUES ($1, NULL, $2, TRUE, $3) RETURNING id',
+    [email, name, locale]
+  );
+  const userId = created.rows[0].id as number;
+  await insertIdentity(userId, provider, claims);
+
+  return { ok: true, userId, created: true };
+};
+
+// Explicit linking from a signed-in session; the email does not have to match
+export const linkIdentity = async (userId: number, provider: OidcProvider, claims: IdTokenClaims) => {
+  if (await insertIdentity(userId, provider, claims)) {
+    return { ok: true as const };
+  }
+
+  const owner = await findIdentityUser(claims);
+  return owner === userId ? { ok: true as const } : { ok: false as const, reason: 'linked_elsewhere' as const };
+};
+
+export const listIdentities = async (userId: number) => {
+  const result = await query(
+    `SELECT id, provider, email, created_at, last_login_at FROM user_identities
+     WHERE user_id = $1 ORDER BY created_at`,
+    [userId]
+  );
+
+  return result.rows.map((i) => ({
+    id: i.id as number,
+    provider: i.provider as string,
+    email: i.email as string | null,
+    linkedAt: i.created_at as Date,
+    lastLoginAt: i.last_login_at as Date | null,
+  }));
+};
+
+// Refuses to remove the last way of signing in to an account without a password
+export const unlinkIdentity = async (userId: number, identityId: number) => {
+  const result = await query(
+    `SELECT u.password IS NOT NULL AS has_password,
+       (SELECT COUNT(*) FROM user_identities WHERE user_id = u.id) AS identities,
+       EXISTS (SELECT 1 FROM user_identities WHERE id = $2 AND user_id = u.id) AS owns_identity
+     FROM users u WHERE u.id = $1`,
+    [userId, identityId]
+  );
+  const row = result.rows[0];
+
+  if (!row?.owns_identity) {
+    return { ok: false as const, reason: 'not_found' as const };
+  }
+  if (!row.has_password && parseInt(row.identities, 10) <= 1) {
+    return { ok: false as const, reason: 'last_sign_in_method' as const };
+  }
+
+  await query('DELETE FROM user_identities WHERE id = $1 AND user_id = $2', [identityId, userId]);
+  return { ok: true as const };
+};
@@ -0,0 +1,114 @@
+// src/utils/jobs.ts
+// In-process scheduler for background jobs. Every instance runs the scheduler, and a lease
+// row in scheduled_jobs makes sure each run of a job happens on one instance only.
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../config/database';
+
+export interface Job {
+  name: string;
+  // Minimum time between two runs across all instances; null runs the job once at startup only
+  intervalSeconds: number | null;
+  // A run that takes longer than this is assumed dead and another instance may take over
+  timeoutSeconds: number;
+  runOnStart?: boolean;
+  run: () => Promise<unknown>;
+}
+
+const POLL_INTERVAL_MS = 30000;
+const instanceId = `${os.hostname()}:${process.pid}:${uuidv4().slice(0, 8)}`;
+
+// Takes the lease when nobody holds it and the job is due (or forced, for startup runs)
+const claimJob = async (job: Job, force: boolean) => {
+  await query('INSERT INTO scheduled_jobs (name) VALUES ($1) ON CONFLICT (name) DO NOTHING', [job.name]);
+
+  const claimed = await query(
+    `UPDATE scheduled_jobs SET locked_by = $2, locked_until = NOW() + make_interval(secs => $3),
+       last_started_at = NOW()
+     WHERE name = $1
+       AND (locked_until IS NULL OR locked_until < NOW())
+       AND ($4 OR last_started_at IS NULL OR last_started_at <= NOW() - make_interval(secs => $5))
+     RETURNING name`,
+    [job.name, instanceId, job.timeoutSeconds, force, job.intervalSeconds ?? 0]
+  );
+  return claimed.rows.length > 0;
+};
+
+const releaseJob = async (job: Job, error: string | null) => {
+  await query(
+    `UPDATE scheduled_jobs SET locked_by = NULL, locked_until = NULL, last_finished_at = NOW(), last_error = $3
+     WHERE name = $1 AND locked_by = $2`,
+    [job.name, instanceId, error]
+  );
+};
+
+export const runJob = async (job: Job, force = false) => {
+  if (!(await claimJob(job, force))) {
+    return false;
+  }
+
+  try {
+    const result = await job.run();
+    await releaseJob(job, null);
+    console.log(`Job ${job.name} finished${result !== undefined ? `: ${JSON.stringify(result)}` : ''}`);
+  } catch (error) {
+    console.error(`Job ${job.name} error:`, error);
+    await releaseJob(job, error instanceof Error ? error.message : String(error));
+  }
+  return true;
+};
+
+export const startJobScheduler = (jobs: Job[]) => {
+  const running = new Set<string>();
+
+  const tick = async (startup: boolean) => {
+    for (const job of jobs) {
+      if (running.has(job.name)) continue;
+      if (startup ? !job.runOnStart : job.intervalSeconds === null) continue;
+
+      running.add(job.name);
+      try {
+        await runJob(job, startup);
+      } catch (error) {
+        console.error(`Job scheduler error (${job.name}):`, error);
+      } finally {
+        running.delete(job.name);
+      }
+    }
+  };
+
+  tick(true);
+  const timer = setInterval(() => tick(false), POLL_INTERVAL_MS);
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
+
+export interface PollingWorker {
+  name: string;
+  intervalMs: number;
+  batchSize: number;
+  // Handles one batch of due rows and returns how many it took
+  processBatch: () => Promise<number>;
+}
+
+// Queue workers run on every instance; rows are claimed with SKIP LOCKED, so no lease is needed
+export const startPollingWorker = ({ name, intervalMs, batchSize, processBatch }: PollingWorker) => {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      // Keep draining while full batches come back
+      while ((await processBatch()) === batchSize);
+    } catch (error) {
+      console.error(`${name} worker error:`, error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,76 @@
+// src/utils/lobby.ts
+import { query } from '../config/database';
+
+// 'removed': kicked, and has to pass the lobby again to come back
+export type ParticipantStatus = 'pending' | 'admitted' | 'denied' | 'removed';
+
+// Socket.IO room joined by the sockets of everyone allowed to manage the lobby
+export const moderatorRoom = (meetingId: string) => `${meetingId}:moderators`;
+
+export const getPendingParticipants = async (meetingId: string) => {
+  const result = await query(
+    `SELECT mp.user_id, mp.joined_at, u.name, (u.guest_meeting_id IS NOT NULL) AS is_guest,
+       (SELECT d.socket_id FROM participant_devices d
+        WHERE d.participant_id = mp.id AND d.left_at IS NULL
+        ORDER BY d.joined_at DESC LIMIT 1) AS socket_id
+     FROM meeting_participants mp
+     JOIN users u ON mp.user_id = u.id
+     WHERE mp.meeting_id = $1 AND mp.status = 'pending' AND mp.left_at IS NULL
+     ORDER BY mp.joined_at`,
+    [meetingId]
+  );
+
+  return result.rows.map((p) => ({
+    userId: p.user_id as number,
+    name: p.name as string,
+    isGuest: p.is_guest as boolean,
+    socketId: p.socket_id as string | null,
+    requestedAt: p.joined_at as Date,
+  }));
+};
+
+// Every connected device of an admitted participant takes a seat
+export const countAdmittedParticipants = async (meetingId: string) => {
+  const result = await query(
+    `SELECT COUNT(*) AS count FROM participant_devices d
+     JOIN meeting_participants mp ON mp.id = d.participant_id
+     WHERE d.meeting_id = $1 AND d.left_at IS NULL AND mp.status = 'admitted'`,
+    [meetingId]
+  );
+  return parseInt(result.rows[0].count);
+};
+
+// Moves pending participants to a new status. Returns the affected user IDs so
+// the caller can notify their devices.
+export const setPendingStatus = async (
+  meetingId: string,
+  userIds: number[] | 'all',
+  status: 'admitted' | 'denied'
+) => {
+  const result =
+    userIds === 'all'
+      ? await query(
+          `UPDATE meeting_participants SET status = $2
+           WHERE meeting_id = $1 AND status = 'pending' AND left_at IS NULL
+           RETURNING user_id`,
+          [meetingId, status]
+        )
+      : await query(
+          `UPDATE meeting_participants SET status = $2
+           WHERE meeting_id = $1 AND status = 'pending' AND user_id = ANY($3::int[])
+           RETURNING user_id`,
+          [meetingId, status, userIds]
+        );
+
+  return result.rows.map((p) => p.user_id as number);
+};
+
+// After a kick: the participant loses their role along with their seat, so neither
+// moderator rights nor an earlier admission survive it
+export const markParticipantRemoved = async (meetingId: string, userId: number) => {
+  await query(
+    `UPDATE meeting_participants SET status = 'removed', role = 'attendee', left_at = COALESCE(left_at, NOW())
+     WHERE meeting_id = $1 AND user_id = $2`,
+    [meetingId, userId]
+  );
+};
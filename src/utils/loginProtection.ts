@@ -0,0 +1,108 @@
+// src/utils/loginProtection.ts
+// Per-account brute-force protection. Every wrong password or 2FA code counts against the account,
+// wherever it comes from: after a few, each attempt has to wait longer, and too many lock the
+// account for a while and tell its owner by email.
+import { query } from '../config/database';
+import { queueEmail } from './emailOutbox';
+import { accountLockedEmail } from './emailTemplates';
+import { positiveInt } from './numbers';
+import { recordSecurityEvent } from './securityEvents';
+import { SessionContext } from './sessions';
+
+const FREE_ATTEMPTS = 3;
+const MAX_DELAY_SECONDS = 60;
+// Failures older than this no longer count
+const FAILURE_WINDOW_MINUTES = 60;
+
+const maxFailures = () => positiveInt(process.env.LOGIN_MAX_FAILURES, 10);
+const lockoutMinutes = () => positiveInt(process.env.LOGIN_LOCKOUT_MINUTES, 15);
+
+// Nothing for the first 3 failures, then 1s, 2s, 4s, ... up to a minute
+const retryDelaySeconds = (failures: number) =>
+  failures < FREE_ATTEMPTS ? 0 : Math.min(2 ** (failures - FREE_ATTEMPTS), MAX_DELAY_SECONDS);
+
+export type LoginGate = { allowed: true } | { allowed: false; locked: boolean; retryAfterSeconds: number };
+
+// Whether the account may try a password or 2FA code right now. Checked before the credentials,
+// so attempts during a delay or lockout tell an attacker nothing.
+export const checkLoginAllowed = async (userId: number): Promise<LoginGate> => {
+  const result = await query(
+    `SELECT failed_login_count,
+       EXTRACT(EPOCH FROM (locked_until - NOW())) AS locked_for,
+       EXTRACT(EPOCH FROM (NOW() - last_failed_login_at)) AS since_failure
+     FROM users WHERE id = $1`,
+    [userId]
+  );
+  if (result.rows.length === 0) {
+    return { allowed: true };
+  }
+
+  const row = result.rows[0];
+  const lockedFor = row.locked_for === null ? null : parseFloat(row.locked_for);
+  if (lockedFor !== null && lockedFor > 0) {
+    return { allowed: false, locked: true, retryAfterSeconds: Math.ceil(lockedFor) };
+  }
+
+  // An expired lockout or an old failure starts over
+  const sinceFailure = row.since_failure === null ? null : parseFloat(row.since_failure);
+  if (sinceFailure === null || sinceFailure > FAILURE_WINDOW_MINUTES * 60 || lockedFor !== null) {
+    return { allowed: true };
+  }
+
+  const wait = retryDelaySeconds(row.failed_login_count) - sinceFailure;
+  return wait > 0 ? { allowed: false, locked: false, retryAfterSeconds: Math.ceil(wait) } : { allowed: true };
+};
+
+// Counts a failed attempt and locks the account once it reaches LOGIN_MAX_FAILURES
+export const recordFailedLogin = async (
+  userId: number,
+  context: SessionContext,
+  reason: string
+): Promise<{ locked: false } | { locked: true; retryAfterSeconds: number }> => {
+  const counted = await query(
+    `UPDATE users SET
+       failed_login_count = CASE
+         WHEN last_failed_login_at IS NULL OR last_failed_login_at < NOW() - make_interval(mins => $2)
+           OR locked_until <= NOW() THEN 1
+         ELSE failed_login_count + 1
+       END,
+       last_failed_login_at = NOW(),
+       locked_until = CASE WHEN locked_until > NOW() THEN locked_until END
+     WHERE id = $1
+     RETURNING failed_login_count`,
+    [userId, FAILURE_WINDOW_MINUTES]
+  );
+  const failures: number = counted.rows[0]?.failed_login_count ?? 0;
+
+  await recordSecurityEvent(userId, 'login_failed', context, { reason, failures });
+
+  if (failures < maxFailures()) {
+    return { locked: false };
+  }
+
+  // Only the request that actually locks the account sends the notification
+  const minutes = lockoutMinutes();
+  const locked = await query(
+    `UPDATE users SET locked_until = NOW() + make_interval(mins => $2)
+     WHERE id = $1 AND (locked_until IS NULL OR locked_until <= NOW())
+     RETURNING email, locale`,
+    [userId, minutes]
+  );
+  if (locked.rows.length > 0) {
+    const { email, locale } = locked.rows[0];
+    await recordSecurityEvent(userId, 'account_locked', context, { failures, minutes });
+    if (email) {
+      await queueEmail(accountLockedEmail(email, minutes, locale));
+    }
+  }
+  return { locked: true, retryAfterSeconds: minutes * 60 };
+};
+
+// After a successful login or password reset
+export const clearFailedLogins = async (userId: number) => {
+  await query(
+    `UPDATE users SET failed_login_count = 0, last_failed_login_at = NULL, locked_until = NULL
+     WHERE id = $1 AND (failed_login_count > 0 OR locked_until IS NOT NULL)`,
+    [userId]
+  );
+};
@@ -0,0 +1,77 @@
+// src/utils/mediaState.ts
+import { query } from '../config/database';
+
+export interface MediaState {
+  audioMuted: boolean;
+  videoOff: boolean;
+  screenSharing: boolean;
+}
+
+const COLUMNS: Record<keyof MediaState, string> = {
+  audioMuted: 'audio_muted',
+  videoOff: 'video_off',
+  screenSharing: 'screen_sharing',
+};
+
+// Updates the stored state of one connected device and returns who it belongs to
+export const updateMediaState = async (
+  meetingId: string,
+  socketId: string,
+  changes: Partial<MediaState>
+) => {
+  const entries = (Object.keys(COLUMNS) as (keyof MediaState)[]).filter(
+    (key) => typeof changes[key] === 'boolean'
+  );
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const assignments = entries.map((key, index) => `${COLUMNS[key]} = $${index + 3}`);
+  const result = await query(
+    `UPDATE participant_devices SET ${assignments.join(', ')}
+     WHERE meeting_id = $1 AND socket_id = $2 AND left_at IS NULL
+     RETURNING user_id, socket_id, device_label, audio_muted, video_off, screen_sharing`,
+    [meetingId, socketId, ...entries.map((key) => changes[key])]
+  );
+
+  return result.rows[0] ? formatMediaState(result.rows[0]) : null;
+};
+
+interface MediaStateRow {
+  socket_id: string;
+  user_id: number;
+  device_label: string | null;
+  audio_muted: boolean;
+  video_off: boolean;
+  screen_sharing: boolean;
+}
+
+export const formatMediaState = (row: MediaStateRow) => ({
+  socketId: row.socket_id,
+  userId: row.user_id,
+  deviceLabel: row.device_label,
+  audioMuted: row.audio_muted,
+  videoOff: row.video_off,
+  screenSharing: row.screen_sharing,
+});
+
+// Snapshot sent to late joiners so they know who is muted or sharing
+export const getRoomState = async (meetingId: string) => {
+  const meeting = await query('SELECT is_locked, screen_share_blocked FROM meetings WHERE id = $1', [
+    meetingId,
+  ]);
+  const participants = await query(
+    `SELECT d.user_id, d.socket_id, d.device_label, d.audio_muted, d.video_off, d.screen_sharing
+     FROM participant_devices d
+     JOIN meeting_participants mp ON mp.id = d.participant_id
+     WHERE d.meeting_id = $1 AND mp.status = 'admitted' AND d.left_at IS NULL
+     ORDER BY d.joined_at`,
+    [meetingId]
+  );
+
+  return {
+    locked: meeting.rows[0]?.is_locked ?? false,
+    screenShareBlocked: meeting.rows[0]?.screen_share_blocked ?? false,
+    participants: participants.rows.map(formatMediaState),
+  };
+};
@@ -0,0 +1,180 @@
+// src/utils/meetingAccess.ts
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { query, Queryable } from '../config/database';
+import { positiveInt } from './numbers';
+
+export type AccessMode = 'open' | 'passcode' | 'invite';
+
+export const ACCESS_MODES: AccessMode[] = ['open', 'passcode', 'invite'];
+
+export interface AccessCredentials {
+  passcode?: string | undefined;
+  inviteToken?: string | undefined;
+}
+
+export type AccessResult = { allowed: true } | { allowed: false; status: number; error: string };
+
+interface InvitationTokenPayload {
+  type: 'meeting-invite';
+  invitationId: string;
+  meetingId: string;
+  email: string;
+}
+
+const getJwtSecret = () => {
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error('JWT_SECRET is not defined');
+  }
+  return jwtSecret;
+};
+
+export const hashPasscode = (passcode: string) => bcrypt.hash(passcode, 10);
+
+export const generatePasscode = () => crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+
+export const createInvitation = async (
+  meetingId: string,
+  email: string,
+  invitedBy: number,
+  db: Queryable = { query }
+) => {
+  const invitationId = uuidv4();
+  const expiryDays = positiveInt(process.env.INVITATION_EXPIRY_DAYS, 7);
+  const expiresAt = new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000);
+  const normalizedEmail = email.toLowerCase();
+
+  // A fresh invitation supersedes any earlier one for the same address
+  await db.query(
+    `UPDATE meeting_invitations SET revoked_at = NOW()
+     WHERE meeting_id = $1 AND LOWER(email) = $2 AND revoked_at IS NULL AND accepted_at IS NULL`,
+    [meetingId, normalizedEmail]
+  );
+
+  await db.query(
+    `INSERT INTO meeting_invitations (id, meeting_id, email, invited_by, expires_at)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [invitationId, meetingId, normalizedEmail, invitedBy, expiresAt]
+  );
+
+  const payload: InvitationTokenPayload = {
+    type: 'meeting-invite',
+    invitationId,
+    meetingId,
+    email: normalizedEmail,
+  };
+  const token = jwt.sign(payload, getJwtSecret(), { expiresIn: `${expiryDays}d` as NonNullable<jwt.SignOptions['expiresIn']> });
+
+  return { id: invitationId, email: normalizedEmail, expiresAt, token };
+};
+
+export const checkPasscode = async (
+  meeting: { passcode_hash: string | null },
+  passcode: string | undefined
+): Promise<AccessResult> => {
+  if (!passcode) {
+    return { allowed: false, status: 401, error: 'Passcode required' };
+  }
+  const valid = meeting.passcode_hash !== null && (await bcrypt.compare(passcode, meeting.passcode_hash));
+  return valid ? { allowed: true } : { allowed: false, status: 403, error: 'Incorrect passcode' };
+};
+
+// Validates a signed invitation and binds it to the user who redeems it
+const redeemInvitation = async (
+  meetingId: string,
+  user: { id: number; email: string },
+  inviteToken: string
+): Promise<AccessResult> => {
+  let payload: InvitationTokenPayload;
+  try {
+    payload = jwt.verify(inviteToken, getJwtSecret()) as InvitationTokenPayload;
+  } catch (error) {
+    return { allowed: false, status: 403, error: 'Invalid or expired invitation' };
+  }
+
+  if (payload.type !== 'meeting-invite' || payload.meetingId !== meetingId) {
+    return { allowed: false, status: 403, error: 'Invitation is not valid for this meeting' };
+  }
+
+  if (payload.email !== user.email.toLowerCase()) {
+    return { allowed: false, status: 403, error: 'This invitation was issued to a different email address' };
+  }
+
+  const result = await query(
+    `UPDATE meeting_invitations
+     SET accepted_by = $1, accepted_at = COALESCE(accepted_at, NOW())
+     WHERE id = $2 AND meeting_id = $3 AND revoked_at IS NULL AND expires_at > NOW()
+       AND (accepted_by IS NULL OR accepted_by = $1)
+     RETURNING id`,
+    [user.id, payload.invitationId, meetingId]
+  );
+
+  if (result.rows.length === 0) {
+    return { allowed: false, status: 403, error: 'Invitation has been revoked or has expired' };
+  }
+
+  return { allowed: true };
+};
+
+// Enforces the meeting's access mode. Hosts always pass. Participants who already
+// passed the passcode check keep their seat; invite-only access is re-checked every
+// time so that revoking an invitation locks the invitee out.
+export const checkMeetingAccess = async (
+  meeting: { id: string; host_id: number; access_mode: AccessMode; passcode_hash: string | null },
+  user: { id: number; email: string },
+  credentials: AccessCredentials,
+  hasJoinedBefore: boolean
+): Promise<AccessResult> => {
+  if (meeting.host_id === user.id) {
+    return { allowed: true };
+  }
+
+  switch (meeting.access_mode) {
+    case 'passcode': {
+      if (hasJoinedBefore) {
+        return { allowed: true };
+      }
+      return checkPasscode(meeting, credentials.passcode);
+    }
+
+    case 'invite': {
+      const accepted = await query(
+        `SELECT id FROM meeting_invitations
+         WHERE meeting_id = $1 AND accepted_by = $2 AND revoked_at IS NULL`,
+        [meeting.id, user.id]
+      );
+      if (accepted.rows.length > 0) {
+        return { allowed: true };
+      }
+      if (!credentials.inviteToken) {
+        return { allowed: false, status: 403, error: 'This meeting is invite-only' };
+      }
+      return redeemInvitation(meeting.id, user, credentials.inviteToken);
+    }
+
+    default:
+      return { allowed: true };
+  }
+};
+
+// Hosts, participants and anyone holding a live invitation may see a meeting's schedule
+export const canViewMeeting = async (
+  meeting: { id: string; host_id: number },
+  user: { id: number; email: string }
+) => {
+  if (meeting.host_id === user.id) {
+    return true;
+  }
+
+  const result = await query(
+    `SELECT 1 FROM meeting_participants WHERE meeting_id = $1 AND user_id = $2 AND status <> 'denied'
+     UNION ALL
+     SELECT 1 FROM meeting_invitations WHERE meeting_id = $1 AND LOWER(email) = $3 AND revoked_at IS NULL
+     LIMIT 1`,
+    [meeting.id, user.id, user.email.toLowerCase()]
+  );
+  return result.rows.length > 0;
+};
@@ -0,0 +1,59 @@
+// src/utils/meetingCodes.ts
+// Short join codes such as "abc-defg-hij": 10 random letters, about 47 bits,
+// easy to read out loud and to type on a phone
+import crypto from 'crypto';
+import { DatabaseError } from 'pg';
+import { query } from '../config/database';
+
+const LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+const CODE_LENGTH = 10;
+const MAX_ATTEMPTS = 5;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const formatCode = (letters: string) => `${letters.slice(0, 3)}-${letters.slice(3, 7)}-${letters.slice(7)}`;
+
+export const generateMeetingCode = () =>
+  formatCode(Array.from({ length: CODE_LENGTH }, () => LETTERS[crypto.randomInt(LETTERS.length)]).join(''));
+
+// Accepts any capitalisation and separators ("ABC DEFG HIJ", "abcdefghij"); null if it cannot be a code
+export const normalizeMeetingCode = (input: string) => {
+  const letters = input.toLowerCase().replace(/[\s-]/g, '');
+  return /^[a-z]{10}$/.test(letters) ? formatCode(letters) : null;
+};
+
+// Runs the insert or update with a fresh code until one is not taken yet
+export const withUniqueMeetingCode = async <T>(write: (code: string) => Promise<T>) => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await write(generateMeetingCode());
+    } catch (error) {
+      const taken = error instanceof DatabaseError && error.code === '23505' && error.constraint === 'idx_meetings_code';
+      if (!taken || attempt >= MAX_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+};
+
+export const isMeetingId = (value: string) => UUID_PATTERN.test(value);
+
+// Meeting IDs pass through unchanged; codes are looked up. Null when a code matches no meeting.
+export const resolveMeetingId = async (idOrCode: string) => {
+  if (isMeetingId(idOrCode)) {
+    return idOrCode.toLowerCase();
+  }
+
+  const code = normalizeMeetingCode(idOrCode);
+  if (!code) {
+    return null;
+  }
+
+  const result = await query('SELECT id FROM meetings WHERE code = $1', [code]);
+  return (result.rows[0]?.id as string | undefined) ?? null;
+};
+
+export const regenerateMeetingCode = (meetingId: string) =>
+  withUniqueMeetingCode(async (code) => {
+    await query('UPDATE meetings SET code = $1 WHERE id = $2', [code, meetingId]);
+    return code;
+  });
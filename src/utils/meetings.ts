@@ -0,0 +1,64 @@
+// src/utils/meetings.ts
+import { query } from '../config/database';
+import { getOccurrences, scheduleFromMeeting } from './schedule';
+import { recordAttendance } from './attendance';
+import { emitMeetingWebhookEvent } from './webhooks';
+import { disconnectMeeting } from '../sockets/admin';
+import { SignalingServer } from '../types/socket';
+
+// Ends the current occurrence for everyone. Returns the sockets that were still in it,
+// or null when the meeting does not exist. endedBy is null when the server ended it.
+export const endMeeting = async (meetingId: string, endedBy: number | null) => {
+  const result = await query('SELECT * FROM meetings WHERE id = $1', [meetingId]);
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  // Ending one occurrence of a recurring meeting keeps the series scheduled
+  const schedule = scheduleFromMeeting(result.rows[0]);
+  const hasMoreOccurrences = Boolean(
+    schedule?.rule && getOccurrences(schedule, { from: new Date(Date.now() + 60000), limit: 1 }).length > 0
+  );
+
+  // Open breakout rooms close with the meeting; the room setup is kept for next time
+  await query(
+    `UPDATE meetings SET status = $1, ended_at = NOW(),
+       breakout_status = CASE WHEN breakout_status IN ('open', 'closing') THEN 'prepared' ELSE breakout_status END
+     WHERE id = $2`,
+    [hasMoreOccurrences ? 'scheduled' : 'ended', meetingId]
+  );
+  await query('UPDATE meeting_participants SET left_at = NOW() WHERE meeting_id = $1 AND left_at IS NULL', [
+    meetingId,
+  ]);
+  const devices = await query(
+    `UPDATE participant_devices SET left_at = NOW(), disconnected_at = NULL, resume_token_hash = NULL
+     WHERE meeting_id = $1 AND left_at IS NULL
+     RETURNING socket_id`,
+    [meetingId]
+  );
+  const socketIds = devices.rows.map((d) => d.socket_id as string);
+  await recordAttendance(socketIds, 'leave');
+
+  await emitMeetingWebhookEvent(meetingId, 'meeting.ended', { endedBy, recurring: hasMoreOccurrences });
+
+  return { socketIds, recurring: hasMoreOccurrences };
+};
+
+// Before deleting an account, which cascades to the meetings it hosts: live ones are ended and
+// everyone still in them is told and disconnected. Returns how many were ended.
+export const endHostedMeetings = async (io: SignalingServer, hostId: number, endedBy: number, message: string) => {
+  const live = await query(
+    `SELECT m.id FROM meetings m
+     WHERE m.host_id = $1 AND (m.status = 'active'
+       OR EXISTS (SELECT 1 FROM participant_devices d WHERE d.meeting_id = m.id AND d.left_at IS NULL))`,
+    [hostId]
+  );
+
+  for (const meeting of live.rows) {
+    await endMeeting(meeting.id, endedBy);
+    disconnectMeeting(io, meeting.id, message);
+  }
+
+  return live.rows.length;
+};
@@ -0,0 +1,49 @@
+// src/utils/metrics.ts
+// In-process counters, reset on restart and kept per server instance.
+// Administrators read them from GET /api/admin/metrics (JSON or Prometheus text).
+
+type Labels = Record<string, string>;
+
+interface Counter {
+  name: string;
+  labels: Labels;
+  value: number;
+}
+
+const counters = new Map<string, Counter>();
+
+const counterKey = (name: string, labels: Labels) =>
+  `${name}${JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))}`;
+
+export const incrementCounter = (name: string, labels: Labels = {}, by = 1) => {
+  const key = counterKey(name, labels);
+  const counter = counters.get(key) ?? { name, labels, value: 0 };
+  counter.value += by;
+  counters.set(key, counter);
+};
+
+export const getCounters = () =>
+  [...counters.values()]
+    .map((counter) => ({ ...counter, labels: { ...counter.labels } }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+// Prometheus text exposition format
+export const renderPrometheusMetrics = () => {
+  const lines: string[] = [];
+  let previous: string | null = null;
+
+  for (const counter of getCounters()) {
+    if (counter.name !== previous) {
+      lines.push(`# TYPE ${counter.name} counter`);
+      previous = counter.name;
+    }
+    const labels = Object.entries(counter.labels)
+      .map(([key, value]) => `${key}="${escapeLabel(value)}"`)
+      .join(',');
+    lines.push(`${counter.name}${labels ? `{${labels}}` : ''} ${counter.value}`);
+  }
+
+  return lines.length ? `${lines.join('\n')}\n` : '';
+};
@@ -0,0 +1,22 @@
+// src/utils/numbers.ts
+// Lenient integer parsing for settings, query strings and route parameters: anything unusable
+// falls back to a default instead of turning into NaN further down
+
+const toInt = (value: unknown) => parseInt(String(value ?? ''), 10);
+
+export const positiveInt = (value: unknown, fallback: number) => {
+  const parsed = toInt(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// For settings where 0 means "off"
+export const nonNegativeInt = (value: unknown, fallback: number) => {
+  const parsed = toInt(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// Query parameters such as ?limit= or ?days=, kept between 1 and max
+export const queryInt = (value: unknown, fallback: number, max: number) => Math.min(positiveInt(value, fallback), max);
+
+// Row IDs from the URL; 0 matches no row, so a malformed ID ends up as "not found"
+export const parseId = (value: unknown) => positiveInt(value, 0);
@@ -0,0 +1,275 @@
+// src/utils/oidc.ts
+// OpenID Connect authorization code flow with PKCE against any provider that
+// publishes /.well-known/openid-configuration
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { query } from '../config/database';
+
+export interface OidcProvider {
+  name: string;
+  label: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string | undefined;
+  scopes: string;
+}
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  id_token_signing_alg_values_supported?: string[];
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  preferred_username?: string;
+  locale?: string;
+}
+
+// Failures caused by the sign-in itself (as opposed to bugs), reported back to the user
+class OidcError extends Error {}
+
+const STATE_TTL_MINUTES = 10;
+const METADATA_TTL_MS = 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+const SIGNING_ALGORITHMS = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+const base64Url = (buffer: Buffer) => buffer.toString('base64url');
+const hashState = (state: string) => crypto.createHash('sha256').update(state).digest('hex');
+
+// OIDC_PROVIDERS=google,local and, per provider, OIDC_<NAME>_ISSUER, OIDC_<NAME>_CLIENT_ID,
+// OIDC_<NAME>_CLIENT_SECRET (omit for public clients), OIDC_<NAME>_SCOPES and OIDC_<NAME>_LABEL
+export const getOidcProviders = (): OidcProvider[] =>
+  (process.env.OIDC_PROVIDERS || '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean)
+    .flatMap((name) => {
+      const prefix = `OIDC_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+      const issuer = process.env[`${prefix}ISSUER`];
+      const clientId = process.env[`${prefix}CLIENT_ID`];
+      if (!issuer || !clientId) {
+        return [];
+      }
+      return [
+        {
+          name,
+          label: process.env[`${prefix}LABEL`] || name,
+          issuer: issuer.replace(/\/+$/, ''),
+          clientId,
+          clientSecret: process.env[`${prefix}CLIENT_SECRET`] || undefined,
+          scopes: process.env[`${prefix}SCOPES`] || 'openid email profile',
+        },
+      ];
+    });
+
+export const getOidcProvider = (name: string) => getOidcProviders().find((p) => p.name === name) ?? null;
+
+// The frontend page the provider sends the user back to; it posts code and state to the callback route
+export const getOidcRedirectUri = () => process.env.OIDC_REDIRECT_URI || `${process.env.FRONTEND_URL}/oidc/callback`;
+
+interface Jwk extends crypto.JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+// Callers check the fields they use; the body only comes back as a JSON object
+const fetchJson = async (url: string, init?: RequestInit): Promise<Record<string, unknown>> => {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok || typeof body !== 'object' || body === null) {
+    throw new OidcError(`Request to ${new URL(url).origin} failed with HTTP ${response.status}`);
+  }
+  return body as Record<string, unknown>;
+};
+
+const discoveryCache = new Map<string, { document: DiscoveryDocument; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: Jwk[]; fetchedAt: number }>();
+
+export const discoverProvider = async (provider: OidcProvider) => {
+  const cached = discoveryCache.get(provider.issuer);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_TTL_MS) {
+    return cached.document;
+  }
+
+  const document = (await fetchJson(`${provider.issuer}/.well-known/openid-configuration`)) as Partial<DiscoveryDocument>;
+
+  if (document.issuer?.replace(/\/+$/, '') !== provider.issuer) {
+    throw new OidcError('Discovery document issuer does not match the configured issuer');
+  }
+  if (!document.authorization_endpoint || !document.token_endpoint || !document.jwks_uri) {
+    throw new OidcError('Discovery document is missing required endpoints');
+  }
+
+  const complete = document as DiscoveryDocument;
+  discoveryCache.set(provider.issuer, { document: complete, fetchedAt: Date.now() });
+  return complete;
+};
+
+// Keys are refetched once when a token names a key we have not seen (provider key rotation)
+const getSigningKey = async (jwksUri: string, kid: string | undefined) => {
+  const findKey = (keys: Jwk[]) =>
+    keys.find((key) => (kid ? key.kid === kid : true) && (key.use === undefined || key.use === 'sig'));
+
+  const cached = jwksCache.get(jwksUri);
+  let key = cached && Date.now() - cached.fetchedAt < METADATA_TTL_MS ? findKey(cached.keys) : undefined;
+
+  if (!key) {
+    const { keys } = await fetchJson(jwksUri);
+    if (!Array.isArray(keys)) {
+      throw new OidcError('JWKS response has no keys');
+    }
+    jwksCache.set(jwksUri, { keys: keys as Jwk[], fetchedAt: Date.now() });
+    key = findKey(keys as Jwk[]);
+  }
+
+  if (!key) {
+    throw new OidcError('ID token is signed with an unknown key');
+  }
+  return crypto.createPublicKey({ key, format: 'jwk' });
+};
+
+export const verifyIdToken = async (
+  provider: OidcProvider,
+  document: DiscoveryDocument,
+  idToken: string,
+  nonce: string
+) => {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new OidcError('ID token is malformed');
+  }
+
+  const algorithm = decoded.header.alg;
+  if (!SIGNING_ALGORITHMS.includes(algorithm)) {
+    throw new OidcError(`ID token algorithm ${algorithm} is not accepted`);
+  }
+
+  const key = await getSigningKey(document.jwks_uri, decoded.header.kid);
+
+  let claims: IdTokenClaims;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: [algorithm as jwt.Algorithm],
+      issuer: document.issuer,
+      audience: provider.clientId,
+      clockTolerance: 60,
+    }) as IdTokenClaims;
+  } catch (error) {
+    throw new OidcError(`ID token is invalid: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!claims.sub) {
+    throw new OidcError('ID token has no subject');
+  }
+  if (!claims.nonce || claims.nonce !== nonce) {
+    throw new OidcError('ID token nonce does not match');
+  }
+
+  return claims;
+};
+
+// Starts a login (or, with linkUserId, an account link). The state row carries the
+// PKCE verifier and nonce until the callback consumes it.
+export const createAuthorizationUrl = async (provider: OidcProvider, linkUserId: number | null = null) => {
+  const document = await discoverProvider(provider);
+
+  const state = base64Url(crypto.randomBytes(32));
+  const nonce = base64Url(crypto.randomBytes(32));
+  const codeVerifier = base64Url(crypto.randomBytes(48));
+  const codeChallenge = base64Url(crypto.createHash('sha256').update(codeVerifier).digest());
+
+  await query(
+    `INSERT INTO oidc_login_states (state_hash, provider, code_verifier, nonce, link_user_id, expires_at)
+     VALUES ($1, $2, $3, $4, $5, NOW() + make_interval(mins => $6))`,
+    [hashState(state), provider.name, codeVerifier, nonce, linkUserId, STATE_TTL_MINUTES]
+  );
+  await query('DELETE FROM oidc_login_states WHERE expires_at < NOW()');
+
+  const url = new URL(document.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', provider.clientId);
+  url.searchParams.set('redirect_uri', getOidcRedirectUri());
+  url.searchParams.set('scope', provider.scopes);
+  url.searchParams.set('state', state);
+  url.searchParams.set('nonce', nonce);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+
+  return url.toString();
+};
+
+export type AuthorizationResult =
+  | { ok: true; claims: IdTokenClaims; linkUserId: number | null }
+  | { ok: false; error: string };
+
+// Consumes the state, exchanges the code and returns the verified ID token claims. A link state
+// is only accepted from the user who started it (userId), so a link URL cannot be handed to
+// someone else to attach their identity to the wrong account.
+export const completeAuthorization = async (
+  provider: OidcProvider,
+  code: string,
+  state: string,
+  userId: number | null
+): Promise<AuthorizationResult> => {
+  try {
+    return await exchangeCode(provider, code, state, userId);
+  } catch (error) {
+    if (error instanceof OidcError) {
+      return { ok: false, error: error.message };
+    }
+    throw error;
+  }
+};
+
+const exchangeCode = async (provider: OidcProvider, code: string, state: string, userId: number | null) => {
+  const stored = await query(
+    `DELETE FROM oidc_login_states
+     WHERE state_hash = $1 AND provider = $2 AND (link_user_id IS NULL OR link_user_id = $3)
+     RETURNING code_verifier, nonce, link_user_id, expires_at`,
+    [hashState(state), provider.name, userId]
+  );
+
+  if (stored.rows.length === 0 || new Date(stored.rows[0].expires_at) < new Date()) {
+    throw new OidcError('Sign-in request is invalid or has expired, start again');
+  }
+
+  const { code_verifier, nonce, link_user_id } = stored.rows[0];
+  const document = await discoverProvider(provider);
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: getOidcRedirectUri(),
+    client_id: provider.clientId,
+    code_verifier,
+  });
+  if (provider.clientSecret) {
+    body.set('client_secret', provider.clientSecret);
+  }
+
+  const tokens = await fetchJson(document.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body,
+  });
+
+  if (typeof tokens.id_token !== 'string') {
+    throw new OidcError('Token response has no ID token');
+  }
+
+  const claims = await verifyIdToken(provider, document, tokens.id_token, nonce);
+  return { ok: true as const, claims, linkUserId: (link_user_id as number | null) ?? null };
+};
+
+export const isEmailVerified = (claims: IdTokenClaims) =>
+  Boolean(claims.email) && (claims.email_verified === true || claims.email_verified === 'true');
@@ -0,0 +1,167 @@
+// src/utils/permissions.ts
+import { query } from '../config/database';
+
+export type MeetingRole = 'host' | 'co-host' | 'presenter' | 'attendee' | 'viewer';
+
+export const MEETING_ROLES: MeetingRole[] = ['host', 'co-host', 'presenter', 'attendee', 'viewer'];
+
+// Roles that can be handed out with change-role; host only moves via transfer
+export const ASSIGNABLE_ROLES: MeetingRole[] = ['co-host', 'presenter', 'attendee', 'viewer'];
+
+export type MeetingPermission =
+  | 'end_meeting'
+  | 'manage_settings'
+  | 'manage_roles'
+  | 'manage_lobby'
+  | 'kick_participants'
+  | 'moderate_media'
+  | 'lock_meeting'
+  | 'manage_breakouts'
+  | 'view_reports'
+  | 'invite_participants'
+  | 'moderate_chat'
+  | 'send_chat'
+  | 'screen_share';
+
+const ROLE_PERMISSIONS: Record<MeetingRole, MeetingPermission[]> = {
+  host: [
+    'end_meeting',
+    'manage_settings',
+    'manage_roles',
+    'manage_lobby',
+    'kick_participants',
+    'moderate_media',
+    'lock_meeting',
+    'manage_breakouts',
+    'view_reports',
+    'invite_participants',
+    'moderate_chat',
+    'send_chat',
+    'screen_share',
+  ],
+  'co-host': [
+    'manage_roles',
+    'manage_lobby',
+    'kick_participants',
+    'moderate_media',
+    'lock_meeting',
+    'manage_breakouts',
+    'invite_participants',
+    'moderate_chat',
+    'send_chat',
+    'screen_share',
+  ],
+  presenter: ['send_chat', 'screen_share'],
+  attendee: ['send_chat', 'screen_share'],
+  viewer: ['send_chat'],
+};
+
+const ROLE_RANK: Record<MeetingRole, number> = {
+  host: 4,
+  'co-host': 3,
+  presenter: 2,
+  attendee: 1,
+  viewer: 0,
+};
+
+export const roleHasPermission = (role: MeetingRole | null, permission: MeetingPermission) =>
+  role !== null && ROLE_PERMISSIONS[role].includes(permission);
+
+// Moderators may only act on people ranked below them (co-hosts cannot kick co-hosts)
+export const outranks = (actor: MeetingRole, target: MeetingRole) => ROLE_RANK[actor] > ROLE_RANK[target];
+
+// Co-hosts may manage people below them but only the host can create co-hosts
+export const canAssignRole = (actor: MeetingRole, target: MeetingRole, newRole: MeetingRole) =>
+  roleHasPermission(actor, 'manage_roles') &&
+  ASSIGNABLE_ROLES.includes(newRole) &&
+  outranks(actor, target) &&
+  (actor === 'host' || outranks(actor, newRole));
+
+// meetings.host_id is authoritative for the host; everyone else uses their participant role
+export const getMeetingRole = async (meetingId: string, userId: number) => {
+  const result = await query(
+    `SELECT m.host_id, mp.role, mp.status
+     FROM meetings m
+     LEFT JOIN meeting_participants mp ON mp.meeting_id = m.id AND mp.user_id = $2
+     WHERE m.id = $1`,
+    [meetingId, userId]
+  );
+
+  if (result.rows.length === 0) {
+    return { exists: false as const, role: null };
+  }
+
+  const row = result.rows[0];
+  let role: MeetingRole | null = null;
+  if (row.host_id === userId) {
+    role = 'host';
+  } else if (row.status === 'admitted') {
+    role = row.role === 'host' ? 'co-host' : (row.role as MeetingRole);
+  }
+
+  return { exists: true as const, role };
+};
+
+export type PermissionCheck =
+  | { allowed: true; role: MeetingRole }
+  | { allowed: false; reason: 'not_found' | 'forbidden'; role: MeetingRole | null };
+
+// The single authorisation check shared by REST routes and socket handlers
+export const checkMeetingPermission = async (
+  meetingId: string,
+  userId: number,
+  permission: MeetingPermission
+): Promise<PermissionCheck> => {
+  const { exists, role } = await getMeetingRole(meetingId, userId);
+
+  if (!exists) {
+    return { allowed: false, reason: 'not_found', role: null };
+  }
+
+  if (!role || !roleHasPermission(role, permission)) {
+    return { allowed: false, reason: 'forbidden', role };
+  }
+
+  return { allowed: true, role };
+};
+
+export const setParticipantRole = async (meetingId: string, userId: number, role: MeetingRole) => {
+  const result = await query(
+    `UPDATE meeting_participants SET role = $3
+     WHERE meeting_id = $1 AND user_id = $2 AND status = 'admitted'
+     RETURNING id`,
+    [meetingId, userId, role]
+  );
+  return result.rows.length > 0;
+};
+
+// Makes newHostId the host; the previous host stays in the meeting as a co-host
+export const transferHost = async (meetingId: string, newHostId: number) => {
+  const meeting = await query('SELECT host_id FROM meetings WHERE id = $1', [meetingId]);
+  const previousHostId: number = meeting.rows[0].host_id;
+
+  await query('UPDATE meetings SET host_id = $1 WHERE id = $2', [newHostId, meetingId]);
+  await query(
+    `UPDATE meeting_participants SET role = 'co-host' WHERE meeting_id = $1 AND user_id = $2`,
+    [meetingId, previousHostId]
+  );
+  await query(
+    `UPDATE meeting_participants SET role = 'host', status = 'admitted' WHERE meeting_id = $1 AND user_id = $2`,
+    [meetingId, newHostId]
+  );
+
+  return previousHostId;
+};
+
+// Attendees lose screen sharing while the host blocks it; presenters and above keep it
+export const checkScreenSharePermission = async (meetingId: string, userId: number) => {
+  const check = await checkMeetingPermission(meetingId, userId, 'screen_share');
+  if (!check.allowed || check.role !== 'attendee') {
+    return check;
+  }
+
+  const result = await query('SELECT screen_share_blocked FROM meetings WHERE id = $1', [meetingId]);
+  return result.rows[0]?.screen_share_blocked
+    ? { allowed: false as const, reason: 'forbidden' as const, role: check.role }
+    : check;
+};
@@ -0,0 +1,341 @@
+// src/utils/schedule.ts
+// Minimal RFC 5545 recurrence support: FREQ=DAILY|WEEKLY|MONTHLY with INTERVAL,
+// BYDAY (weekly only), COUNT and UNTIL. Occurrences are expanded in the meeting's
+// own time zone so that "every Monday at 09:00" survives DST changes.
+import { nonNegativeInt } from './numbers';
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay: number[];
+  count?: number;
+  until?: Date;
+}
+
+export interface MeetingSchedule {
+  start: Date;
+  durationMinutes: number;
+  timeZone: string;
+  rule: RecurrenceRule | null;
+}
+
+export interface Occurrence {
+  start: Date;
+  end: Date;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const MAX_EXPANSION = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+interface LocalDateTime {
+  year: number;
+  month: number; // 0-based
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// Creating a formatter is far slower than using one, and calendar exports look up hundreds of
+// offsets to describe a time zone. Zones are validated first, so the map stays small.
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const toLocalDateTime = (date: Date, timeZone: string): LocalDateTime => {
+  const parts = formatterFor(timeZone).formatToParts(date);
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)!.value, 10);
+
+  return {
+    year: get('year'),
+    month: get('month') - 1,
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+};
+
+export const offsetMinutes = (date: Date, timeZone: string) => {
+  const local = toLocalDateTime(date, timeZone);
+  const asUtc = Date.UTC(local.year, local.month, local.day, local.hour, local.minute, local.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+// Converts a wall-clock time in timeZone to the matching instant
+export const fromLocalDateTime = (local: LocalDateTime, timeZone: string) => {
+  const guess = Date.UTC(local.year, local.month, local.day, local.hour, local.minute, local.second);
+  const firstOffset = offsetMinutes(new Date(guess), timeZone);
+  const candidate = guess - firstOffset * 60000;
+  const secondOffset = offsetMinutes(new Date(candidate), timeZone);
+  return new Date(secondOffset === firstOffset ? candidate : guess - secondOffset * 60000);
+};
+
+// An ISO 8601 start time. With an offset ("Z", "+02:00") it is that instant; without one it is a
+// wall-clock time in timeZone. Returns null for anything else, including impossible dates.
+export const parseScheduledStart = (value: string, timeZone: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/i.exec(
+    value.trim()
+  );
+  if (!match) {
+    return null;
+  }
+
+  const [, y, mo, d, h = '0', mi = '0', s = '0', offset] = match;
+  const local = { year: +y!, month: +mo! - 1, day: +d!, hour: +h, minute: +mi, second: +s };
+
+  // Date.UTC rolls 2026-02-30 over into March; a valid time comes back unchanged
+  const check = new Date(Date.UTC(local.year, local.month, local.day, local.hour, local.minute, local.second));
+  if (
+    check.getUTCFullYear() !== local.year ||
+    check.getUTCMonth() !== local.month ||
+    check.getUTCDate() !== local.day ||
+    check.getUTCHours() !== local.hour ||
+    check.getUTCMinutes() !== local.minute
+  ) {
+    return null;
+  }
+
+  if (offset) {
+    const date = new Date(value.trim());
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return fromLocalDateTime(local, timeZone);
+};
+
+const parseUntil = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  const [, y, mo, d, h = '23', mi = '59', s = '59'] = match;
+  return new Date(Date.UTC(+y!, +mo! - 1, +d!, +h, +mi, +s));
+};
+
+// Parses strings such as "FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10". Throws on anything unsupported.
+export const parseRecurrenceRule = (value: string): RecurrenceRule => {
+  const fields = new Map<string, string>();
+  for (const part of value.replace(/^RRULE:/i, '').split(';')) {
+    if (!part) continue;
+    const [key, val] = part.split('=');
+    if (!key || val === undefined) {
+      throw new Error(`Malformed recurrence rule part "${part}"`);
+    }
+    fields.set(key.toUpperCase(), val.toUpperCase());
+  }
+
+  const freq = fields.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    throw new Error('FREQ must be DAILY, WEEKLY or MONTHLY');
+  }
+
+  const interval = parseInt(fields.get('INTERVAL') || '1', 10);
+  if (!Number.isInteger(interval) || interval < 1 || interval > 52) {
+    throw new Error('INTERVAL must be between 1 and 52');
+  }
+
+  const byDay = (fields.get('BYDAY') || '')
+    .split(',')
+    .filter(Boolean)
+    .map((day) => {
+      const index = WEEKDAYS.indexOf(day);
+      if (index === -1) {
+        throw new Error(`Unsupported BYDAY value "${day}"`);
+      }
+      return index;
+    });
+
+  if (byDay.length > 0 && freq !== 'WEEKLY') {
+    throw new Error('BYDAY is only supported with FREQ=WEEKLY');
+  }
+
+  const rule: RecurrenceRule = { freq, interval, byDay: [...new Set(byDay)].sort() };
+
+  if (fields.has('COUNT')) {
+    const count = parseInt(fields.get('COUNT')!, 10);
+    if (!Number.isInteger(count) || count < 1 || count > 1000) {
+      throw new Error('COUNT must be between 1 and 1000');
+    }
+    rule.count = count;
+  }
+
+  if (fields.has('UNTIL')) {
+    const until = parseUntil(fields.get('UNTIL')!);
+    if (!until) {
+      throw new Error('UNTIL is not a valid date');
+    }
+    rule.until = until;
+  }
+
+  for (const key of fields.keys()) {
+    if (!['FREQ', 'INTERVAL', 'BYDAY', 'COUNT', 'UNTIL'].includes(key)) {
+      throw new Error(`Unsupported recurrence field "${key}"`);
+    }
+  }
+
+  return rule;
+};
+
+export const formatRecurrenceRule = (rule: RecurrenceRule) => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length) parts.push(`BYDAY=${rule.byDay.map((d) => WEEKDAYS[d]).join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').split('.')[0]}Z`);
+  return parts.join(';');
+};
+
+// Yields occurrence start dates (as local calendar days) in chronological order
+function* candidateDays(start: LocalDateTime, rule: RecurrenceRule) {
+  const startDay = Date.UTC(start.year, start.month, start.day);
+
+  if (rule.freq === 'DAILY') {
+    for (let k = 0; ; k++) yield startDay + k * rule.interval * DAY_MS;
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    const startWeekday = new Date(startDay).getUTCDay();
+    const days = rule.byDay.length ? rule.byDay : [startWeekday];
+    // Weeks start on Monday (RFC 5545 default WKST=MO)
+    const weekStart = startDay - ((startWeekday + 6) % 7) * DAY_MS;
+    const offsets = days.map((d) => (d + 6) % 7).sort((a, b) => a - b);
+    for (let w = 0; ; w++) {
+      for (const offset of offsets) {
+        const day = weekStart + (w * rule.interval * 7 + offset) * DAY_MS;
+        if (day >= startDay) yield day;
+      }
+    }
+  }
+
+  // MONTHLY
+  for (let k = 0; ; k++) {
+    const candidate = new Date(Date.UTC(start.year, start.month + k * rule.interval, start.day));
+    // Months without this day (e.g. the 31st) are skipped, as RFC 5545 does
+    if (candidate.getUTCDate() === start.day) yield candidate.getTime();
+  }
+}
+
+export const getOccurrences = (
+  schedule: MeetingSchedule,
+  options: { from?: Date; to?: Date; limit?: number } = {}
+): Occurrence[] => {
+  const { from = new Date(0), to, limit = 20 } = options;
+  const durationMs = schedule.durationMinutes * 60000;
+  const occurrences: Occurrence[] = [];
+
+  if (!schedule.rule) {
+    const end = new Date(schedule.start.getTime() + durationMs);
+    const inRange = end > from && (!to || schedule.start <= to);
+    return inRange && limit > 0 ? [{ start: schedule.start, end }] : [];
+  }
+
+  const local = toLocalDateTime(schedule.start, schedule.timeZone);
+  const rule = schedule.rule;
+  let index = 0;
+
+  for (const day of candidateDays(local, rule)) {
+    if (index >= MAX_EXPANSION || occurrences.length >= limit) break;
+    if (rule.count !== undefined && index >= rule.count) break;
+
+    const date = new Date(day);
+    const start = fromLocalDateTime(
+      {
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth(),
+        day: date.getUTCDate(),
+        hour: local.hour,
+        minute: local.minute,
+        second: local.second,
+      },
+      schedule.timeZone
+    );
+
+    if (rule.until && start > rule.until) break;
+    if (to && start > to) break;
+    index++;
+
+    const end = new Date(start.getTime() + durationMs);
+    if (end > from) occurrences.push({ start, end });
+  }
+
+  return occurrences;
+};
+
+export interface ScheduledMeetingRow {
+  scheduled_start: Date | null;
+  duration_minutes: number | null;
+  time_zone: string | null;
+  recurrence_rule: string | null;
+}
+
+export const scheduleFromMeeting = (meeting: ScheduledMeetingRow): MeetingSchedule | null => {
+  if (!meeting.scheduled_start) {
+    return null;
+  }
+  return {
+    start: new Date(meeting.scheduled_start),
+    durationMinutes: meeting.duration_minutes || 60,
+    timeZone: meeting.time_zone || 'UTC',
+    rule: meeting.recurrence_rule ? parseRecurrenceRule(meeting.recurrence_rule) : null,
+  };
+};
+
+export const getNextOccurrence = (schedule: MeetingSchedule, now = new Date()) =>
+  getOccurrences(schedule, { from: now, limit: 1 })[0] || null;
+
+export type JoinWindow = { open: true } | { open: false; opensAt: Date | null };
+
+// Participants may join from JOIN_EARLY_MINUTES before an occurrence until it ends.
+// A meeting that is already running stays joinable even if it overruns.
+export const getJoinWindow = (
+  meeting: ScheduledMeetingRow & { status: string },
+  now = new Date()
+): JoinWindow => {
+  const schedule = scheduleFromMeeting(meeting);
+  if (!schedule || meeting.status === 'active') {
+    return { open: true };
+  }
+
+  const earlyMs = nonNegativeInt(process.env.JOIN_EARLY_MINUTES, 10) * 60000;
+  const next = getNextOccurrence(schedule, now);
+
+  if (!next) {
+    // Past the last occurrence: a one-off meeting may still be started late
+    return schedule.rule ? { open: false, opensAt: null } : { open: true };
+  }
+
+  if (now.getTime() >= next.start.getTime() - earlyMs) {
+    return { open: true };
+  }
+
+  return { open: false, opensAt: new Date(next.start.getTime() - earlyMs) };
+};
@@ -0,0 +1,70 @@
+// src/utils/securityEvents.ts
+// Append-only audit log of sign-ins, failures, resets, verifications and token reuse
+import { Request } from 'express';
+import { query, Queryable, transaction } from '../config/database';
+import { positiveInt } from './numbers';
+import { SessionContext } from './sessions';
+
+export const SECURITY_EVENT_TYPES = [
+  'login_succeeded',
+  'login_failed',
+  'account_locked',
+  'password_reset_requested',
+  'password_reset',
+  'password_changed',
+  'email_verified',
+  'email_changed',
+  'refresh_token_reused',
+  'two_factor_enabled',
+  'two_factor_disabled',
+] as const;
+
+export type SecurityEventType = (typeof SECURITY_EVENT_TYPES)[number];
+
+export const requestContext = (req: Request): SessionContext => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip,
+});
+
+// Never throws: failing to write the log must not fail the sign-in or reset it describes
+export const recordSecurityEvent = async (
+  userId: number | null,
+  type: SecurityEventType,
+  context: SessionContext = {},
+  details: Record<string, unknown> = {},
+  db: Queryable = { query }
+) => {
+  try {
+    await db.query(
+      `INSERT INTO security_events (user_id, event_type, ip_address, user_agent, details)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [userId, type, context.ipAddress || null, context.userAgent?.slice(0, 500) || null, JSON.stringify(details)]
+    );
+  } catch (error) {
+    console.error('Security event error:', error);
+  }
+};
+
+export const listSecurityEvents = async (userId: number, limit: number) => {
+  const result = await query(
+    `SELECT id, event_type, ip_address, user_agent, details, created_at FROM security_events
+     WHERE user_id = $1
+     ORDER BY created_at DESC, id DESC
+     LIMIT $2`,
+    [userId, limit]
+  );
+  return result.rows;
+};
+
+export const securityEventRetentionDays = () => positiveInt(process.env.SECURITY_EVENT_RETENTION_DAYS, 365);
+
+// The table rejects deletes unless app.security_events_purge is set for the transaction
+export const purgeSecurityEvents = async (olderThanDays: number) =>
+  transaction(async (client) => {
+    await client.query("SELECT set_config('app.security_events_purge', 'on', true)");
+    const result = await client.query(
+      'DELETE FROM security_events WHERE created_at < NOW() - make_interval(days => $1)',
+      [olderThanDays]
+    );
+    return { securityEvents: result.rowCount ?? 0 };
+  });
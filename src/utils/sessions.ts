@@ -0,0 +1,227 @@
+// src/utils/sessions.ts
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../config/database';
+import { positiveInt } from './numbers';
+
+export interface AccessTokenPayload {
+  userId: number;
+  email: string;
+  sessionId: string;
+}
+
+export interface SessionContext {
+  userAgent?: string | undefined;
+  ipAddress?: string | undefined;
+}
+
+const REFRESH_TOKEN_TTL_DAYS = positiveInt(process.env.REFRESH_TOKEN_EXPIRY_DAYS, 30);
+
+const getJwtSecret = () => {
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error('JWT_SECRET is not defined');
+  }
+  return jwtSecret;
+};
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+export const signAccessToken = (payload: AccessTokenPayload) =>
+  jwt.sign(payload, getJwtSecret(), {
+    expiresIn: (process.env.ACCESS_TOKEN_EXPIRY || '15m') as NonNullable<jwt.SignOptions['expiresIn']>,
+  });
+
+// Throws if the token is malformed, expired or was not issued for a session
+export const verifyAccessToken = (token: string): AccessTokenPayload => {
+  const decoded = jwt.verify(token, getJwtSecret()) as Partial<AccessTokenPayload>;
+
+  if (!decoded.userId || !decoded.sessionId) {
+    throw new Error('Token is not bound to a session');
+  }
+
+  return decoded as AccessTokenPayload;
+};
+
+const LOGIN_CHALLENGE_TTL = '5m';
+
+// Issued by the password step of a 2FA login. It carries no session, so it is never
+// accepted as an access token.
+export const signLoginChallenge = (userId: number) =>
+  jwt.sign({ userId, purpose: 'login_2fa' }, getJwtSecret(), { expiresIn: LOGIN_CHALLENGE_TTL as NonNullable<jwt.SignOptions['expiresIn']> });
+
+// Returns the user ID, throws if the token is invalid, expired or not a login challenge
+export const verifyLoginChallenge = (token: string) => {
+  const decoded = jwt.verify(token, getJwtSecret()) as { userId?: number; purpose?: string };
+
+  if (decoded.purpose !== 'login_2fa' || !decoded.userId) {
+    throw new Error('Not a login challenge');
+  }
+
+  return decoded.userId;
+};
+
+const GUEST_TOKEN_TTL = process.env.GUEST_TOKEN_EXPIRY || '2h';
+
+// Lets a guest's sockets into one meeting. Like a login challenge it carries no session,
+// so it is never accepted by the REST API.
+export const signGuestToken = (userId: number, meetingId: string) =>
+  jwt.sign({ userId, meetingId, purpose: 'guest' }, getJwtSecret(), { expiresIn: GUEST_TOKEN_TTL as NonNullable<jwt.SignOptions['expiresIn']> });
+
+// Null for tokens that are not guest tokens; throws if the token is invalid or expired
+export const verifyGuestToken = (token: string) => {
+  const decoded = jwt.verify(token, getJwtSecret()) as { userId?: number; meetingId?: string; purpose?: string };
+
+  if (decoded.purpose !== 'guest') {
+    return null;
+  }
+  if (!decoded.userId || !decoded.meetingId) {
+    throw new Error('Guest token is incomplete');
+  }
+
+  return { userId: decoded.userId, meetingId: decoded.meetingId };
+};
+
+export const isSessionActive = async (sessionId: string, userId: number) => {
+  const result = await query(
+    `SELECT id FROM user_sessions
+     WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL AND expires_at > NOW()`,
+    [sessionId, userId]
+  );
+  return result.rows.length > 0;
+};
+
+// Refresh tokens have the form "<sessionId>.<secret>"; only a hash of the secret is stored
+const buildRefreshToken = (sessionId: string) => {
+  const secret = crypto.randomBytes(48).toString('base64url');
+  return { token: `${sessionId}.${secret}`, hash: hashToken(secret) };
+};
+
+const parseRefreshToken = (refreshToken: string) => {
+  const separator = refreshToken.indexOf('.');
+  if (separator <= 0) {
+    return null;
+  }
+  return {
+    sessionId: refreshToken.slice(0, separator),
+    secret: refreshToken.slice(separator + 1),
+  };
+};
+
+export const createSession = async (
+  user: { id: number; email: string },
+  context: SessionContext = {}
+) => {
+  const sessionId = uuidv4();
+  const refresh = buildRefreshToken(sessionId);
+  const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  await query(
+    `INSERT INTO user_sessions (id, user_id, refresh_token_hash, user_agent, ip_address, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+    [sessionId, user.id, refresh.hash, context.userAgent || null, context.ipAddress || null, expiresAt]
+  );
+
+  return {
+    sessionId,
+    accessToken: signAccessToken({ userId: user.id, email: user.email, sessionId }),
+    refreshToken: refresh.token,
+  };
+};
+
+export type RefreshResult =
+  | { ok: true; userId: number; sessionId: string; accessToken: string; refreshToken: string }
+  | { ok: false; reason: 'invalid' | 'expired' }
+  | { ok: false; reason: 'reused'; userId: number; sessionId: string };
+
+// Rotates the refresh token of a session. Presenting an already rotated token
+// means it leaked, so the whole session is revoked.
+export const rotateRefreshToken = async (
+  refreshToken: string,
+  context: SessionContext = {}
+): Promise<RefreshResult> => {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  const result = await query(
+    `SELECT s.id, s.user_id, s.refresh_token_hash, s.expires_at, s.revoked_at, u.email
+     FROM user_sessions s
+     JOIN users u ON s.user_id = u.id
+     WHERE s.id = $1`,
+    [parsed.sessionId]
+  );
+
+  if (result.rows.length === 0) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  const session = result.rows[0];
+
+  if (session.revoked_at) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  if (session.refresh_token_hash !== hashToken(parsed.secret)) {
+    await revokeSession(session.id);
+    return { ok: false, reason: 'reused', userId: session.user_id, sessionId: session.id };
+  }
+
+  if (new Date() > new Date(session.expires_at)) {
+    return { ok: false, reason: 'expired' };
+  }
+
+  const refresh = buildRefreshToken(session.id);
+
+  // Guard on the old hash so two concurrent refreshes cannot both succeed
+  const updated = await query(
+    `UPDATE user_sessions
+     SET refresh_token_hash = $1, last_used_at = NOW(), user_agent = COALESCE($2, user_agent), ip_address = COALESCE($3, ip_address)
+     WHERE id = $4 AND refresh_token_hash = $5 AND revoked_at IS NULL`,
+    [refresh.hash, context.userAgent || null, context.ipAddress || null, session.id, session.refresh_token_hash]
+  );
+
+  if (updated.rowCount === 0) {
+    await revokeSession(session.id);
+    return { ok: false, reason: 'reused', userId: session.user_id, sessionId: session.id };
+  }
+
+  return {
+    ok: true,
+    userId: session.user_id,
+    sessionId: session.id,
+    accessToken: signAccessToken({ userId: session.user_id, email: session.email, sessionId: session.id }),
+    refreshToken: refresh.token,
+  };
+};
+
+export const revokeSession = async (sessionId: string, userId?: number) => {
+  const result = await query(
+    `UPDATE user_sessions SET revoked_at = NOW()
+     WHERE id = $1 AND revoked_at IS NULL ${userId !== undefined ? 'AND user_id = $2' : ''}`,
+    userId !== undefined ? [sessionId, userId] : [sessionId]
+  );
+  return (result.rowCount ?? 0) > 0;
+};
+
+export const revokeAllSessions = async (userId: number, exceptSessionId?: string) => {
+  const result = await query(
+    `UPDATE user_sessions SET revoked_at = NOW()
+     WHERE user_id = $1 AND revoked_at IS NULL AND ($2::varchar IS NULL OR id <> $2)`,
+    [userId, exceptSessionId || null]
+  );
+  return result.rowCount ?? 0;
+};
+
+export const listActiveSessions = async (userId: number) => {
+  const result = await query(
+    `SELECT id, user_agent, ip_address, created_at, last_used_at, expires_at
+     FROM user_sessions
+     WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+     ORDER BY COALESCE(last_used_at, created_at) DESC`,
+    [userId]
+  );
+  return result.rows;
+};
@@ -0,0 +1,45 @@
+// src/utils/totp.test.ts
+// RFC 6238 appendix B test vectors for SHA-1. The RFC lists 8-digit codes; with 6 digits the
+// truncation keeps their last six.
+import assert from 'assert';
+import test from 'node:test';
+import { base32Decode, base32Encode, generateTotp, timeStep, verifyTotp } from './totp';
+
+const SECRET = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+
+const VECTORS: [seconds: number, code: string][] = [
+  [59, '94287082'],
+  [1111111109, '07081804'],
+  [1111111111, '14050471'],
+  [1234567890, '89005924'],
+  [2000000000, '69279037'],
+  [20000000000, '65353130'],
+];
+
+test('base32 round-trips the RFC secret', () => {
+  assert.strictEqual(SECRET, 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  assert.strictEqual(base32Decode(SECRET).toString('ascii'), '12345678901234567890');
+});
+
+test('generateTotp matches the RFC 6238 SHA-1 vectors', () => {
+  for (const [seconds, code] of VECTORS) {
+    assert.strictEqual(generateTotp(SECRET, timeStep(seconds * 1000)), code.slice(-6), `T = ${seconds}`);
+  }
+});
+
+test('verifyTotp accepts the vectors within one step of drift', () => {
+  for (const [seconds, code] of VECTORS) {
+    const now = seconds * 1000;
+    const step = timeStep(now);
+    assert.strictEqual(verifyTotp(SECRET, code.slice(-6), now), step);
+    assert.strictEqual(verifyTotp(SECRET, code.slice(-6), now + 30000), step);
+    assert.strictEqual(verifyTotp(SECRET, code.slice(-6), now - 30000), step);
+    assert.strictEqual(verifyTotp(SECRET, code.slice(-6), now + 60000), null);
+  }
+});
+
+test('verifyTotp rejects malformed codes', () => {
+  assert.strictEqual(verifyTotp(SECRET, '12345', 59000), null);
+  assert.strictEqual(verifyTotp(SECRET, '28708a', 59000), null);
+  assert.strictEqual(verifyTotp(SECRET, '287 082', 59000), timeStep(59000));
+});
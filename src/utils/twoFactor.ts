@@ -0,0 +1,138 @@
+// src/utils/twoFactor.ts
+import crypto from 'crypto';
+import { query } from '../config/database';
+import { base32Encode, buildOtpAuthUri, generateTotpSecret, verifyTotp } from './totp';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Recovery codes carry 50 bits of randomness, so a plain SHA-256 is enough to store them
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash('sha256').update(code.toLowerCase().replace(/[^a-z0-9]/g, '')).digest('hex');
+
+// 10 base32 characters, 5 bits each
+const generateRecoveryCode = () => {
+  const raw = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+};
+
+export const getTwoFactorStatus = async (userId: number) => {
+  const result = await query(
+    `SELECT u.totp_enabled_at,
+       (SELECT COUNT(*) FROM two_factor_recovery_codes WHERE user_id = u.id AND used_at IS NULL) AS remaining
+     FROM users u WHERE u.id = $1`,
+    [userId]
+  );
+  const row = result.rows[0];
+
+  return {
+    enabled: Boolean(row?.totp_enabled_at),
+    enabledAt: (row?.totp_enabled_at as Date | null) ?? null,
+    recoveryCodesRemaining: row?.totp_enabled_at ? parseInt(row.remaining, 10) : 0,
+  };
+};
+
+// Replaces any earlier set; only the hashes are stored, so this is the one time they are shown
+export const regenerateRecoveryCodes = async (userId: number) => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+  await query('DELETE FROM two_factor_recovery_codes WHERE user_id = $1', [userId]);
+  await query(
+    `INSERT INTO two_factor_recovery_codes (user_id, code_hash)
+     SELECT $1, UNNEST($2::varchar[])`,
+    [userId, codes.map(hashRecoveryCode)]
+  );
+
+  return codes;
+};
+
+// Step one of enrolment: a new secret that stays inactive until a code confirms it.
+// Returns null when 2FA is already on.
+export const startTwoFactorEnrolment = async (userId: number, email: string) => {
+  const secret = generateTotpSecret();
+
+  const result = await query(
+    'UPDATE users SET totp_secret = $1, totp_last_step = NULL WHERE id = $2 AND totp_enabled_at IS NULL RETURNING id',
+    [secret, userId]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return { secret, otpauthUri: buildOtpAuthUri(secret, email) };
+};
+
+export type EnrolmentResult =
+  | { ok: true; recoveryCodes: string[] }
+  | { ok: false; reason: 'not_started' | 'already_enabled' | 'invalid_code' };
+
+// Step two: the first code from the authenticator app turns 2FA on
+export const confirmTwoFactorEnrolment = async (userId: number, code: string): Promise<EnrolmentResult> => {
+  const result = await query('SELECT totp_secret, totp_enabled_at FROM users WHERE id = $1', [userId]);
+  const user = result.rows[0];
+
+  if (user?.totp_enabled_at) {
+    return { ok: false, reason: 'already_enabled' };
+  }
+  if (!user?.totp_secret) {
+    return { ok: false, reason: 'not_started' };
+  }
+
+  const step = verifyTotp(user.totp_secret, code);
+  if (step === null) {
+    return { ok: false, reason: 'invalid_code' };
+  }
+
+  await query('UPDATE users SET totp_enabled_at = NOW(), totp_last_step = $1 WHERE id = $2', [step, userId]);
+
+  return { ok: true, recoveryCodes: await regenerateRecoveryCodes(userId) };
+};
+
+// Checks the second factor of a login: a current TOTP code or an unused recovery code.
+// Each code works only once.
+export const verifySecondFactor = async (userId: number, factor: { code?: string; recoveryCode?: string }) => {
+  if (factor.recoveryCode) {
+    const used = await query(
+      `UPDATE two_factor_recovery_codes SET used_at = NOW()
+       WHERE id = (
+         SELECT id FROM two_factor_recovery_codes
+         WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+         LIMIT 1
+       )
+       RETURNING id`,
+      [userId, hashRecoveryCode(factor.recoveryCode)]
+    );
+    return used.rows.length > 0;
+  }
+
+  if (!factor.code) {
+    return false;
+  }
+
+  const result = await query('SELECT totp_secret FROM users WHERE id = $1 AND totp_enabled_at IS NOT NULL', [userId]);
+  if (result.rows.length === 0) {
+    return false;
+  }
+
+  const step = verifyTotp(result.rows[0].totp_secret, factor.code);
+  if (step === null) {
+    return false;
+  }
+
+  // Guarding on the last step rejects a replayed code, even from a concurrent request
+  const accepted = await query(
+    `UPDATE users SET totp_last_step = $1
+     WHERE id = $2 AND (totp_last_step IS NULL OR totp_last_step < $1)
+     RETURNING id`,
+    [step, userId]
+  );
+  return accepted.rows.length > 0;
+};
+
+export const disableTwoFactor = async (userId: number) => {
+  await query(
+    'UPDATE users SET totp_secret = NULL, totp_enabled_at = NULL, totp_last_step = NULL WHERE id = $1',
+    [userId]
+  );
+  await query('DELETE FROM two_factor_recovery_codes WHERE user_id = $1', [userId]);
+};
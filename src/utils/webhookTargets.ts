@@ -0,0 +1,97 @@
+// src/utils/webhookTargets.ts
+// Webhook URLs are chosen by users, so deliveries must not reach the server's own network:
+// loopback, private, link-local (cloud metadata) and other non-public addresses are refused.
+// The check runs on the addresses the hostname resolves to at delivery time, on the connection
+// itself, so a DNS record changed after registration cannot point it elsewhere.
+import dns from 'dns';
+import net from 'net';
+
+const blockedRanges = new net.BlockList();
+
+// IPv4 ranges also match their IPv4-mapped IPv6 form (::ffff:127.0.0.1)
+for (const [address, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, including 169.254.169.254 metadata endpoints
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+] as const) {
+  blockedRanges.addSubnet(address, prefix, 'ipv4');
+}
+
+for (const [address, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64
+  ['2001:db8::', 32],
+  ['fc00::', 7], // unique local, including fd00:ec2::254 metadata
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedRanges.addSubnet(address, prefix, 'ipv6');
+}
+
+export const isPublicAddress = (address: string) => {
+  const family = net.isIP(address);
+  return family !== 0 && !blockedRanges.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+// For local testing against a receiver on this machine; never honoured in production
+const allowPrivateTargets = () =>
+  process.env.NODE_ENV !== 'production' && process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === 'true';
+
+// Checks what can be told from the URL alone; returns why it is refused, or null
+export const webhookUrlError = (url: string) => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Invalid URL';
+  }
+
+  if (parsed.protocol !== 'https:' && (process.env.NODE_ENV === 'production' || parsed.protocol !== 'http:')) {
+    return 'Webhook URLs must use https';
+  }
+  if (allowPrivateTargets()) {
+    return null;
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')) {
+    return 'Webhook URLs must not point to a private address';
+  }
+  if (net.isIP(hostname) && !isPublicAddress(hostname)) {
+    return 'Webhook URLs must not point to a private address';
+  }
+  return null;
+};
+
+// `lookup` for http(s).request: refuses hostnames that resolve to any non-public address
+export const publicAddressLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, []);
+    }
+
+    if (!allowPrivateTargets() && addresses.some(({ address }) => !isPublicAddress(address))) {
+      const refused: NodeJS.ErrnoException = new Error(`${hostname} resolves to a private address`);
+      refused.code = 'EADDRNOTALLOWED';
+      return callback(refused, []);
+    }
+
+    const first = addresses[0];
+    if (options.all || !first) {
+      return callback(null, addresses);
+    }
+    callback(null, first.address, first.family);
+  });
+};
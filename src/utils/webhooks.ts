@@ -0,0 +1,200 @@
+// src/utils/webhooks.ts
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../config/database';
+import { startPollingWorker } from './jobs';
+import { publicAddressLookup, webhookUrlError } from './webhookTargets';
+
+export const WEBHOOK_EVENT_TYPES = [
+  'meeting.created',
+  'meeting.started',
+  'meeting.ended',
+  'participant.joined',
+  'participant.left',
+  'user.verified',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_SECONDS = 30;
+const MAX_RETRY_SECONDS = 6 * 60 * 60;
+const DELIVERY_TIMEOUT_MS = 10000;
+const POLL_INTERVAL_MS = 5000;
+const BATCH_SIZE = 20;
+
+interface ClaimedDelivery {
+  id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: unknown;
+  attempts: number;
+  url: string;
+  secret: string;
+}
+
+export const generateWebhookSecret = () => `whsec_${crypto.randomBytes(32).toString('base64url')}`;
+
+// Receivers recompute this over `${timestamp}.${body}` and compare it to the signature header
+export const signWebhookPayload = (secret: string, timestamp: number, body: string) =>
+  crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+// 30s, 1m, 2m, ... capped at 6h
+export const retryDelaySeconds = (attempts: number) =>
+  Math.min(BASE_RETRY_SECONDS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_SECONDS);
+
+// Queues one delivery per active endpoint of the owner subscribed to the event.
+// Never throws: a broken webhook setup must not break the action that triggered it.
+export const emitWebhookEvent = async (ownerId: number, type: WebhookEventType, data: Record<string, unknown>) => {
+  try {
+    const eventId = uuidv4();
+    const payload = { id: eventId, type, createdAt: new Date().toISOString(), data };
+
+    await query(
+      `INSERT INTO webhook_deliveries (endpoint_id, event_id, event_type, payload)
+       SELECT id, $3, $2, $4 FROM webhook_endpoints
+       WHERE user_id = $1 AND is_active = TRUE AND $2 = ANY(event_types)`,
+      [ownerId, type, eventId, JSON.stringify(payload)]
+    );
+  } catch (error) {
+    console.error('Webhook emit error:', error);
+  }
+};
+
+// Meeting events go to the host's endpoints
+export const emitMeetingWebhookEvent = async (
+  meetingId: string,
+  type: WebhookEventType,
+  data: Record<string, unknown> = {}
+) => {
+  try {
+    const result = await query('SELECT host_id, title FROM meetings WHERE id = $1', [meetingId]);
+    if (result.rows.length === 0) return;
+
+    const meeting = result.rows[0];
+    await emitWebhookEvent(meeting.host_id, type, { meetingId, title: meeting.title, ...data });
+  } catch (error) {
+    console.error('Webhook emit error:', error);
+  }
+};
+
+// Resolves with the response status. Redirects are not followed, and the connection is only made
+// to public addresses (see webhookTargets.ts).
+const post = (url: URL, headers: Record<string, string>, body: string) =>
+  new Promise<number>((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? https : http).request(
+      url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+        lookup: publicAddressLookup,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      }
+    );
+    request.on('error', reject);
+    request.end(body);
+  });
+
+const deliver = async (delivery: ClaimedDelivery) => {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  // Checked again here: the rules may have changed since the endpoint was registered
+  const refused = webhookUrlError(delivery.url);
+  if (refused) {
+    return { ok: false, status: null, error: refused };
+  }
+
+  try {
+    const status = await post(
+      new URL(delivery.url),
+      {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Confidex-Webhooks/1.0',
+        'X-Webhook-Id': delivery.event_id,
+        'X-Webhook-Event': delivery.event_type,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': `sha256=${signWebhookPayload(delivery.secret, timestamp, body)}`,
+      },
+      body
+    );
+
+    const ok = status >= 200 && status < 300;
+    return { ok, status, error: ok ? null : `HTTP ${status}` };
+  } catch (error) {
+    return { ok: false, status: null, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+// Claims due deliveries (several server instances may poll the same queue) and sends them
+export const processDueDeliveries = async () => {
+  const claimed = await query(
+    `UPDATE webhook_deliveries d SET next_attempt_at = NOW() + INTERVAL '5 minutes'
+     FROM webhook_endpoints e
+     WHERE e.id = d.endpoint_id AND d.id IN (
+       SELECT id FROM webhook_deliveries
+       WHERE status = 'pending' AND next_attempt_at <= NOW()
+       ORDER BY next_attempt_at
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING d.id, d.event_id, d.event_type, d.payload, d.attempts, e.url, e.secret`,
+    [BATCH_SIZE]
+  );
+
+  for (const delivery of claimed.rows as ClaimedDelivery[]) {
+    const result = await deliver(delivery);
+    const attempts = delivery.attempts + 1;
+
+    if (result.ok) {
+      await query(
+        `UPDATE webhook_deliveries SET status = 'succeeded', attempts = $2, last_attempt_at = NOW(),
+           delivered_at = NOW(), response_status = $3, last_error = NULL
+         WHERE id = $1`,
+        [delivery.id, attempts, result.status]
+      );
+    } else {
+      await query(
+        `UPDATE webhook_deliveries SET status = $2, attempts = $3, last_attempt_at = NOW(),
+           next_attempt_at = NOW() + make_interval(secs => $4), response_status = $5, last_error = $6
+         WHERE id = $1`,
+        [
+          delivery.id,
+          attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+          attempts,
+          retryDelaySeconds(attempts),
+          result.status,
+          result.error?.slice(0, 1000),
+        ]
+      );
+    }
+  }
+
+  return claimed.rows.length;
+};
+
+// Sends the same event again as a new delivery; the original stays in the log
+export const replayDelivery = async (endpointId: number, deliveryId: number) => {
+  const result = await query(
+    `INSERT INTO webhook_deliveries (endpoint_id, event_id, event_type, payload)
+     SELECT d.endpoint_id, d.event_id, d.event_type, d.payload FROM webhook_deliveries d
+     WHERE d.id = $1 AND d.endpoint_id = $2
+     RETURNING id, status, created_at`,
+    [deliveryId, endpointId]
+  );
+  return result.rows[0];
+};
+
+export const startWebhookWorker = () =>
+  startPollingWorker({
+    name: 'Webhook',
+    intervalMs: POLL_INTERVAL_MS,
+    batchSize: BATCH_SIZE,
+    processBatch: processDueDeliveries,
+  });